@@ -27,6 +27,7 @@ export interface DerivedLoanType extends Omit<CollateralParams, 'liquidationRati
   debitExchangeRate: Rate;
   liquidationRatio: OptionRatio | ExchangeRate;
   liquidationPenalty: OptionRatio | Rate;
+  minimumDebitValue: Balance;
 }
 
 export interface DerivedUserLoan {
@@ -1,4 +1,13 @@
-import { createDexShareName, getCurrencyObject, unzipDexShareName } from '.';
+import {
+  createDexShareName,
+  createERC20Name,
+  forceToCurrencyName,
+  getCurrencyObject,
+  getCurrencyTypeByName,
+  TokenType,
+  unzipDexShareName,
+  unzipERC20Name
+} from '.';
 
 describe('converter', () => {
   test('dex share name should work', () => {
@@ -37,4 +46,35 @@ describe('converter', () => {
       ]
     });
   });
+
+  test('erc20 name should work', () => {
+    const address = '0x0000000000000000000000000000000000000001';
+    const name = createERC20Name(address);
+
+    expect(name).toEqual(`erc20://${address}`);
+    expect(createERC20Name('0x000000000000000000000000000000000000000A')).toEqual(
+      'erc20://0x000000000000000000000000000000000000000a'
+    );
+    expect(unzipERC20Name(name)).toEqual(address);
+    expect(() => unzipERC20Name('SETM')).toThrow();
+    expect(() => unzipERC20Name('erc20://0x01')).toThrow();
+    expect(getCurrencyTypeByName(name)).toEqual(TokenType.ERC20);
+  });
+  test('get erc20 Currency Object should work', () => {
+    const address = '0x0000000000000000000000000000000000000001';
+    const erc20 = createERC20Name(address);
+    const name1 = createDexShareName('SETM', erc20);
+
+    expect(getCurrencyObject(erc20)).toEqual({ Erc20: address });
+    expect(getCurrencyObject(name1)).toEqual({ DexShare: [{ Token: 'SETM' }, { Erc20: address }] });
+  });
+  test('force to erc20 currency name should work', () => {
+    const address = '0x0000000000000000000000000000000000000001';
+    const mockERC20 = { asErc20: { toString: () => address }, isErc20: true };
+    const mockSETM = { asToken: { toString: () => 'SETM' }, isToken: true };
+    const mockDexShare = { asDexShare: [mockSETM, mockERC20], isDexShare: true };
+
+    expect(forceToCurrencyName(mockERC20 as any)).toEqual(`erc20://${address}`);
+    expect(forceToCurrencyName(mockDexShare as any)).toEqual(createDexShareName('SETM', createERC20Name(address)));
+  });
 });
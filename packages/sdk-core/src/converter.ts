@@ -1,11 +1,8 @@
 import { CurrencyId, TokenSymbol } from '@setheum.js/types/interfaces';
 import { isArray } from 'lodash';
+import { ModuleAssetRegistryModuleAssetIds } from '@polkadot/types/lookup';
 import { TokenType } from '.';
-import {
-  ConvertToCurrencyIdFailed,
-  ConvertToCurrencyNameFailed,
-  NotDexShareName
-} from './errors';
+import { ConvertToCurrencyIdFailed, ConvertToCurrencyNameFailed, NotDexShareName, NotERC20TokenName } from './errors';
 import { Token } from './token';
 import { AnyApi, CurrencyObject, MaybeCurrency } from './types';
 
@@ -13,7 +10,7 @@ import { AnyApi, CurrencyObject, MaybeCurrency } from './types';
  *  we set a name with a prefix to all types of tokens for easy passing and use.
  *  e.g.
  *  { DexShare: [{ Token: SETM }, { Token: SERP }] } is lp://SETM/SERP
- *  { ERC20: '0x100000000' } is erc20://0x10000
+ *  { Erc20: '0x0000000000000000000000000000000000000001' } is erc20://0x0000000000000000000000000000000000000001
  *  we can also combine these name for complex types
  *  e.g.
  *  lp://${encode(lp://SETM/SERP)}/${encode(sa://0)} is { DexShare: [ { DexShare: [{ Token: 'SETM' }, { Token: 'SERP}] } ] }
@@ -46,12 +43,36 @@ export function unzipDexShareName(name: string): [string, string] {
   return [decodeURIComponent(result[1]), decodeURIComponent(result[2])] as [string, string];
 }
 
+// for erc20, the address is lowercased so that names created from H160 and from checksum address are equal
+export function createERC20Name(address: string): string {
+  return `erc20://${address.toLowerCase()}`;
+}
+
+export function isERC20Name(name: string): boolean {
+  return name.startsWith('erc20://');
+}
+
+/**
+ * @name unzipERC20Name
+ * @description get the evm address from erc20 name, e.g. erc20://0x00...01 -> 0x00...01;
+ */
+export function unzipERC20Name(name: string): string {
+  if (!isERC20Name(name)) throw new NotERC20TokenName(name);
+
+  const reg = /^erc20:\/\/(0x[0-9a-fA-F]{40})$/;
+
+  const result = reg.exec(name);
+
+  if (!result) throw new NotERC20TokenName(name);
+
+  return result[1];
+}
+
 export function getCurrencyTypeByName(name: string): TokenType {
   if (isDexShareName(name)) return TokenType.DEX_SHARE;
 
-  if (isDexShareName(name)) return TokenType.DEX_SHARE;
+  if (isERC20Name(name)) return TokenType.ERC20;
 
-  // FIXME: need to support ERC20
   return TokenType.BASIC;
 }
 
@@ -59,6 +80,10 @@ export function getBasicCurrencyObject(name: string): CurrencyObject {
   return { Token: name };
 }
 
+export function getERC20CurrencyObject(name: string): CurrencyObject {
+  return { Erc20: unzipERC20Name(name) };
+}
+
 export function getDexShareCurrencyObject(name: string): CurrencyObject {
   const inner = (name: string): CurrencyObject => {
     if (isDexShareName(name)) {
@@ -67,7 +92,8 @@ export function getDexShareCurrencyObject(name: string): CurrencyObject {
       return { DexShare: [inner(name1), inner(name2)] };
     }
 
-    // FIXME: need to support ERC20
+    if (isERC20Name(name)) return getERC20CurrencyObject(name);
+
     return getBasicCurrencyObject(name);
   };
 
@@ -77,7 +103,8 @@ export function getDexShareCurrencyObject(name: string): CurrencyObject {
 export function getCurrencyObject(name: string): CurrencyObject {
   if (isDexShareName(name)) return getDexShareCurrencyObject(name);
 
-  // FIXME: need to support ERC20
+  if (isERC20Name(name)) return getERC20CurrencyObject(name);
+
   return getBasicCurrencyObject(name);
 }
 
@@ -102,8 +129,7 @@ export function forceToCurrencyName(target: MaybeCurrency): string {
       );
     }
 
-    // FIXME: should handle erc20
-    if ((target as CurrencyId).isErc20) return (target as CurrencyId).asErc20.toString();
+    if ((target as CurrencyId).isErc20) return createERC20Name((target as CurrencyId).asErc20.toString());
 
     return target.toString();
   } catch (e) {
@@ -111,13 +137,24 @@ export function forceToCurrencyName(target: MaybeCurrency): string {
   }
 }
 
+/**
+ * @name getAssetRegistryName
+ * @description get the currency name of the asset registry key, only the `Erc20` assets are registered now,
+ * return undefined for the unknown keys
+ */
+export function getAssetRegistryName(id: ModuleAssetRegistryModuleAssetIds): string | undefined {
+  if (id.isErc20) return createERC20Name(id.asErc20.toString());
+
+  return undefined;
+}
+
 export function forceToCurrencyId(api: AnyApi, target: MaybeCurrency): CurrencyId {
   try {
     const name = forceToCurrencyName(target);
 
     return api.createType('SetheumPrimitivesCurrencyCurrencyId', getCurrencyObject(name)) as unknown as CurrencyId;
   } catch (e) {
-    throw new ConvertToCurrencyIdFailed(origin);
+    throw new ConvertToCurrencyIdFailed(target);
   }
 }
 
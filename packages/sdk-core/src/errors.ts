@@ -41,3 +41,21 @@ export class NotDexShareName extends Error {
     this.message = `${origin} is not dex share name`;
   }
 }
+
+export class NotERC20TokenName extends Error {
+  constructor(origin: string) {
+    super();
+
+    this.name = 'notERC20TokenName';
+    this.message = `${origin} is not erc20 token name`;
+  }
+}
+
+export class NotStorageQuery extends Error {
+  constructor() {
+    super();
+
+    this.name = 'notStorageQuery';
+    this.message = `only the storage query can be queried at a specific block`;
+  }
+}
@@ -0,0 +1,155 @@
+import { ApiRx } from '@polkadot/api';
+import { EventRecord } from '@polkadot/types/interfaces';
+import { Subject } from 'rxjs';
+import { DecodedEvent, EventBus, EventBusItem, eventsFilterRx } from './event-bus';
+import { FixedPointNumber } from './fixed-point-number';
+import { Token } from './token';
+
+describe('event bus', () => {
+  const option = (value?: string) => ({ isSome: value !== undefined, unwrap: () => value });
+  const codec = (value: string) => ({ toString: () => value });
+  const currencyId = (name: string) => ({ isToken: true, asToken: codec(name), toString: () => name });
+
+  const createRecord = (section: string, method: string, fields: [string, string, unknown][]) => {
+    return {
+      phase: { isApplyExtrinsic: true, asApplyExtrinsic: codec('1') },
+      event: {
+        section,
+        method,
+        data: fields.map((item) => item[2]),
+        meta: { fields: fields.map(([name, typeName]) => ({ name: option(name), typeName: option(typeName) })) }
+      }
+    } as unknown as EventRecord;
+  };
+
+  const createApi = () => {
+    const events$ = new Subject<EventRecord[]>();
+    const events = jest.fn(() => events$.asObservable());
+    const api = {
+      type: 'rxjs',
+      registry: { chainTokens: ['SETM', 'SETUSD', 'DNAR'], chainDecimals: [12, 18, 10] },
+      query: { system: { events } }
+    } as unknown as ApiRx;
+
+    return { api, events, events$ };
+  };
+
+  const transferred = createRecord('currencies', 'Transferred', [
+    ['currency_id', 'CurrencyId', currencyId('SETUSD')],
+    ['from', 'AccountId', codec('alice')],
+    ['to', 'AccountId', codec('bob')],
+    ['amount', 'Balance', codec('1500000000000000000')]
+  ]);
+  const nativeTransfer = createRecord('balances', 'Transfer', [
+    ['from', 'T::AccountId', codec('alice')],
+    ['to', 'T::AccountId', codec('bob')],
+    ['amount', 'T::Balance', codec('2000000000000')]
+  ]);
+  const other = createRecord('system', 'ExtrinsicSuccess', []);
+
+  test('subscribe events with initial trigger', () => {
+    const { api, events$ } = createApi();
+    const result: EventBusItem[] = [];
+
+    new EventBus(api).subscribe('currencies.*', { initial: true }).subscribe((item) => result.push(item));
+
+    events$.next([other, transferred]);
+
+    expect(result.length).toBe(2);
+    expect(result[0].initial).toBe(true);
+    expect((result[1] as DecodedEvent).key).toBe('currencies.Transferred');
+  });
+
+  test('decode tokens and balances', async () => {
+    const { api, events$ } = createApi();
+    const bus = new EventBus(api);
+    const currenciesEvent = bus.once('currencies.Transferred');
+    const balancesEvent = bus.once({ section: 'balances', method: 'Transfer' });
+
+    events$.next([transferred, nativeTransfer]);
+
+    const { args, namedArgs } = await currenciesEvent;
+    const token = args[0] as Token;
+
+    expect(token.name).toBe('SETUSD');
+    expect(token.decimals).toBe(18);
+    expect(namedArgs.from).toBe('alice');
+    expect((namedArgs.amount as FixedPointNumber).toNumber()).toBe(1.5);
+    expect(((await balancesEvent).namedArgs.amount as FixedPointNumber).toNumber()).toBe(2);
+  });
+
+  test('share one system.events subscription', () => {
+    const { api, events, events$ } = createApi();
+    const bus = EventBus.get(api);
+    const callback = jest.fn();
+
+    const unsub = bus.on('*.Transfer', callback);
+    const subscription = EventBus.get(api).subscribe('currencies.Transferred').subscribe();
+
+    events$.next([nativeTransfer, transferred]);
+    unsub();
+    events$.next([nativeTransfer]);
+
+    expect(events).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    subscription.unsubscribe();
+  });
+
+  test('decode the balances with the decimals of their own currencies', () => {
+    const { api } = createApi();
+    const bus = new EventBus(api);
+    const addLiquidity = createRecord('dex', 'AddLiquidity', [
+      ['who', 'AccountId', codec('alice')],
+      ['currency_0', 'CurrencyId', currencyId('SETM')],
+      ['pool_0', 'Balance', codec('1000000000000')],
+      ['currency_1', 'CurrencyId', currencyId('SETUSD')],
+      ['pool_1', 'Balance', codec('4000000000000000000')],
+      ['share_increment', 'Balance', codec('2000000000000')]
+    ]);
+
+    const { namedArgs } = bus.decode(addLiquidity);
+
+    expect((namedArgs.pool_0 as FixedPointNumber).toNumber()).toBe(1);
+    expect((namedArgs.pool_1 as FixedPointNumber).toNumber()).toBe(4);
+    // the dex share uses the decimals of the first sorted token
+    expect((namedArgs.share_increment as FixedPointNumber).toNumber()).toBe(2);
+  });
+
+  test('decode the balance list with the currency path', () => {
+    const { api } = createApi();
+    const swap = createRecord('dex', 'Swap', [
+      ['trader', 'AccountId', codec('alice')],
+      ['path', 'Vec<CurrencyId>', [currencyId('SETM'), currencyId('SETUSD'), currencyId('DNAR')]],
+      [
+        'liquidity_changes',
+        'Vec<Balance>',
+        [codec('1000000000000'), codec('2000000000000000000'), codec('30000000000')]
+      ]
+    ]);
+
+    const { namedArgs } = new EventBus(api).decode(swap);
+
+    expect((namedArgs.path as Token[]).map((item) => item.name)).toEqual(['SETM', 'SETUSD', 'DNAR']);
+    expect((namedArgs.liquidity_changes as FixedPointNumber[]).map((item) => item.toNumber())).toEqual([1, 2, 3]);
+  });
+
+  test('emit the event records in the deprecated eventsFilterRx', () => {
+    const { api, events$ } = createApi();
+    const result: EventRecord[] = [];
+
+    const subscription = eventsFilterRx(api, [{ section: 'currencies', method: 'Transferred' }], true).subscribe(
+      (item) => result.push(item)
+    );
+
+    events$.next([other, transferred]);
+
+    expect(result.map((item) => `${item.event.section}.${item.event.method}`)).toEqual([
+      'currencies.Transferred',
+      'currencies.Transferred'
+    ]);
+    expect(result[1]).toBe(transferred);
+
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,264 @@
+import { ApiPromise, ApiRx } from '@polkadot/api';
+import { Vec } from '@polkadot/types';
+import { EventRecord } from '@polkadot/types/interfaces';
+import { Codec } from '@polkadot/types/types';
+import { CurrencyId } from '@setheum.js/types/interfaces';
+import { firstValueFrom, from, Observable } from 'rxjs';
+import { filter, map, mergeMap, share, startWith } from 'rxjs/operators';
+import { forceToCurrencyName } from './converter';
+import { eventsFilter, mockEventRecord } from './events';
+import { FixedPointNumber } from './fixed-point-number';
+import { Token } from './token';
+import { AnyApi } from './types';
+
+// `section.method` or `{ section, method }`, `*` matches any section or method
+export type EventKey = string | { section: string; method: string };
+
+export type DecodedEventArg = Token | Token[] | FixedPointNumber | FixedPointNumber[] | string | Codec;
+
+export interface DecodedEvent {
+  initial: false;
+  key: string; // `section.method`
+  section: string;
+  method: string;
+  args: DecodedEventArg[];
+  namedArgs: Record<string, DecodedEventArg>;
+  record: EventRecord;
+}
+
+// emitted once before the chain events when the `initial` option is set
+export interface InitialTrigger {
+  initial: true;
+}
+
+export type EventBusItem = DecodedEvent | InitialTrigger;
+
+export interface EventSubscribeOptions {
+  // emit an InitialTrigger immediately after subscribe
+  initial?: boolean;
+}
+
+export interface EventBusConfigs {
+  // resolve the token by currency name, the decimals of chain tokens are used by default
+  getToken?: (name: string) => Token | undefined;
+}
+
+const buses = new WeakMap<AnyApi, EventBus>();
+
+const toFilterConfigs = (keys: EventKey | EventKey[]): { section: string; method: string }[] => {
+  return (Array.isArray(keys) ? keys : [keys]).map((item) => {
+    if (typeof item !== 'string') return item;
+
+    const [section, method] = item.split('.');
+
+    return { section: section || '*', method: method || '*' };
+  });
+};
+
+const isCurrencyType = (typeName: string): boolean => /^CurrencyId/.test(typeName);
+
+const getTypeName = (field?: { typeName: { isSome: boolean; unwrap: () => Codec } }): string => {
+  return field?.typeName.isSome ? field.typeName.unwrap().toString() : '';
+};
+
+export class EventBus {
+  private api: AnyApi;
+  private configs: EventBusConfigs;
+  private events$: Observable<EventRecord[]>;
+
+  constructor(api: AnyApi, configs: EventBusConfigs = {}) {
+    this.api = api;
+    this.configs = configs;
+    // all subscribers share the same `system.events` subscription, which is closed after the last one unsubscribes
+    this.events$ = this.createEventsStream().pipe(share());
+  }
+
+  /**
+   * @name get
+   * @description get the shared event bus of `api`
+   */
+  static get(api: AnyApi): EventBus {
+    let bus = buses.get(api);
+
+    if (!bus) {
+      bus = new EventBus(api);
+      buses.set(api, bus);
+    }
+
+    return bus;
+  }
+
+  private createEventsStream(): Observable<EventRecord[]> {
+    if (this.api.type === 'rxjs') {
+      return (this.api as ApiRx).query.system.events<Vec<EventRecord>>();
+    }
+
+    const api = this.api as ApiPromise;
+
+    return new Observable<EventRecord[]>((subscriber) => {
+      let closed = false;
+      let unsub: (() => void) | undefined;
+
+      api.query.system
+        .events<Vec<EventRecord>>((events: Vec<EventRecord>) => subscriber.next(events))
+        .then((result) => {
+          if (closed) return result();
+
+          unsub = result;
+        })
+        .catch((e) => subscriber.error(e));
+
+      return () => {
+        closed = true;
+
+        if (unsub) unsub();
+      };
+    });
+  }
+
+  private getToken(currency: CurrencyId | string): Token {
+    const name = forceToCurrencyName(currency);
+    const token = this.configs.getToken?.(name);
+
+    if (token) return token;
+
+    const index = this.api.registry.chainTokens.findIndex((item) => item === name);
+
+    return Token.fromCurrencyName(
+      name,
+      index === -1 ? undefined : { decimals: this.api.registry.chainDecimals[index] }
+    );
+  }
+
+  /**
+   * @name decode
+   * @description decode the currency ids to Token and the balances to FixedPointNumber by the type names of event fields,
+   * each balance uses the decimals of the nearest currency before it, the share balances use the dex share of the currencies,
+   * the balance list uses the decimals of the currency path in the same position, and the native token in `balances` section
+   */
+  public decode(record: EventRecord): DecodedEvent {
+    const { section, method } = record.event;
+    const data = record.event.data as unknown as Codec[];
+    const fields = record.event.meta?.fields || [];
+    const typeNames = data.map((_, i) => getTypeName(fields[i]));
+    const names = data.map((_, i) => (fields[i]?.name.isSome ? fields[i].name.unwrap().toString() : i.toString()));
+
+    const tokens = data.map((item, i) =>
+      isCurrencyType(typeNames[i]) ? this.getToken(item as CurrencyId) : undefined
+    );
+    const currencies = tokens.filter((item): item is Token => !!item);
+    const pathIndex = typeNames.findIndex((item) => /^Vec<CurrencyId/.test(item));
+    const path =
+      pathIndex !== -1 ? (data[pathIndex] as unknown as CurrencyId[]).map((item) => this.getToken(item)) : undefined;
+    const nativeToken = section === 'balances' ? this.getToken(this.api.registry.chainTokens[0]) : undefined;
+
+    const getBalanceToken = (index: number): Token | undefined => {
+      if (/share/i.test(names[index]) && currencies.length === 2) return Token.fromTokens(currencies[0], currencies[1]);
+
+      for (let i = index - 1; i >= 0; i--) {
+        const token = tokens[i];
+
+        if (token) return token;
+      }
+
+      return currencies[0] || nativeToken;
+    };
+
+    const toBalance = (item: Codec, token?: Token) => {
+      return token ? FixedPointNumber.fromInner(item.toString(), token.decimals) : item;
+    };
+
+    const args = data.map((item, i): DecodedEventArg => {
+      const typeName = typeNames[i];
+
+      if (tokens[i]) return tokens[i] as Token;
+
+      if (i === pathIndex) return path as Token[];
+
+      if (/AccountId/.test(typeName)) return item.toString();
+
+      if (/^Vec<.*(Balance|Amount)/.test(typeName)) {
+        const balances = item as unknown as Codec[];
+        const tokensOfBalances = balances.map((_, j) => (path ? path[j] : getBalanceToken(i)));
+
+        // keep the raw data if any decimals is unknown
+        if (tokensOfBalances.some((token) => !token)) return item;
+
+        return balances.map((balance, j) => toBalance(balance, tokensOfBalances[j]) as FixedPointNumber);
+      }
+
+      if (/Balance|Amount/.test(typeName)) return toBalance(item, getBalanceToken(i));
+
+      return item;
+    });
+
+    const namedArgs = Object.fromEntries(args.map((item, i) => [names[i], item]));
+
+    return { initial: false, key: `${section}.${method}`, section, method, args, namedArgs, record };
+  }
+
+  /**
+   * @name subscribe
+   * @description subscribe the decoded events which match `keys`
+   */
+  public subscribe(keys: EventKey | EventKey[], options: EventSubscribeOptions = {}): Observable<EventBusItem> {
+    const isMatch = eventsFilter(toFilterConfigs(keys));
+    const events$ = this.events$.pipe(
+      mergeMap((events) => from(events)),
+      filter(isMatch),
+      map((record): EventBusItem => this.decode(record))
+    );
+
+    return options.initial ? events$.pipe(startWith<EventBusItem>({ initial: true })) : events$;
+  }
+
+  /**
+   * @name on
+   * @description call `callback` with the decoded events which match `keys`, return the unsubscribe function
+   */
+  public on(
+    keys: EventKey | EventKey[],
+    callback: (event: EventBusItem) => void,
+    options: EventSubscribeOptions = {}
+  ): () => void {
+    const subscription = this.subscribe(keys, options).subscribe({ next: callback });
+
+    return () => subscription.unsubscribe();
+  }
+
+  /**
+   * @name once
+   * @description wait for the next event which matches `keys`
+   */
+  public once(keys: EventKey | EventKey[]): Promise<DecodedEvent> {
+    return firstValueFrom(this.subscribe(keys) as Observable<DecodedEvent>);
+  }
+}
+
+/**
+ * @deprecated use `EventBus.get(api).subscribe` instead
+ */
+export const eventsFilterRx = (
+  api: ApiRx,
+  configs: { section: string; method: string }[],
+  immediately: boolean
+): Observable<EventRecord> => {
+  return EventBus.get(api)
+    .subscribe(configs, { initial: immediately })
+    .pipe(
+      // the initial trigger is emitted as a mocked event record of the first config
+      map((item) => (item.initial ? mockEventRecord(configs?.[0].section, configs?.[0].method)[0] : item.record))
+    );
+};
+
+/**
+ * @deprecated use `EventBus.get(api).on` instead
+ */
+export const eventsFilterCallback = (
+  api: ApiPromise,
+  configs: { section: string; method: string }[],
+  immediately: boolean,
+  callback: () => void
+): (() => void) => {
+  return EventBus.get(api).on(configs, () => callback(), { initial: immediately });
+};
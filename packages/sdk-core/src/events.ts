@@ -1,8 +1,5 @@
-import { ApiPromise, ApiRx } from '@polkadot/api';
 import { Vec } from '@polkadot/types';
 import { EventRecord } from '@polkadot/types/interfaces';
-import { from, Observable } from 'rxjs';
-import { startWith, filter, switchMap, shareReplay } from 'rxjs/operators';
 
 export const eventMethodsFilter = (methods: string[]) => {
   return (event: EventRecord): boolean => {
@@ -34,33 +31,9 @@ export const eventsFilter = (data: { section: string; method: string }[]) => {
   };
 };
 
+/**
+ * @deprecated the initial trigger of `EventBus` is emitted as `{ initial: true }`
+ */
 export const mockEventRecord = (section?: string, method?: string): Vec<EventRecord> => {
   return [{ event: { section, method } }] as any as Vec<EventRecord>;
 };
-
-export const eventsFilterRx = (
-  api: ApiRx,
-  configs: { section: string; method: string }[],
-  immediately: boolean
-): Observable<EventRecord> => {
-  return api.query.system.events<Vec<EventRecord>>().pipe(
-    startWith(immediately ? mockEventRecord(configs?.[0].section, configs?.[0].method) : []),
-    switchMap((events) => from(events as unknown as Vec<EventRecord>)),
-    filter(eventsFilter(configs)),
-    shareReplay(1)
-  );
-};
-
-export const eventsFilterCallback = (
-  api: ApiPromise,
-  configs: { section: string; method: string }[],
-  immediately: boolean,
-  callback: () => void
-): void => {
-  if (immediately) callback();
-
-  api.query.system.events<Vec<EventRecord>>((events: Vec<EventRecord>) => {
-    // eslint-disable-next-line no-unused-expressions
-    eventsFilter(configs)(events as unknown as EventRecord) ? callback() : undefined;
-  });
-};
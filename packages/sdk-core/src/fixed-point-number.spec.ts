@@ -128,6 +128,16 @@ describe('fixed point number calculation should worker', () => {
 
     expect(n.div(m).toNumber(2)).toEqual(33.33);
   });
+
+  test('sqrt', () => {
+    const a = new FixedPointNumber(16);
+    const b = new FixedPointNumber(2, 4);
+    const c = FixedPointNumber.fromInner(4, 2);
+
+    expect(a.sqrt().toNumber()).toEqual(4);
+    expect(b.sqrt().toNumber()).toEqual(1.4142);
+    expect(c.sqrt().toNumber()).toEqual(0.2);
+  });
 });
 
 describe('fixed point number compare should worker', () => {
@@ -283,6 +283,16 @@ export class FixedPointNumber {
     return FixedPointNumber._fromBN(this.inner.shiftedBy(this.precision).div(temp.inner), this.precision);
   }
 
+  /**
+   * @name sqrt
+   * @description return a FixedPointNumber whose value is the square root of origin value
+   */
+  public sqrt(): FixedPointNumber {
+    this.setMode();
+
+    return FixedPointNumber._fromBN(this.inner.shiftedBy(this.precision).sqrt(), this.precision);
+  }
+
   /**
    * @name reciprocal
    */
@@ -4,6 +4,7 @@ export * from './token-balance';
 export * from './token-pair';
 export * from './token-set';
 export * from './events';
+export * from './event-bus';
 export * from './types';
 export * from './converter';
 export * from './utils';
@@ -1,9 +1,4 @@
-import {
-  isDexShareName,
-  isBasicToken,
-  unzipDexShareName,
-  getCurrencyTypeByName,
-} from '.';
+import { isDexShareName, isBasicToken, isERC20Name, unzipDexShareName, unzipERC20Name, getCurrencyTypeByName } from '.';
 import primitivesConfig from '@setheum.js/type-definitions/primitives';
 import { TokenType } from './types';
 
@@ -45,5 +40,15 @@ export function sortTokenByName(a: string, b: string): number {
     return result0;
   }
 
+  // erc20 tokens are sorted by the evm address, which is the same as the chain
+  if (isERC20Name(a) && isERC20Name(b)) {
+    const addressA = unzipERC20Name(a).toLowerCase();
+    const addressB = unzipERC20Name(b).toLowerCase();
+
+    if (addressA === addressB) return 0;
+
+    return addressA < addressB ? -1 : 1;
+  }
+
   return 0;
 }
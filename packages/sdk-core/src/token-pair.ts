@@ -2,7 +2,7 @@ import { Token } from '@setheum.js/sdk-core/token';
 import { SetheumPrimitivesTradingPair } from '@polkadot/types/lookup';
 import { assert } from '@polkadot/util';
 import { CombinedCurrencyId } from '.';
-import { AnyApi } from './types';
+import { AnyApi, CurrencyObject } from './types';
 
 // class for store token pair
 export class TokenPair {
@@ -15,7 +15,10 @@ export class TokenPair {
 
     const [currency1, currency2] = currency.asDexShare;
 
-    return new TokenPair(Token.fromTokenSymbol(currency1 as any), Token.fromTokenSymbol(currency2 as any));
+    return new TokenPair(
+      Token.fromCurrencyId(currency1 as unknown as CombinedCurrencyId),
+      Token.fromCurrencyId(currency2 as unknown as CombinedCurrencyId)
+    );
   }
 
   static fromCurrencies(currency1: CombinedCurrencyId, currency2: CombinedCurrencyId): TokenPair {
@@ -50,8 +53,8 @@ export class TokenPair {
     return pair.token1.isEqual(this.token1, compare) && pair.token2.isEqual(this.token2, compare);
   }
 
-  public toChainData(): [{ Token: string }, { Token: string }] {
-    return [this.token1.toChainData() as { Token: string }, this.token2.toChainData() as { Token: string }];
+  public toChainData(): [CurrencyObject, CurrencyObject] {
+    return [this.token1.toChainData(), this.token2.toChainData()];
   }
 
   public toTradingPair(api: AnyApi): SetheumPrimitivesTradingPair {
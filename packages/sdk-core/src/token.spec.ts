@@ -1,4 +1,6 @@
 import { Token } from './token';
+import { TokenPair } from './token-pair';
+import { TokenType } from './types';
 
 describe('token', () => {
   const t1 = new Token('SETM', { decimal: 18 });
@@ -61,4 +63,44 @@ describe('token', () => {
     expect(Token.sort(setmsetusd, setm)).toEqual([setm, setmsetusd]);
     expect(Token.sort(setm, setmsetusd)).toEqual([setm, setmsetusd]);
   });
+
+  test('erc20 token should work', () => {
+    const address = '0x0000000000000000000000000000000000000001';
+    const mockERC20 = { asErc20: { toString: () => address }, isErc20: true };
+    const erc20 = Token.fromERC20Address(address);
+
+    expect(erc20.name).toEqual(`erc20://${address}`);
+    expect(erc20.type).toEqual(TokenType.ERC20);
+    expect(erc20.isERC20).toEqual(true);
+    expect(erc20.toChainData()).toEqual({ Erc20: address });
+    expect(Token.fromCurrencyId(mockERC20 as any).isEqual(erc20)).toEqual(true);
+    expect(new Token(erc20.name).isERC20).toEqual(true);
+  });
+
+  test('sort erc20 tokens should work', () => {
+    const setm = new Token('SETM');
+    const erc20a = Token.fromERC20Address('0x0000000000000000000000000000000000000001');
+    const erc20b = Token.fromERC20Address('0x0000000000000000000000000000000000000002');
+    const setmerc20 = Token.fromTokens(erc20a, setm);
+
+    // basic symbol & erc20
+    expect(Token.sort(erc20a, setm)).toEqual([setm, erc20a]);
+    // erc20 & erc20
+    expect(Token.sort(erc20b, erc20a)).toEqual([erc20a, erc20b]);
+    // lp & erc20
+    expect(Token.sort(erc20a, setmerc20)).toEqual([setmerc20, erc20a]);
+    expect(setmerc20.name).toEqual(`lp://SETM/${encodeURIComponent(erc20a.name)}`);
+    expect(setmerc20.toChainData()).toEqual({
+      DexShare: [{ Token: 'SETM' }, { Erc20: '0x0000000000000000000000000000000000000001' }]
+    });
+  });
+
+  test('token pair with erc20 should work', () => {
+    const setm = new Token('SETM');
+    const erc20 = Token.fromERC20Address('0x0000000000000000000000000000000000000001');
+    const pair = new TokenPair(erc20, setm);
+
+    expect(pair.getPair()).toEqual([setm, erc20]);
+    expect(pair.toChainData()).toEqual([{ Token: 'SETM' }, { Erc20: '0x0000000000000000000000000000000000000001' }]);
+  });
 });
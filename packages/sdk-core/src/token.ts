@@ -5,6 +5,7 @@ import { AnyApi, CombinedCurrencyId, TokenType } from './types';
 import { forceToCurrencyName } from './converter';
 import {
   createDexShareName,
+  createERC20Name,
   CurrencyObject,
   FixedPointNumber,
   getCurrencyObject,
@@ -41,7 +42,7 @@ export class Token {
     this.decimal = this.decimals;
     this.ed = configs?.ed || FixedPointNumber.ZERO;
     this.chain = configs?.chain;
-    this.type = configs?.type || TokenType.BASIC;
+    this.type = configs?.type ?? getCurrencyTypeByName(name);
     this.symbol = configs?.symbol || name;
     this.display = configs?.display || name;
   }
@@ -84,6 +85,14 @@ export class Token {
     return this.fromCurrencyName(token.toString(), configs);
   }
 
+  /**
+   * @name fromERC20Address
+   * @description create erc20 token from evm address
+   */
+  static fromERC20Address(address: string, configs?: Configs): Token {
+    return this.fromCurrencyName(createERC20Name(address), configs);
+  }
+
   /* create DexShareToken by Token array */
   static fromTokens(token1: Token, token2: Token): Token {
     const [_token1, _token2] = this.sort(token1, token2);
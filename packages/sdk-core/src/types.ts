@@ -25,9 +25,6 @@ export enum TokenType {
  * CurrencyObject is an object which can as parameters in api.createType('CurrencyId', ...).
  * we can simple pass CurrencyObject to any call as CurrencyId type
  */
-export type CurrencyObject =
-  | { Token: string }
-  | { DexShare: [CurrencyObject, CurrencyObject] }
-  | { Erc20: string };
+export type CurrencyObject = { Token: string } | { DexShare: [CurrencyObject, CurrencyObject] } | { Erc20: string };
 
 export type CombinedCurrencyId = CurrencyId | SetheumPrimitivesCurrencyCurrencyId;
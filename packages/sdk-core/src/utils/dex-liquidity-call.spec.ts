@@ -0,0 +1,29 @@
+import { ApiRx } from '@polkadot/api';
+import { createDexLiquidityCall, hasDexStakeFlag } from './dex-liquidity-call';
+
+describe('dex liquidity call', () => {
+  const createApi = (argsLength: number) => {
+    const call = Object.assign(
+      jest.fn((...params: unknown[]) => params),
+      { meta: { args: { length: argsLength } } }
+    );
+
+    return { api: { tx: { dex: { addLiquidity: call, removeLiquidity: call } } } as unknown as ApiRx, call };
+  };
+
+  test('append the stake flag only when the runtime call has it', () => {
+    const legacy = createApi(5);
+    const staking = createApi(6);
+
+    expect(hasDexStakeFlag(legacy.api, 'addLiquidity')).toBe(false);
+    expect(hasDexStakeFlag(staking.api, 'addLiquidity')).toBe(true);
+
+    createDexLiquidityCall(legacy.api, 'addLiquidity', ['SETM', 'SETUSD', '1', '2', '3'], true);
+    createDexLiquidityCall(staking.api, 'removeLiquidity', ['SETM', 'SETUSD', '1', '2', '3'], true);
+    createDexLiquidityCall(staking.api, 'addLiquidity', ['SETM', 'SETUSD', '1', '2', '3']);
+
+    expect(legacy.call).toHaveBeenCalledWith('SETM', 'SETUSD', '1', '2', '3');
+    expect(staking.call).toHaveBeenNthCalledWith(1, 'SETM', 'SETUSD', '1', '2', '3', true);
+    expect(staking.call).toHaveBeenNthCalledWith(2, 'SETM', 'SETUSD', '1', '2', '3', false);
+  });
+});
@@ -0,0 +1,30 @@
+import { ApiPromise } from '@polkadot/api';
+import { SubmittableExtrinsic, SubmittableExtrinsicFunction } from '@polkadot/api/types';
+import { AnyApi } from '../types';
+
+type DexLiquidityMethod = 'addLiquidity' | 'removeLiquidity';
+type DexLiquidityParams<M extends DexLiquidityMethod> = Parameters<ApiPromise['tx']['dex'][M]>;
+
+/**
+ * @name hasDexStakeFlag
+ * @description check if the runtime `dex.addLiquidity` / `dex.removeLiquidity` call has the stake flag param
+ */
+export function hasDexStakeFlag(api: AnyApi, method: DexLiquidityMethod): boolean {
+  return api.tx.dex[method].meta.args.length > 5;
+}
+
+/**
+ * @name createDexLiquidityCall
+ * @description create the `dex.addLiquidity` / `dex.removeLiquidity` call,
+ * `stake` is only appended when the metadata of the runtime call has the stake flag param
+ */
+export function createDexLiquidityCall<M extends DexLiquidityMethod>(
+  api: AnyApi,
+  method: M,
+  params: DexLiquidityParams<M>,
+  stake = false
+): SubmittableExtrinsic<'promise'> {
+  const call = (api as ApiPromise).tx.dex[method] as SubmittableExtrinsicFunction<'promise'>;
+
+  return hasDexStakeFlag(api, method) ? call(...params, stake) : call(...params);
+}
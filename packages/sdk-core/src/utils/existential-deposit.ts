@@ -0,0 +1,20 @@
+import { forceToCurrencyName } from '../converter';
+import { FixedPointNumber } from '../fixed-point-number';
+import { AnyApi, MaybeCurrency } from '../types';
+
+/**
+ * @name getExistentialDeposit
+ * @description get the existential deposit of `currency` from the runtime constants,
+ * only the native token exposes it by `balances.existentialDeposit`, return undefined for the other tokens
+ */
+export function getExistentialDeposit(
+  api: AnyApi,
+  currency: MaybeCurrency,
+  decimals: number
+): FixedPointNumber | undefined {
+  if (forceToCurrencyName(currency) !== api.registry.chainTokens[0]) return undefined;
+
+  const ed = api.consts.balances?.existentialDeposit;
+
+  return ed ? FixedPointNumber.fromInner(ed.toString(), decimals) : undefined;
+}
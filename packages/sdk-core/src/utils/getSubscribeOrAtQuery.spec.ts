@@ -0,0 +1,55 @@
+import { ApiPromise, ApiRx } from '@polkadot/api';
+import { firstValueFrom, of } from 'rxjs';
+import { NotStorageQuery } from '../errors';
+import { getPromiseOrAtQuery, getSubscribeOrAtQuery } from './getSubscribeOrAtQuery';
+
+describe('query at', () => {
+  const createQuery = (value: string) => {
+    return Object.assign(
+      jest.fn(() => of(value)),
+      { creator: { section: 'tokens', method: 'totalIssuance' } }
+    );
+  };
+
+  const api = {
+    type: 'rxjs',
+    rpc: { chain: { getBlockHash: jest.fn((at: number) => of({ toString: () => `0x${at}` })) } },
+    at: jest.fn((hash: string) =>
+      Promise.resolve({ query: { tokens: { totalIssuance: createQuery(`issuance${hash}`) } } })
+    )
+  } as unknown as ApiRx;
+  const query = createQuery('latest');
+
+  test('query the latest value without at', async () => {
+    expect(await firstValueFrom(getSubscribeOrAtQuery(api, query)())).toBe('latest');
+  });
+
+  test('query the value at block number or block hash', async () => {
+    expect(await firstValueFrom(getSubscribeOrAtQuery(api, query, 10)())).toBe('issuance0x10');
+    expect(await firstValueFrom(getSubscribeOrAtQuery(api, query, '0x20')())).toBe('issuance0x20');
+    expect(await firstValueFrom(getSubscribeOrAtQuery(api, query, 10)())).toBe('issuance0x10');
+    expect(api.at).toHaveBeenCalledTimes(2);
+  });
+
+  test('only storage query can be queried at block', async () => {
+    await expect(firstValueFrom(getSubscribeOrAtQuery(api, () => of('rpc'), 10)())).rejects.toThrow(NotStorageQuery);
+  });
+
+  test('query the genesis block', async () => {
+    expect(await firstValueFrom(getSubscribeOrAtQuery(api, query, 0)())).toBe('issuance0x0');
+    expect(api.rpc.chain.getBlockHash).toHaveBeenCalledWith(0);
+
+    const promiseQuery = Object.assign(
+      jest.fn(() => Promise.resolve('latest')),
+      { creator: { section: 'tokens', method: 'totalIssuance' } }
+    );
+    const promiseApi = {
+      type: 'promise',
+      rpc: { chain: { getBlockHash: jest.fn(() => Promise.resolve({ toString: () => '0x0' })) } },
+      at: jest.fn(() => Promise.resolve({ query: { tokens: { totalIssuance: () => Promise.resolve('genesis') } } }))
+    } as unknown as ApiPromise;
+
+    expect(await getPromiseOrAtQuery(promiseApi, promiseQuery, 0)()).toBe('genesis');
+    expect(promiseQuery).not.toHaveBeenCalled();
+  });
+});
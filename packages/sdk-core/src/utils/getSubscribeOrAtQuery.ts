@@ -1,26 +1,128 @@
+import { ApiPromise, ApiRx } from '@polkadot/api';
+import { ApiDecoration } from '@polkadot/api/types';
 import { BlockHash } from '@polkadot/types/interfaces';
-import { Observable } from '@polkadot/types/types';
+import { StorageEntry } from '@polkadot/types/primitive/types';
+import { firstValueFrom, from, Observable } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { MethodNotFound, NotStorageQuery } from '../errors';
 
+// the block number or the block hash
+export type QueryAt = number | string | BlockHash;
+
+// the max count of block hashes and decorated apis which are cached for each api
+export const MAX_CACHED_BLOCKS = 64;
+
+interface QueryAtCache {
+  hashes: Map<number, Promise<string>>;
+  decorations: Map<string, Promise<ApiDecoration<any>>>;
+}
+
+const caches = new WeakMap<ApiRx | ApiPromise, QueryAtCache>();
+
+function getCache(api: ApiRx | ApiPromise): QueryAtCache {
+  let cache = caches.get(api);
+
+  if (!cache) {
+    cache = { hashes: new Map<number, Promise<string>>(), decorations: new Map<string, Promise<ApiDecoration<any>>>() };
+    caches.set(api, cache);
+  }
+
+  return cache;
+}
+
+// cache the result and drop the earliest one when the cache is full, the failed result will not be cached
+function cachePromise<K, V>(cache: Map<K, Promise<V>>, key: K, create: () => Promise<V>): Promise<V> {
+  const cached = cache.get(key);
+
+  if (cached) return cached;
+
+  const result = create();
+
+  result.catch(() => cache.delete(key));
+
+  cache.set(key, result);
+
+  if (cache.size > MAX_CACHED_BLOCKS) cache.delete(cache.keys().next().value as K);
+
+  return result;
+}
+
+/**
+ * @name getBlockHashAt
+ * @description get the block hash of `at`, the block number is resolved by `chain.getBlockHash`
+ */
+export function getBlockHashAt(api: ApiRx | ApiPromise, at: QueryAt): Promise<string> {
+  if (typeof at !== 'number') return Promise.resolve(at.toString());
+
+  return cachePromise(getCache(api).hashes, at, async () => {
+    const hash =
+      api.type === 'promise'
+        ? await (api as ApiPromise).rpc.chain.getBlockHash(at)
+        : await firstValueFrom((api as ApiRx).rpc.chain.getBlockHash(at));
+
+    return hash.toString();
+  });
+}
+
+/**
+ * @name getApiAt
+ * @description get the api which is decorated with the metadata of block `at`, the decorated api is cached per block
+ */
+export function getApiAt<T extends ApiRx | ApiPromise>(
+  api: T,
+  at: QueryAt
+): Promise<ApiDecoration<T extends ApiRx ? 'rxjs' : 'promise'>> {
+  return getBlockHashAt(api, at).then((hash) => {
+    return cachePromise<string, ApiDecoration<any>>(getCache(api).decorations, hash, () => api.at(hash));
+  });
+}
+
+// find the same storage query in the decorated api
+function getDecoratedQuery<T>(decoration: ApiDecoration<any>, query: unknown): T {
+  const creator = (query as { creator?: StorageEntry }).creator;
+
+  if (!creator) throw new NotStorageQuery();
+
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+  const decorated = decoration.query[creator.section]?.[creator.method] as unknown as T;
+
+  if (!decorated) throw new MethodNotFound(creator.section, creator.method);
+
+  return decorated;
+}
+
+/**
+ * @name getSubscribeOrAtQuery
+ * @description return the storage `query` at block `at`, or the live subscription of `query` if `at` is not provided
+ */
 export const getSubscribeOrAtQuery = <T extends (...arg: any[]) => Observable<any> = any>(
+  api: ApiRx,
   query: T,
-  at?: string | BlockHash
+  at?: QueryAt
 ): T => {
   return ((...params: Parameters<T>) => {
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-    if (at) (query as unknown as any).at(at, ...params);
+    if (at === undefined) return query(...params);
 
-    return query(...params);
-  }) as any as T;
+    return from(getApiAt(api, at)).pipe(
+      switchMap((decoration) => getDecoratedQuery<T>(decoration, query)(...params) as ReturnType<T>)
+    );
+  }) as T;
 };
 
+/**
+ * @name getPromiseOrAtQuery
+ * @description return the storage `query` at block `at`, or the `query` of the latest block if `at` is not provided
+ */
 export const getPromiseOrAtQuery = <T extends (...arg: any[]) => Promise<any> = any>(
+  api: ApiPromise,
   query: T,
-  at?: string | BlockHash
+  at?: QueryAt
 ): T => {
-  return ((...params: Parameters<T>) => {
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-    if (at) (query as unknown as any).at(at, ...params);
+  return (async (...params: Parameters<T>) => {
+    if (at === undefined) return query(...params);
+
+    const decoration = await getApiAt(api, at);
 
-    return query(...params);
-  }) as any as T;
+    return getDecoratedQuery<T>(decoration, query)(...params) as ReturnType<T>;
+  }) as T;
 };
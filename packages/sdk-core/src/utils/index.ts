@@ -1 +1,3 @@
 export * from './getSubscribeOrAtQuery';
+export * from './existential-deposit';
+export * from './dex-liquidity-call';
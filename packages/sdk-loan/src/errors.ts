@@ -0,0 +1,49 @@
+/* the collateral ratio of the adjusted position is lower than the required collateral ratio */
+export class BelowRequiredCollateralRatio extends Error {
+  constructor() {
+    super();
+
+    this.name = 'BelowRequiredCollateralRatio';
+    this.message = 'Below Required Collateral Ratio';
+  }
+}
+
+/* the debit value of the adjusted position is not zero but lower than the minimum debit value */
+export class BelowMinimumDebitValue extends Error {
+  constructor() {
+    super();
+
+    this.name = 'BelowMinimumDebitValue';
+    this.message = 'Below Minimum Debit Value';
+  }
+}
+
+/* the total debit value of the collateral type will exceed the maximum total debit value */
+export class ExceedMaximumTotalDebitValue extends Error {
+  constructor() {
+    super();
+
+    this.name = 'ExceedMaximumTotalDebitValue';
+    this.message = 'Exceed Maximum Total Debit Value';
+  }
+}
+
+/* the collateral or the debit of the adjusted position is negative */
+export class InsufficientPosition extends Error {
+  constructor() {
+    super();
+
+    this.name = 'InsufficientPosition';
+    this.message = 'Insufficient Position';
+  }
+}
+
+/* the loan has no debit, use adjustLoan to withdraw the collateral */
+export class NoDebitToClose extends Error {
+  constructor() {
+    super();
+
+    this.name = 'NoDebitToClose';
+    this.message = 'No Debit To Close';
+  }
+}
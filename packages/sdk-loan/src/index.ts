@@ -1 +1,4 @@
-export * from './loan';
+export * from './loan-rx';
+export * from './loan-promise';
+export * from './errors';
+export * from './types';
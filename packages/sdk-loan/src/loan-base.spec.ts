@@ -0,0 +1,109 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { WalletRx } from '@setheum.js/sdk-wallet';
+import {
+  BelowMinimumDebitValue,
+  BelowRequiredCollateralRatio,
+  ExceedMaximumTotalDebitValue,
+  InsufficientPosition
+} from './errors';
+import { LoanBase } from './loan-base';
+import { LoanParams, RawLoanPosition } from './types';
+
+const tokens: Record<string, Token> = {
+  SETM: new Token('SETM', { decimals: 12 }),
+  SETUSD: new Token('SETUSD', { decimals: 6 })
+};
+
+class MockLoan extends LoanBase<ApiRx> {
+  constructor() {
+    const api = {
+      consts: { cdpEngine: { getSetUSDId: 'SETUSD' } },
+      createType: (_: string, data: unknown) => data
+    };
+    const wallet = { getToken: (currency: MaybeCurrency) => tokens[forceToCurrencyName(currency)] };
+
+    super(api as unknown as ApiRx, 'SETM', 'alice', wallet as unknown as WalletRx);
+  }
+
+  public adjust(...args: Parameters<LoanBase<ApiRx>['getAdjustLoanArgs']>) {
+    return this.getAdjustLoanArgs(...args);
+  }
+
+  public position(...args: Parameters<LoanBase<ApiRx>['getPositionWithChangedFromRaw']>) {
+    return this.getPositionWithChangedFromRaw(...args);
+  }
+}
+
+describe('loan base', () => {
+  const loan = new MockLoan();
+  const params: LoanParams = {
+    debitExchangeRate: new FixedPointNumber(0.1),
+    liquidationRatio: new FixedPointNumber(1.5),
+    requiredCollateralRatio: new FixedPointNumber(2),
+    maximumTotalDebitValue: new FixedPointNumber(1000),
+    minimumDebitValue: new FixedPointNumber(10)
+  };
+
+  // the collateral is in SETM and the debit is in SETUSD before multiplying the debit exchange rate
+  const toRaw = (collateral: number, debit: number) => {
+    return {
+      collateral: { toString: () => (collateral * 1e12).toString() },
+      debit: { toString: () => (debit * 1e6).toString() }
+    } as unknown as RawLoanPosition;
+  };
+
+  // 100 SETM and 50 SETUSD debit amount
+  const position = toRaw(100, 500);
+  const totalPosition = toRaw(1000, 5000);
+
+  const adjust = (collateral: number, debitAmount: number, price = 2, total = totalPosition) => {
+    return loan.adjust(
+      params,
+      position,
+      total,
+      new FixedPointNumber(price),
+      new FixedPointNumber(collateral),
+      new FixedPointNumber(debitAmount)
+    );
+  };
+
+  test('get the adjust loan args in the token decimals', () => {
+    // the debit change is the debit amount change divided by the debit exchange rate
+    expect(adjust(10, 20)).toEqual([{ Token: 'SETM' }, '10000000000000', '200000000']);
+    expect(adjust(-10, -20)).toEqual([{ Token: 'SETM' }, '-10000000000000', '-200000000']);
+  });
+
+  test('check the required collateral ratio only when the risk is increased', () => {
+    expect(() => adjust(0, 60)).toThrow(BelowRequiredCollateralRatio);
+    expect(() => adjust(-60, 0)).toThrow(BelowRequiredCollateralRatio);
+    // the collateral ratio is 1.25 after paying back, but the risk is decreased
+    expect(adjust(0, -10, 0.5)).toEqual([{ Token: 'SETM' }, '0', '-100000000']);
+  });
+
+  test('check the minimum debit value', () => {
+    expect(() => adjust(0, -45)).toThrow(BelowMinimumDebitValue);
+    // pay back all the debit
+    expect(adjust(0, -50)).toEqual([{ Token: 'SETM' }, '0', '-500000000']);
+  });
+
+  test('check the position is not negative', () => {
+    expect(() => adjust(-101, -50)).toThrow(InsufficientPosition);
+    expect(() => adjust(0, -51)).toThrow(InsufficientPosition);
+  });
+
+  test('check the maximum total debit value', () => {
+    expect(() => adjust(100, 20, 2, toRaw(1000, 9900))).toThrow(ExceedMaximumTotalDebitValue);
+    expect(adjust(100, 10, 2, toRaw(1000, 9900))[2]).toBe('100000000');
+  });
+
+  test('get the withdrawable collateral of the position', () => {
+    const zero = FixedPointNumber.ZERO;
+    const result = loan.position(params, position, new FixedPointNumber(2), zero, zero);
+    const undercollateralized = loan.position(params, position, new FixedPointNumber(0.5), zero, zero);
+
+    expect(result.requiredCollateral.toNumber()).toBe(50);
+    expect(result.canWithdraw.toNumber()).toBe(50);
+    expect(undercollateralized.canWithdraw.isZero()).toBe(true);
+  });
+});
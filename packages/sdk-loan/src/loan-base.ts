@@ -0,0 +1,266 @@
+import { ApiPromise, ApiRx } from '@polkadot/api';
+import { assert } from '@polkadot/util';
+import { CurrencyObject, FixedPointNumber, forceToCurrencyId, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { CurrencyId } from '@setheum.js/types/interfaces';
+import { DerivedLoanType } from '@setheum.js/api-derive';
+import { WalletPromise, WalletRx } from '@setheum.js/sdk-wallet';
+import { Codec } from '@polkadot/types/types';
+import {
+  BelowMinimumDebitValue,
+  BelowRequiredCollateralRatio,
+  ExceedMaximumTotalDebitValue,
+  InsufficientPosition,
+  NoDebitToClose
+} from './errors';
+import { LoanParams, LoanPosition, RawLoanPosition } from './types';
+
+export abstract class LoanBase<T extends ApiRx | ApiPromise> {
+  protected api: T;
+  protected readonly currency: CurrencyId;
+  protected collateralToken: Token;
+  protected stableCoinToken: Token;
+  protected readonly address: string;
+
+  protected constructor(api: T, currency: MaybeCurrency, address: string, wallet: WalletRx | WalletPromise) {
+    const collateralToken = wallet.getToken(currency);
+    const stableCoinToken = wallet.getToken(api.consts.cdpEngine.getSetUSDId);
+
+    assert(collateralToken && stableCoinToken, `init the loan sdk failed, can't find useable token in currency chain`);
+
+    this.api = api;
+    this.currency = forceToCurrencyId(api, currency);
+    this.address = address;
+    this.collateralToken = collateralToken;
+    this.stableCoinToken = stableCoinToken;
+  }
+
+  /**
+   * calculate the position information of the loan after applying the change
+   */
+  protected getPositionWithChangedFromRaw(
+    params: LoanParams,
+    position: RawLoanPosition,
+    price: FixedPointNumber,
+    debitAmountChange: FixedPointNumber,
+    collateralChange: FixedPointNumber
+  ): LoanPosition {
+    const { debit, collateral } = position;
+    const { debitExchangeRate, requiredCollateralRatio, liquidationRatio } = params;
+    // trade debit decimal with stable coin decimal
+    const _debit = FixedPointNumber.fromInner(debit.toString(), this.stableCoinToken.decimal);
+
+    // apply change to collateral and debit
+    const _collateral = FixedPointNumber.fromInner(collateral.toString(), this.collateralToken.decimal).plus(
+      collateralChange
+    );
+    const debitAmount = _debit.times(debitExchangeRate).plus(debitAmountChange);
+    const collateralAmount = _collateral.times(price);
+
+    const requiredCollateral = this.getRequiredCollateral(debitAmount, requiredCollateralRatio, price);
+
+    const canGenerate = this.getCanGenerate(
+      collateralAmount,
+      debitAmount,
+      requiredCollateralRatio,
+      FixedPointNumber.ONE,
+      FixedPointNumber.ZERO
+    );
+
+    const maxGenerate = this.getMaxGenerate(collateralAmount, requiredCollateralRatio);
+
+    return {
+      collateral: _collateral,
+      debit: _debit,
+      debitAmount: debitAmount,
+      collateralAmount: collateralAmount,
+      collateralRatio: collateralAmount.div(debitAmount),
+      requiredCollateral,
+      liquidationPrice: this.getLiquidationPrice(_collateral, debitAmount, liquidationRatio),
+      canGenerate,
+      canPayBack: debitAmount,
+      canWithdraw: _collateral.minus(requiredCollateral).max(FixedPointNumber.ZERO),
+      maxGenerate,
+      ...params
+    };
+  }
+
+  protected transformLoanParams(params: DerivedLoanType): LoanParams {
+    return {
+      debitExchangeRate: FixedPointNumber.fromInner(params.debitExchangeRate.toString()),
+      liquidationRatio: FixedPointNumber.fromInner(params.liquidationRatio.toString()),
+      requiredCollateralRatio: FixedPointNumber.fromInner(params.requiredCollateralRatio.toString()),
+      maximumTotalDebitValue: FixedPointNumber.fromInner(
+        params.maximumTotalDebitValue.toString(),
+        this.stableCoinToken.decimal
+      ),
+      minimumDebitValue: FixedPointNumber.fromInner(params.minimumDebitValue.toString(), this.stableCoinToken.decimal)
+    };
+  }
+
+  /**
+   * validate the adjustment and return the arguments of `setmint.adjustLoan`
+   */
+  protected getAdjustLoanArgs(
+    params: LoanParams,
+    position: RawLoanPosition,
+    totalPosition: RawLoanPosition,
+    price: FixedPointNumber,
+    collateralChange: FixedPointNumber,
+    debitAmountChange: FixedPointNumber
+  ): [CurrencyId, string, string] {
+    const collateral = this.toCollateral(position.collateral).plus(collateralChange);
+    const debitAmount = this.toDebitAmount(position.debit, params).plus(debitAmountChange);
+    const totalDebitAmount = this.toDebitAmount(totalPosition.debit, params).plus(debitAmountChange);
+    const isRiskIncreased =
+      debitAmountChange.isGreaterThan(FixedPointNumber.ZERO) || collateralChange.isLessThan(FixedPointNumber.ZERO);
+
+    this.validatePosition(params, collateral, debitAmount, price, isRiskIncreased);
+
+    if (
+      debitAmountChange.isGreaterThan(FixedPointNumber.ZERO) &&
+      totalDebitAmount.isGreaterThan(params.maximumTotalDebitValue)
+    ) {
+      throw new ExceedMaximumTotalDebitValue();
+    }
+
+    const debitChange = debitAmountChange.div(params.debitExchangeRate);
+
+    return [
+      this.currency,
+      this.toChainAmount(collateralChange, this.collateralToken.decimal),
+      this.toChainAmount(debitChange, this.stableCoinToken.decimal)
+    ];
+  }
+
+  /**
+   * validate the position and return the arguments of `setmint.closeLoanHasDebitByDex`
+   */
+  protected getCloseLoanHasDebitByDexArgs(
+    position: RawLoanPosition,
+    maxCollateralAmount: FixedPointNumber,
+    path?: Token[]
+  ): [CurrencyId, string, CurrencyObject[] | null] {
+    const collateral = this.toCollateral(position.collateral);
+
+    if (this.toDebit(position.debit).isZero()) throw new NoDebitToClose();
+
+    if (maxCollateralAmount.isGreaterThan(collateral)) throw new InsufficientPosition();
+
+    return [
+      this.currency,
+      this.toChainAmount(maxCollateralAmount, this.collateralToken.decimal),
+      path ? path.map((item) => item.toChainData()) : null
+    ];
+  }
+
+  /**
+   * validate the position which merged from the loan of `from` and the loan of current address
+   */
+  protected validateTransferLoan(
+    params: LoanParams,
+    position: RawLoanPosition,
+    fromPosition: RawLoanPosition,
+    price: FixedPointNumber
+  ): void {
+    const collateral = this.toCollateral(position.collateral).plus(this.toCollateral(fromPosition.collateral));
+    const debitAmount = this.toDebitAmount(position.debit, params).plus(this.toDebitAmount(fromPosition.debit, params));
+
+    this.validatePosition(params, collateral, debitAmount, price, true);
+  }
+
+  private validatePosition(
+    params: LoanParams,
+    collateral: FixedPointNumber,
+    debitAmount: FixedPointNumber,
+    price: FixedPointNumber,
+    checkRequiredCollateralRatio: boolean
+  ): void {
+    if (collateral.isLessThan(FixedPointNumber.ZERO) || debitAmount.isLessThan(FixedPointNumber.ZERO)) {
+      throw new InsufficientPosition();
+    }
+
+    if (debitAmount.isZero()) return;
+
+    if (debitAmount.isLessThan(params.minimumDebitValue)) throw new BelowMinimumDebitValue();
+
+    // the required collateral ratio is optional in collateral params, fallback to liquidation ratio
+    const requiredCollateralRatio =
+      params.requiredCollateralRatio.isFinaite() && !params.requiredCollateralRatio.isZero()
+        ? params.requiredCollateralRatio
+        : params.liquidationRatio;
+
+    if (checkRequiredCollateralRatio && collateral.times(price).div(debitAmount).isLessThan(requiredCollateralRatio)) {
+      throw new BelowRequiredCollateralRatio();
+    }
+  }
+
+  private toCollateral(collateral: Codec): FixedPointNumber {
+    return FixedPointNumber.fromInner(collateral.toString(), this.collateralToken.decimal);
+  }
+
+  private toDebit(debit: Codec): FixedPointNumber {
+    return FixedPointNumber.fromInner(debit.toString(), this.stableCoinToken.decimal);
+  }
+
+  private toDebitAmount(debit: Codec, params: LoanParams): FixedPointNumber {
+    return this.toDebit(debit).times(params.debitExchangeRate);
+  }
+
+  private toChainAmount(amount: FixedPointNumber, decimal: number): string {
+    const temp = amount.clone();
+
+    temp.setPrecision(decimal);
+
+    return temp.toChainData();
+  }
+
+  private getMaxGenerate(collateralAmount: FixedPointNumber, requiredCollateralRatio: FixedPointNumber) {
+    return collateralAmount.div(requiredCollateralRatio);
+  }
+
+  private getRequiredCollateral(
+    debitAmount: FixedPointNumber,
+    requiredCollateralRatio: FixedPointNumber,
+    price: FixedPointNumber
+  ): FixedPointNumber {
+    const result = debitAmount.times(requiredCollateralRatio).div(price);
+
+    if (result.isLessThan(FixedPointNumber.ZERO) || !result.isFinaite()) {
+      return FixedPointNumber.ZERO;
+    }
+
+    return result;
+  }
+
+  private getLiquidationPrice(
+    collateral: FixedPointNumber,
+    debitAmount: FixedPointNumber,
+    liquidationRatio: FixedPointNumber
+  ): FixedPointNumber {
+    const result = debitAmount.times(liquidationRatio).div(collateral);
+
+    if (result.isLessThan(FixedPointNumber.ZERO) || result.isEqualTo(FixedPointNumber.ZERO) || !result.isFinaite()) {
+      return new FixedPointNumber(NaN);
+    }
+
+    return result;
+  }
+
+  private getCanGenerate(
+    collateralAmount: FixedPointNumber,
+    currentDebitAmount: FixedPointNumber,
+    requiredCollateralRatio: FixedPointNumber,
+    stableCoinPrice: FixedPointNumber,
+    slippage = FixedPointNumber.ZERO
+  ): FixedPointNumber {
+    const result = collateralAmount
+      .div(requiredCollateralRatio)
+      .minus(currentDebitAmount)
+      .div(stableCoinPrice)
+      .minus(slippage);
+
+    if (result.isLessThan(FixedPointNumber.ZERO) || !result.isFinaite()) return FixedPointNumber.ZERO;
+
+    return result;
+  }
+}
@@ -0,0 +1,138 @@
+import { FixedPointNumber, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { DerivedLoanType } from '@setheum.js/api-derive';
+import { ApiPromise } from '@polkadot/api';
+import { WalletPromise } from '@setheum.js/sdk-wallet';
+import { ModuleLoansPosition } from '@polkadot/types/lookup';
+import { SubmittableExtrinsic } from '@polkadot/api/types';
+import { ISubmittableResult } from '@polkadot/types/types';
+import { LoanBase } from './loan-base';
+import { LoanParams, LoanPosition } from './types';
+
+export class LoanPromise extends LoanBase<ApiPromise> {
+  private wallet: WalletPromise;
+
+  constructor(api: ApiPromise, currency: MaybeCurrency, address: string, wallet: WalletPromise) {
+    super(api, currency, address, wallet);
+
+    this.wallet = wallet;
+  }
+
+  get position(): Promise<LoanPosition> {
+    return this.getPositionWithChanged(FixedPointNumber.ZERO, FixedPointNumber.ZERO);
+  }
+
+  get params(): Promise<LoanParams> {
+    return this.getLoanParams();
+  }
+
+  public updatePosition(
+    debitAmountChange: FixedPointNumber,
+    collateralChange: FixedPointNumber
+  ): Promise<LoanPosition> {
+    return this.getPositionWithChanged(debitAmountChange, collateralChange);
+  }
+
+  /**
+   * get the position information of the loan
+   */
+  private async getPositionWithChanged(
+    debitAmountChange: FixedPointNumber,
+    collateralChange: FixedPointNumber
+  ): Promise<LoanPosition> {
+    const [params, position, price] = await Promise.all([
+      this.getLoanParams(),
+      this.getLoanPosition(this.address),
+      this.wallet.queryPrice(this.currency)
+    ]);
+
+    return this.getPositionWithChangedFromRaw(params, position, price.price, debitAmountChange, collateralChange);
+  }
+
+  /**
+   * build the `setmint.adjustLoan` call which change the collateral by `collateralChange` and
+   * change the debit amount by `debitAmountChange`, throw error if the adjusted position is unsafe
+   */
+  public async adjustLoan(
+    collateralChange: FixedPointNumber,
+    debitAmountChange: FixedPointNumber
+  ): Promise<SubmittableExtrinsic<'promise', ISubmittableResult>> {
+    const [params, position, totalPosition, price] = await Promise.all([
+      this.getLoanParams(),
+      this.getLoanPosition(this.address),
+      this.getTotalLoanPosition(),
+      this.wallet.queryPrice(this.currency)
+    ]);
+
+    return this.api.tx.setmint.adjustLoan(
+      ...this.getAdjustLoanArgs(params, position, totalPosition, price.price, collateralChange, debitAmountChange)
+    );
+  }
+
+  /**
+   * build the `setmint.closeLoanHasDebitByDex` call which close the loan by selling at most
+   * `maxCollateralAmount` collateral through `path` on dex
+   */
+  public async closeLoanHasDebitByDex(
+    maxCollateralAmount: FixedPointNumber,
+    path?: Token[]
+  ): Promise<SubmittableExtrinsic<'promise', ISubmittableResult>> {
+    const position = await this.getLoanPosition(this.address);
+
+    return this.api.tx.setmint.closeLoanHasDebitByDex(
+      ...this.getCloseLoanHasDebitByDexArgs(position, maxCollateralAmount, path)
+    );
+  }
+
+  /**
+   * build the `setmint.transferLoanFrom` call which merge the loan of `from` into the loan of current address,
+   * throw error if the merged position is unsafe
+   */
+  public async transferLoanFrom(from: string): Promise<SubmittableExtrinsic<'promise', ISubmittableResult>> {
+    const [params, position, fromPosition, price] = await Promise.all([
+      this.getLoanParams(),
+      this.getLoanPosition(this.address),
+      this.getLoanPosition(from),
+      this.wallet.queryPrice(this.currency)
+    ]);
+
+    this.validateTransferLoan(params, position, fromPosition, price.price);
+
+    return this.api.tx.setmint.transferLoanFrom(this.currency, from);
+  }
+
+  /**
+   * build the `setmint.authorize` call which allow `to` to manipulate the loan of current address
+   */
+  public authorize(to: string): SubmittableExtrinsic<'promise', ISubmittableResult> {
+    return this.api.tx.setmint.authorize(this.currency, to);
+  }
+
+  /**
+   * build the `setmint.unauthorize` call
+   */
+  public unauthorize(to: string): SubmittableExtrinsic<'promise', ISubmittableResult> {
+    return this.api.tx.setmint.unauthorize(this.currency, to);
+  }
+
+  /**
+   * build the `setmint.unauthorizeAll` call which cancel all authorizations of current address
+   */
+  public unauthorizeAll(): SubmittableExtrinsic<'promise', ISubmittableResult> {
+    return this.api.tx.setmint.unauthorizeAll();
+  }
+
+  private getLoanPosition(address: string) {
+    return this.api.query.loans.positions(this.currency, address) as Promise<ModuleLoansPosition>;
+  }
+
+  private getTotalLoanPosition() {
+    return this.api.query.loans.totalPositions(this.currency) as Promise<ModuleLoansPosition>;
+  }
+
+  private async getLoanParams(): Promise<LoanParams> {
+    /* eslint-disable-next-line @typescript-eslint/no-unsafe-member-access */
+    const params = await ((this.api.derive as any).loan.loanType(this.currency) as Promise<DerivedLoanType>);
+
+    return this.transformLoanParams(params);
+  }
+}
@@ -0,0 +1,131 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { WalletRx } from '@setheum.js/sdk-wallet';
+import { firstValueFrom, of } from 'rxjs';
+import { BelowRequiredCollateralRatio, NoDebitToClose } from './errors';
+import { LoanRx } from './loan-rx';
+
+describe('loan rx', () => {
+  const tokens: Record<string, Token> = {
+    SETM: new Token('SETM', { decimals: 12 }),
+    SETUSD: new Token('SETUSD', { decimals: 6 })
+  };
+  const toPosition = (collateral: number, debit: number) => ({
+    collateral: { toString: () => (collateral * 1e12).toString() },
+    debit: { toString: () => (debit * 1e6).toString() }
+  });
+  // the debit amount is a tenth of the debit
+  const positions: Record<string, ReturnType<typeof toPosition>> = {
+    alice: toPosition(100, 500),
+    bob: toPosition(50, 100),
+    charlie: toPosition(1, 900),
+    dave: toPosition(10, 0)
+  };
+
+  const createLoan = (address = 'alice') => {
+    const call =
+      (method: string) =>
+      (...params: unknown[]) => ({ method, params });
+    const api = {
+      consts: { cdpEngine: { getSetUSDId: 'SETUSD' } },
+      createType: (_: string, data: unknown) => data,
+      derive: {
+        loan: {
+          loanType: () =>
+            of({
+              debitExchangeRate: '100000000000000000',
+              liquidationRatio: '1500000000000000000',
+              requiredCollateralRatio: '2000000000000000000',
+              maximumTotalDebitValue: (1000 * 1e6).toString(),
+              minimumDebitValue: (10 * 1e6).toString()
+            })
+        }
+      },
+      query: {
+        loans: {
+          positions: (_: unknown, owner: string) => of(positions[owner]),
+          totalPositions: () => of(toPosition(1000, 5000))
+        }
+      },
+      tx: {
+        setmint: {
+          adjustLoan: call('adjustLoan'),
+          closeLoanHasDebitByDex: call('closeLoanHasDebitByDex'),
+          transferLoanFrom: call('transferLoanFrom'),
+          authorize: call('authorize'),
+          unauthorize: call('unauthorize'),
+          unauthorizeAll: call('unauthorizeAll')
+        }
+      }
+    };
+    const wallet = {
+      getToken: (currency: MaybeCurrency) => tokens[forceToCurrencyName(currency)],
+      queryPrice: () => of({ price: new FixedPointNumber(2) })
+    };
+
+    return new LoanRx(api as unknown as ApiRx, 'SETM', address, wallet as unknown as WalletRx);
+  };
+
+  test('get the position and the params', async () => {
+    const loan = createLoan();
+    const position = await firstValueFrom(loan.position);
+    const params = await firstValueFrom(loan.params);
+
+    expect(params.requiredCollateralRatio.toNumber()).toBe(2);
+    expect(params.minimumDebitValue.toNumber()).toBe(10);
+    expect(position.collateral.toNumber()).toBe(100);
+    expect(position.debitAmount.toNumber()).toBe(50);
+    expect(position.collateralRatio.toNumber()).toBe(4);
+    expect(position.canWithdraw.toNumber()).toBe(50);
+    expect(position.canGenerate.toNumber()).toBe(50);
+  });
+
+  test('update the position with the changes', async () => {
+    const position = await firstValueFrom(
+      createLoan().updatePosition(new FixedPointNumber(50), new FixedPointNumber(-20))
+    );
+
+    expect(position.collateral.toNumber()).toBe(80);
+    expect(position.debitAmount.toNumber()).toBe(100);
+    expect(position.canWithdraw.isZero()).toBe(true);
+  });
+
+  test('build the adjust loan call', async () => {
+    const loan = createLoan();
+
+    expect(await firstValueFrom(loan.adjustLoan(new FixedPointNumber(10), new FixedPointNumber(20)))).toEqual({
+      method: 'adjustLoan',
+      params: [{ Token: 'SETM' }, '10000000000000', '200000000']
+    });
+    await expect(firstValueFrom(loan.adjustLoan(FixedPointNumber.ZERO, new FixedPointNumber(60)))).rejects.toThrow(
+      BelowRequiredCollateralRatio
+    );
+  });
+
+  test('build the close loan and transfer loan calls', async () => {
+    const loan = createLoan();
+    const path = [tokens.SETM, tokens.SETUSD];
+
+    expect(await firstValueFrom(loan.closeLoanHasDebitByDex(new FixedPointNumber(30), path))).toEqual({
+      method: 'closeLoanHasDebitByDex',
+      params: [{ Token: 'SETM' }, '30000000000000', [{ Token: 'SETM' }, { Token: 'SETUSD' }]]
+    });
+    await expect(firstValueFrom(createLoan('dave').closeLoanHasDebitByDex(FixedPointNumber.ONE))).rejects.toThrow(
+      NoDebitToClose
+    );
+    expect(await firstValueFrom(loan.transferLoanFrom('bob'))).toEqual({
+      method: 'transferLoanFrom',
+      params: [{ Token: 'SETM' }, 'bob']
+    });
+    // the merged position is 101 SETM with 140 debit amount
+    await expect(firstValueFrom(loan.transferLoanFrom('charlie'))).rejects.toThrow(BelowRequiredCollateralRatio);
+  });
+
+  test('build the authorization calls', () => {
+    const loan = createLoan();
+
+    expect(loan.authorize('bob')).toEqual({ method: 'authorize', params: [{ Token: 'SETM' }, 'bob'] });
+    expect(loan.unauthorize('bob')).toEqual({ method: 'unauthorize', params: [{ Token: 'SETM' }, 'bob'] });
+    expect(loan.unauthorizeAll()).toEqual({ method: 'unauthorizeAll', params: [] });
+  });
+});
@@ -0,0 +1,153 @@
+import { Observable, combineLatest } from 'rxjs';
+import { map, take } from 'rxjs/operators';
+import { FixedPointNumber, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { Position } from '@setheum.js/types/interfaces';
+import { DerivedLoanType } from '@setheum.js/api-derive';
+import { ApiRx } from '@polkadot/api';
+import { WalletRx } from '@setheum.js/sdk-wallet';
+import { memoize } from 'lodash';
+import { ModuleLoansPosition } from '@polkadot/types/lookup';
+import { SubmittableExtrinsic } from '@polkadot/api/types';
+import { ISubmittableResult } from '@polkadot/types/types';
+import { LoanBase } from './loan-base';
+import { LoanParams, LoanPosition } from './types';
+
+export class LoanRx extends LoanBase<ApiRx> {
+  private wallet: WalletRx;
+  private loanPosition$: Observable<Position>;
+  private readonly loanParams$: Observable<LoanParams>;
+
+  constructor(api: ApiRx, currency: MaybeCurrency, address: string, wallet: WalletRx) {
+    super(api, currency, address, wallet);
+
+    this.wallet = wallet;
+
+    this.loanPosition$ = this.getLoanPosition();
+    this.loanParams$ = this.getLoanParams();
+  }
+
+  get position(): Observable<LoanPosition> {
+    return this.getPositionWithChanged(FixedPointNumber.ZERO, FixedPointNumber.ZERO);
+  }
+
+  get params(): Observable<LoanParams> {
+    return this.loanParams$;
+  }
+
+  public updatePosition(
+    debitAmountChange: FixedPointNumber,
+    collateralChange: FixedPointNumber
+  ): Observable<LoanPosition> {
+    return this.getPositionWithChanged(debitAmountChange, collateralChange);
+  }
+
+  /**
+   * get the position information of the loan
+   */
+  private getPositionWithChanged = memoize(
+    (debitAmountChange: FixedPointNumber, collateralChange: FixedPointNumber): Observable<LoanPosition> => {
+      return combineLatest([this.loanParams$, this.loanPosition$, this.wallet.queryPrice(this.currency)]).pipe(
+        map(([params, position, price]) => {
+          return this.getPositionWithChangedFromRaw(params, position, price.price, debitAmountChange, collateralChange);
+        })
+      );
+    }
+  );
+
+  /**
+   * build the `setmint.adjustLoan` call which change the collateral by `collateralChange` and
+   * change the debit amount by `debitAmountChange`, throw error if the adjusted position is unsafe
+   */
+  public adjustLoan(
+    collateralChange: FixedPointNumber,
+    debitAmountChange: FixedPointNumber
+  ): Observable<SubmittableExtrinsic<'rxjs', ISubmittableResult>> {
+    return combineLatest([
+      this.loanParams$,
+      this.loanPosition$,
+      this.getTotalLoanPosition(),
+      this.wallet.queryPrice(this.currency)
+    ]).pipe(
+      take(1),
+      map(([params, position, totalPosition, price]) => {
+        return this.api.tx.setmint.adjustLoan(
+          ...this.getAdjustLoanArgs(params, position, totalPosition, price.price, collateralChange, debitAmountChange)
+        );
+      })
+    );
+  }
+
+  /**
+   * build the `setmint.closeLoanHasDebitByDex` call which close the loan by selling at most
+   * `maxCollateralAmount` collateral through `path` on dex
+   */
+  public closeLoanHasDebitByDex(
+    maxCollateralAmount: FixedPointNumber,
+    path?: Token[]
+  ): Observable<SubmittableExtrinsic<'rxjs', ISubmittableResult>> {
+    return this.loanPosition$.pipe(
+      take(1),
+      map((position) => {
+        return this.api.tx.setmint.closeLoanHasDebitByDex(
+          ...this.getCloseLoanHasDebitByDexArgs(position, maxCollateralAmount, path)
+        );
+      })
+    );
+  }
+
+  /**
+   * build the `setmint.transferLoanFrom` call which merge the loan of `from` into the loan of current address,
+   * throw error if the merged position is unsafe
+   */
+  public transferLoanFrom(from: string): Observable<SubmittableExtrinsic<'rxjs', ISubmittableResult>> {
+    return combineLatest([
+      this.loanParams$,
+      this.loanPosition$,
+      this.api.query.loans.positions(this.currency, from) as Observable<ModuleLoansPosition>,
+      this.wallet.queryPrice(this.currency)
+    ]).pipe(
+      take(1),
+      map(([params, position, fromPosition, price]) => {
+        this.validateTransferLoan(params, position, fromPosition, price.price);
+
+        return this.api.tx.setmint.transferLoanFrom(this.currency, from);
+      })
+    );
+  }
+
+  /**
+   * build the `setmint.authorize` call which allow `to` to manipulate the loan of current address
+   */
+  public authorize(to: string): SubmittableExtrinsic<'rxjs', ISubmittableResult> {
+    return this.api.tx.setmint.authorize(this.currency, to);
+  }
+
+  /**
+   * build the `setmint.unauthorize` call
+   */
+  public unauthorize(to: string): SubmittableExtrinsic<'rxjs', ISubmittableResult> {
+    return this.api.tx.setmint.unauthorize(this.currency, to);
+  }
+
+  /**
+   * build the `setmint.unauthorizeAll` call which cancel all authorizations of current address
+   */
+  public unauthorizeAll(): SubmittableExtrinsic<'rxjs', ISubmittableResult> {
+    return this.api.tx.setmint.unauthorizeAll();
+  }
+
+  private getLoanPosition() {
+    return this.api.query.loans.positions(this.currency, this.address) as Observable<ModuleLoansPosition>;
+  }
+
+  private getTotalLoanPosition() {
+    return this.api.query.loans.totalPositions(this.currency) as Observable<ModuleLoansPosition>;
+  }
+
+  private getLoanParams() {
+    /* eslint-disable-next-line @typescript-eslint/no-unsafe-member-access */
+    return ((this.api.derive as any).loan.loanType(this.currency) as Observable<DerivedLoanType>).pipe(
+      map((params: DerivedLoanType): LoanParams => this.transformLoanParams(params))
+    );
+  }
+}
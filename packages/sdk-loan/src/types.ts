@@ -0,0 +1,31 @@
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+import { Codec } from '@polkadot/types/types';
+
+export interface LoanParams {
+  debitExchangeRate: FixedPointNumber;
+  liquidationRatio: FixedPointNumber;
+  requiredCollateralRatio: FixedPointNumber;
+  maximumTotalDebitValue: FixedPointNumber;
+  minimumDebitValue: FixedPointNumber;
+}
+
+export interface LoanPosition extends LoanParams {
+  collateral: FixedPointNumber;
+  debit: FixedPointNumber;
+  debitAmount: FixedPointNumber;
+  collateralAmount: FixedPointNumber;
+  collateralRatio: FixedPointNumber;
+  requiredCollateral: FixedPointNumber;
+  liquidationPrice: FixedPointNumber;
+  liquidationRatio: FixedPointNumber;
+  canGenerate: FixedPointNumber;
+  canPayBack: FixedPointNumber;
+  canWithdraw: FixedPointNumber;
+  maxGenerate: FixedPointNumber;
+}
+
+// the raw position which is stored in loans module
+export interface RawLoanPosition {
+  collateral: Codec;
+  debit: Codec;
+}
@@ -37,3 +37,13 @@ export class NoTradingPathError extends Error {
     this.message = 'No Trading Path';
   }
 }
+
+/* the token of zap is not one of the liquidity pool tokens */
+export class TokenNotInPoolError extends Error {
+  constructor() {
+    super();
+
+    this.name = 'TokenNotInPool';
+    this.message = 'Token Not In Pool';
+  }
+}
@@ -4,3 +4,7 @@ export * from './swap-promise';
 export * from './errors';
 export * from './types';
 export * from './liquidity-pool';
+export * from './split-swap-parameters';
+export * from './swap-simulator';
+export * from './zap-helper';
+export * from './zap-parameters';
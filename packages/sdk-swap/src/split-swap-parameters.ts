@@ -0,0 +1,70 @@
+import { AnyApi, CurrencyObject, FixedPointNumber, TokenBalance } from '@setheum.js/sdk-core';
+
+import { SwapParameters } from './swap-parameters';
+import { SwapBounds, SwapExtrinsic, SwapExtrinsicOptions, SwapTradeMode } from './types';
+
+export class SplitSwapParameters {
+  public mode: SwapTradeMode;
+  public routes: SwapParameters[];
+  public input: TokenBalance;
+  public output: TokenBalance;
+  public midPrice: FixedPointNumber;
+  public priceImpact: FixedPointNumber;
+  public exchangeFee: FixedPointNumber;
+
+  constructor(
+    mode: SwapTradeMode,
+    routes: SwapParameters[],
+    midPrice: FixedPointNumber,
+    priceImpact: FixedPointNumber
+  ) {
+    this.mode = mode;
+    this.routes = routes;
+    this.midPrice = midPrice;
+    this.priceImpact = priceImpact;
+    this.input = this.sumBalances(routes.map((item) => item.input));
+    this.output = this.sumBalances(routes.map((item) => item.output));
+    this.exchangeFee = routes.slice(1).reduce((acc, cur) => acc.plus(cur.exchangeFee), routes[0].exchangeFee);
+  }
+
+  private sumBalances(balances: TokenBalance[]): TokenBalance {
+    const total = balances.slice(1).reduce((acc, cur) => acc.plus(cur.balance), balances[0].balance);
+
+    return new TokenBalance(balances[0].token, total);
+  }
+
+  public toChainData(): [CurrencyObject[], string, string][] {
+    return this.routes.map((item) => item.toChainData());
+  }
+
+  /**
+   * @name getBounds
+   * @description get the total minimum target and the total maximum supply of all routes under the `slippage` tolerance
+   */
+  public getBounds(slippage: FixedPointNumber): SwapBounds {
+    const bounds = this.routes.map((item) => item.getBounds(slippage));
+
+    return {
+      minimumTarget: this.sumBalances(bounds.map((item) => item.minimumTarget)),
+      maximumSupply: this.sumBalances(bounds.map((item) => item.maximumSupply))
+    };
+  }
+
+  /**
+   * @name toExtrinsic
+   * @description create the slippage protected swap call of every route and batch them by `utility.batchAll`
+   */
+  public toExtrinsic<T extends AnyApi>(
+    api: T,
+    options: SwapExtrinsicOptions = { slippage: FixedPointNumber.ZERO }
+  ): SwapExtrinsic<T> {
+    const routes = this.routes.map((item) => item.toExtrinsic(api, options));
+    const extrinsic = api.tx.utility.batchAll(routes.map((item) => item.extrinsic));
+
+    return {
+      extrinsic: extrinsic as SwapExtrinsic<T>['extrinsic'],
+      bounds: this.getBounds(options.slippage),
+      signerOptions: options.deadlineBlocks ? { era: options.deadlineBlocks } : {}
+    };
+  }
+}
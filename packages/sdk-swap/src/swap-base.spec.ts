@@ -0,0 +1,200 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber, Token, TokenPair } from '@setheum.js/sdk-core';
+import { Observable, of } from 'rxjs';
+import { SwapBase } from './swap-base';
+import { LiquidityPool, SwapTradeMode } from './types';
+
+class MockSwap extends SwapBase<ApiRx> {
+  constructor() {
+    super({
+      consts: {
+        dex: {
+          getExchangeFee: [{ toString: () => '3' }, { toString: () => '1000' }],
+          tradingPathLimit: { toString: () => '3' }
+        }
+      }
+    } as unknown as ApiRx);
+  }
+
+  protected getTradingPairs(): Observable<TokenPair[]> {
+    return of([]);
+  }
+
+  public best(
+    mode: SwapTradeMode,
+    paths: Token[][],
+    pools: LiquidityPool[],
+    params: [Token, Token, FixedPointNumber, FixedPointNumber]
+  ) {
+    return this.getBestSwapResult(mode, paths, pools, params);
+  }
+
+  public split(
+    mode: SwapTradeMode,
+    paths: Token[][],
+    pools: LiquidityPool[],
+    params: [Token, Token, FixedPointNumber, FixedPointNumber]
+  ) {
+    return this.getSplitSwapResult(mode, paths, pools, params);
+  }
+}
+
+describe('swap base', () => {
+  const setm = new Token('SETM', { decimals: 12 });
+  const setusd = new Token('SETUSD', { decimals: 12 });
+  const dnar = new Token('DNAR', { decimals: 12 });
+  const swap = new MockSwap();
+
+  const createPool = (token1: Token, token2: Token, balance1: number, balance2: number): LiquidityPool => {
+    const [_token1] = new TokenPair(token1, token2).getPair();
+    const isSorted = _token1.isEqual(token1);
+
+    return {
+      token1: isSorted ? token1 : token2,
+      token2: isSorted ? token2 : token1,
+      balance1: new FixedPointNumber(isSorted ? balance1 : balance2),
+      balance2: new FixedPointNumber(isSorted ? balance2 : balance1)
+    };
+  };
+
+  const pools = [
+    createPool(setm, setusd, 1000, 1000),
+    createPool(setm, dnar, 10000, 10000),
+    createPool(dnar, setusd, 10000, 10000)
+  ];
+  const paths = [
+    [setm, setusd],
+    [setm, dnar, setusd]
+  ];
+
+  test('split exact input swap across paths', () => {
+    const input = new FixedPointNumber(500);
+    const best = swap.best('EXACT_INPUT', paths, pools, [setm, setusd, input, FixedPointNumber.ZERO]);
+    const split = swap.split('EXACT_INPUT', paths, pools, [setm, setusd, input, FixedPointNumber.ZERO]);
+
+    expect(split.routes.length).toBe(2);
+    expect(split.input.balance.isEqualTo(best.input.balance)).toBe(true);
+    expect(split.output.balance.isGreaterThan(best.output.balance)).toBe(true);
+    expect(split.priceImpact.isLessThan(best.priceImpact)).toBe(true);
+  });
+
+  test('split exact output swap across paths', () => {
+    const output = new FixedPointNumber(400);
+    const best = swap.best('EXACT_OUTPUT', paths, pools, [setm, setusd, FixedPointNumber.ZERO, output]);
+    const split = swap.split('EXACT_OUTPUT', paths, pools, [setm, setusd, FixedPointNumber.ZERO, output]);
+
+    expect(split.routes.length).toBe(2);
+    expect(split.output.balance.isEqualTo(best.output.balance)).toBe(true);
+    expect(split.input.balance.isLessThan(best.input.balance)).toBe(true);
+  });
+
+  test('small swap should use single route', () => {
+    const input = new FixedPointNumber(0.001);
+    const split = swap.split('EXACT_INPUT', paths, pools, [setm, setusd, input, FixedPointNumber.ZERO]);
+
+    expect(split.routes.length).toBe(1);
+    expect(split.routes[0].path).toEqual([setm, setusd]);
+    expect(split.toChainData().length).toBe(1);
+  });
+
+  test('get slippage bounds of swap result', () => {
+    const slippage = new FixedPointNumber(0.01);
+    const exactInput = swap.best('EXACT_INPUT', paths, pools, [
+      setm,
+      setusd,
+      new FixedPointNumber(1),
+      FixedPointNumber.ZERO
+    ]);
+    const exactOutput = swap.best('EXACT_OUTPUT', paths, pools, [
+      setm,
+      setusd,
+      FixedPointNumber.ZERO,
+      new FixedPointNumber(1)
+    ]);
+    const inputBounds = exactInput.getBounds(slippage);
+    const outputBounds = exactOutput.getBounds(slippage);
+
+    expect(inputBounds.maximumSupply.balance.isEqualTo(exactInput.input.balance)).toBe(true);
+    expect(
+      inputBounds.minimumTarget.balance.isEqualTo(exactInput.output.balance.times(new FixedPointNumber(0.99)))
+    ).toBe(true);
+    expect(outputBounds.minimumTarget.balance.isEqualTo(exactOutput.output.balance)).toBe(true);
+    expect(
+      outputBounds.maximumSupply.balance.isEqualTo(exactOutput.input.balance.times(new FixedPointNumber(1.01)))
+    ).toBe(true);
+  });
+
+  const createApi = () => {
+    return {
+      createType: (_: string, data: unknown) => data,
+      tx: {
+        dex: {
+          swapWithExactSupply: jest.fn((...params: unknown[]) => ({ method: 'swapWithExactSupply', params })),
+          swapWithExactTarget: jest.fn((...params: unknown[]) => ({ method: 'swapWithExactTarget', params }))
+        },
+        utility: { batchAll: jest.fn((calls: unknown[]) => ({ method: 'batchAll', calls })) }
+      }
+    };
+  };
+
+  test('create the exact supply swap call with the minimum target', () => {
+    const api = createApi();
+    const slippage = new FixedPointNumber(0.01);
+    const parameters = swap.best('EXACT_INPUT', paths, pools, [
+      setm,
+      setusd,
+      new FixedPointNumber(1),
+      FixedPointNumber.ZERO
+    ]);
+    const result = parameters.toExtrinsic(api as unknown as ApiRx, { slippage, deadlineBlocks: 64 });
+
+    expect(api.tx.dex.swapWithExactSupply).toHaveBeenCalledWith(
+      parameters.path.map((item) => item.toChainData()),
+      parameters.input.balance.toChainData(),
+      parameters.output.balance.times(new FixedPointNumber(0.99)).toChainData()
+    );
+    expect(api.tx.dex.swapWithExactTarget).not.toHaveBeenCalled();
+    expect(result.extrinsic).toBe(api.tx.dex.swapWithExactSupply.mock.results[0].value);
+    expect(result.signerOptions).toEqual({ era: 64 });
+  });
+
+  test('create the exact target swap call with the maximum supply', () => {
+    const api = createApi();
+    const slippage = new FixedPointNumber(0.01);
+    const parameters = swap.best('EXACT_OUTPUT', paths, pools, [
+      setm,
+      setusd,
+      FixedPointNumber.ZERO,
+      new FixedPointNumber(1)
+    ]);
+    const result = parameters.toExtrinsic(api as unknown as ApiRx, { slippage });
+
+    expect(api.tx.dex.swapWithExactTarget).toHaveBeenCalledWith(
+      parameters.path.map((item) => item.toChainData()),
+      parameters.output.balance.toChainData(),
+      parameters.input.balance.times(new FixedPointNumber(1.01)).toChainData()
+    );
+    expect(api.tx.dex.swapWithExactSupply).not.toHaveBeenCalled();
+    expect(result.signerOptions).toEqual({});
+  });
+
+  test('batch the swap calls of every route', () => {
+    const api = createApi();
+    const split = swap.split('EXACT_INPUT', paths, pools, [
+      setm,
+      setusd,
+      new FixedPointNumber(500),
+      FixedPointNumber.ZERO
+    ]);
+    const result = split.toExtrinsic(api as unknown as ApiRx, { slippage: FixedPointNumber.ZERO, deadlineBlocks: 32 });
+
+    expect(api.tx.dex.swapWithExactSupply.mock.calls.map((item) => item[0])).toEqual(
+      split.routes.map((item) => item.path.map((token) => token.toChainData()))
+    );
+    expect(api.tx.utility.batchAll).toHaveBeenCalledWith(
+      api.tx.dex.swapWithExactSupply.mock.results.map((item) => item.value)
+    );
+    expect(result.extrinsic).toBe(api.tx.utility.batchAll.mock.results[0].value);
+    expect(result.signerOptions).toEqual({ era: 32 });
+  });
+});
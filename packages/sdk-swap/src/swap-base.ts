@@ -4,13 +4,20 @@ import { map } from 'rxjs/operators';
 import { Token, TokenBalance, TokenPair, FixedPointNumber } from '@setheum.js/sdk-core';
 
 import { getSupplyAmount, getTargetAmount } from './utils';
-import { LiquidityPool, SwapResult, Fee, SwapTradeMode, MiddleResult } from './types';
+import { LiquidityPool, SwapResult, Fee, SwapTradeMode, MiddleResult, SwapConstants } from './types';
 import { TradeGraph } from './trade-graph';
 import { SwapParameters } from './swap-parameters';
+import { SplitSwapParameters } from './split-swap-parameters';
 import { NoLiquidityPoolError, InsufficientLiquidityError, AmountTooSmall, NoTradingPathError } from './errors';
 
 const MINIMUM_AMOUNT = 1;
 
+// the default count of parts which the swap amount is split into when searching split routes
+export const DEFAULT_SPLIT_PARTS = 10;
+
+// the default count of the deepest pathes which are calculated when searching the best swap result
+export const DEFAULT_MAX_TRADING_PATHES = 5;
+
 const ONE = FixedPointNumber.ONE;
 
 function calculateExchangeFeeRate(path: Token[], fee: FixedPointNumber) {
@@ -21,37 +28,40 @@ function calculateExchangeFeeRate(path: Token[], fee: FixedPointNumber) {
   );
 }
 
-export abstract class SwapBase<T extends ApiPromise | ApiRx> {
+// the api is null when the swap is calculated offline, e.g. SwapSimulator
+export abstract class SwapBase<T extends ApiPromise | ApiRx | null> {
   protected api: T;
 
   // subscribe the enable trading pairs
   protected enableTradingPairs$: BehaviorSubject<TokenPair[]>;
 
+  // the trade graph of the latest enable trading pairs, rebuilt when `enableTradingPairs$` emits a new pair set
+  private tradeGraph?: [TokenPair[], TradeGraph];
+
   // the constants of dex module
-  readonly constants: {
-    tradingPathLimit: number;
-    fee: Fee;
-  };
+  readonly constants: SwapConstants;
 
-  constructor(api: T) {
+  constructor(api: T, constants?: SwapConstants) {
     this.api = api;
 
-    this.constants = this.queryConstants();
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    this.constants = constants || this.queryConstants(api!);
 
     this.enableTradingPairs$ = new BehaviorSubject<TokenPair[]>([]);
   }
 
   protected abstract getTradingPairs(): Observable<TokenPair[]>;
 
-  public get config(): { tradingPathLimit: number; fee: Fee } {
+  public get config(): SwapConstants {
     return this.constants;
   }
 
-  private queryConstants() {
-    const exchangeFee = this.api.consts.dex.getExchangeFee;
+  private queryConstants(api: ApiPromise | ApiRx): SwapConstants {
+    const exchangeFee = api.consts.dex.getExchangeFee;
 
     return {
-      tradingPathLimit: parseInt(this.api?.consts?.dex?.tradingPathLimit?.toString() || '3'),
+      tradingPathLimit: parseInt(api?.consts?.dex?.tradingPathLimit?.toString() || '3'),
+      maxTradingPathes: DEFAULT_MAX_TRADING_PATHES,
       fee: {
         denominator: new FixedPointNumber(exchangeFee[1].toString()),
         numerator: new FixedPointNumber(exchangeFee[0].toString())
@@ -93,19 +103,53 @@ export abstract class SwapBase<T extends ApiPromise | ApiRx> {
     return invalidated.length === 0;
   }
 
-  protected getTradingPathes(input: Token, output: Token): Observable<Token[][]> {
-    return this.enableTradingPairs$.pipe(
-      map((pairs) => {
-        const tradeGraph = new TradeGraph(pairs);
-        let paths = tradeGraph.getPathes(input, output, this.constants.tradingPathLimit);
+  protected getTradeGraph(pairs: TokenPair[]): TradeGraph {
+    if (!this.tradeGraph || this.tradeGraph[0] !== pairs) {
+      this.tradeGraph = [pairs, new TradeGraph(pairs)];
+    }
 
-        paths = paths.filter((path) => this.isPathUseable(path, pairs));
+    return this.tradeGraph[1];
+  }
 
-        if (paths.length === 0) throw new NoTradingPathError();
+  // the depth of the pool is the geometric mean of its balances, zero if the pool is not loaded
+  private getPoolDepth(pair: TokenPair, pools: LiquidityPool[]): FixedPointNumber {
+    const pool = pools.find((item) => new TokenPair(item.token1, item.token2).isEqual(pair));
 
-        return paths;
-      })
-    );
+    return pool ? pool.balance1.times(pool.balance2).sqrt() : FixedPointNumber.ZERO;
+  }
+
+  /**
+   * get the trading pathes from `input` to `output`, when the liquidity `pools` are passed,
+   * only the `maxTradingPathes` pathes which have the deepest liquidity are returned.
+   */
+  protected getTradingPathesFromPairs(
+    input: Token,
+    output: Token,
+    pairs: TokenPair[],
+    pools?: LiquidityPool[]
+  ): Token[][] {
+    const tradeGraph = this.getTradeGraph(pairs);
+    const { tradingPathLimit, maxTradingPathes } = this.constants;
+    let paths =
+      pools && maxTradingPathes
+        ? tradeGraph.getTopPathes(
+            input,
+            output,
+            maxTradingPathes,
+            (pair) => this.getPoolDepth(pair, pools),
+            tradingPathLimit
+          )
+        : tradeGraph.getPathes(input, output, tradingPathLimit);
+
+    paths = paths.filter((path) => this.isPathUseable(path, pairs));
+
+    if (paths.length === 0) throw new NoTradingPathError();
+
+    return paths;
+  }
+
+  protected getTradingPathes(input: Token, output: Token): Observable<Token[][]> {
+    return this.enableTradingPairs$.pipe(map((pairs) => this.getTradingPathesFromPairs(input, output, pairs)));
   }
 
   protected sortLiquidityPoolWithTokenOrder(pool: LiquidityPool, token1: Token): [FixedPointNumber, FixedPointNumber] {
@@ -339,4 +383,172 @@ export abstract class SwapBase<T extends ApiPromise | ApiRx> {
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     return new SwapParameters(mode, result!);
   }
+
+  private findLiquidityPool(token1: Token, token2: Token, pools: LiquidityPool[]): LiquidityPool {
+    const [_token1, _token2] = new TokenPair(token1, token2).getPair();
+    const pool = pools.find((item) => item.token1.isEqual(_token1) && item.token2.isEqual(_token2));
+
+    if (!pool) throw new NoLiquidityPoolError();
+
+    return pool;
+  }
+
+  /**
+   * get the amounts of every token in the `path`, the `amount` is the input amount when mode is EXACT_INPUT,
+   * otherwise it's the output amount.
+   */
+  protected getPathAmounts(
+    mode: SwapTradeMode,
+    path: Token[],
+    amount: FixedPointNumber,
+    pools: LiquidityPool[]
+  ): FixedPointNumber[] {
+    const amounts = new Array<FixedPointNumber>(path.length);
+
+    if (mode === 'EXACT_INPUT') {
+      amounts[0] = amount;
+
+      for (let i = 0; i < path.length - 1; i++) {
+        const pool = this.findLiquidityPool(path[i], path[i + 1], pools);
+        const [supply, target] = this.sortLiquidityPoolWithTokenOrder(pool, path[i]);
+
+        amounts[i + 1] = getTargetAmount(supply, target, amounts[i], this.constants.fee);
+
+        if (amounts[i + 1].isZero()) throw new InsufficientLiquidityError();
+      }
+    } else {
+      amounts[path.length - 1] = amount;
+
+      for (let i = path.length - 1; i > 0; i--) {
+        const pool = this.findLiquidityPool(path[i - 1], path[i], pools);
+        const [supply, target] = this.sortLiquidityPoolWithTokenOrder(pool, path[i - 1]);
+
+        amounts[i - 1] = getSupplyAmount(supply, target, amounts[i], this.constants.fee);
+
+        if (amounts[i - 1].isZero()) throw new InsufficientLiquidityError();
+      }
+    }
+
+    return amounts;
+  }
+
+  // return a new liquidity pools snapshot which the swap through `path` is applied to
+  protected applyPathAmounts(path: Token[], amounts: FixedPointNumber[], pools: LiquidityPool[]): LiquidityPool[] {
+    let result = pools;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const pool = this.findLiquidityPool(path[i], path[i + 1], result);
+      const isToken1Supply = pool.token1.isEqual(path[i]);
+      const updated: LiquidityPool = {
+        ...pool,
+        balance1: isToken1Supply ? pool.balance1.plus(amounts[i]) : pool.balance1.minus(amounts[i + 1]),
+        balance2: isToken1Supply ? pool.balance2.minus(amounts[i + 1]) : pool.balance2.plus(amounts[i])
+      };
+
+      result = result.map((item) => (item === pool ? updated : item));
+    }
+
+    return result;
+  }
+
+  /**
+   * split the swap amount into `parts` and greedily route every part through the path which has the best marginal
+   * result after the previous parts are applied to the liquidity pools, so shared pools are taken into account.
+   */
+  protected getSplitSwapResult(
+    mode: SwapTradeMode,
+    paths: Token[][],
+    liquidityPools: LiquidityPool[],
+    baseParams: [Token, Token, FixedPointNumber, FixedPointNumber],
+    parts = DEFAULT_SPLIT_PARTS
+  ): SplitSwapParameters {
+    const [inputToken, outputToken, inputAmount, outputAmount] = baseParams;
+    const amount = mode === 'EXACT_INPUT' ? inputAmount : outputAmount;
+    const inner = amount._getInner();
+    const routeAmounts = paths.map(() => FixedPointNumber.ZERO);
+    const isBetter = (a: FixedPointNumber[], b: FixedPointNumber[]) => {
+      return mode === 'EXACT_INPUT' ? a[a.length - 1].isGreaterThan(b[b.length - 1]) : a[0].isLessThan(b[0]);
+    };
+
+    let snapshot = liquidityPools;
+
+    for (let i = 0; i < parts; i++) {
+      const part = FixedPointNumber._fromBN(inner.times(i + 1).idiv(parts)).minus(
+        FixedPointNumber._fromBN(inner.times(i).idiv(parts))
+      );
+
+      if (part.isZero()) continue;
+
+      let best: { index: number; amounts: FixedPointNumber[] } | undefined;
+
+      paths.forEach((path, index) => {
+        try {
+          const amounts = this.getPathAmounts(mode, path, part, snapshot);
+
+          if (!best || isBetter(amounts, best.amounts)) best = { index, amounts };
+        } catch (e) {
+          // ignore the path which can't afford this part
+        }
+      });
+
+      if (!best) throw new InsufficientLiquidityError();
+
+      routeAmounts[best.index] = routeAmounts[best.index].plus(part);
+      snapshot = this.applyPathAmounts(paths[best.index], best.amounts, snapshot);
+    }
+
+    // calculate the result of every route in execution order, the later routes will see the pools changed by the former
+    const routes: SwapParameters[] = [];
+    let totalInput = FixedPointNumber.ZERO;
+    let totalOutput = FixedPointNumber.ZERO;
+
+    snapshot = liquidityPools;
+
+    paths.forEach((path, index) => {
+      const routeAmount = routeAmounts[index];
+
+      if (routeAmount.isZero()) return;
+
+      const result =
+        mode === 'EXACT_INPUT'
+          ? this.getOutputAmountWithExactInput(
+              inputToken,
+              outputToken,
+              routeAmount,
+              FixedPointNumber.ZERO,
+              path,
+              snapshot
+            )
+          : this.getInputAmountWithExactOutput(
+              inputToken,
+              outputToken,
+              FixedPointNumber.ZERO,
+              routeAmount,
+              path,
+              snapshot
+            );
+      const amounts = this.getPathAmounts(mode, path, routeAmount, snapshot);
+
+      routes.push(new SwapParameters(mode, result));
+      totalInput = totalInput.plus(amounts[0]);
+      totalOutput = totalOutput.plus(amounts[amounts.length - 1]);
+      snapshot = this.applyPathAmounts(path, amounts, snapshot);
+    });
+
+    if (routes.length === 0) throw new AmountTooSmall();
+
+    const midPrice = routes
+      .slice(1)
+      .reduce(
+        (acc, cur) => acc.max(this.calculateMidPrice(cur.path, liquidityPools)),
+        this.calculateMidPrice(routes[0].path, liquidityPools)
+      );
+
+    return new SplitSwapParameters(
+      mode,
+      routes,
+      midPrice,
+      this.calculatePriceImpact(midPrice, totalInput, totalOutput)
+    );
+  }
 }
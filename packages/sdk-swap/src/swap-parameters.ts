@@ -1,6 +1,6 @@
-import { Token, FixedPointNumber, TokenBalance } from '@setheum.js/sdk-core';
+import { Token, FixedPointNumber, TokenBalance, CurrencyObject, AnyApi, forceToCurrencyId } from '@setheum.js/sdk-core';
 
-import { SwapResult, SwapTradeMode } from './types';
+import { SwapBounds, SwapExtrinsic, SwapExtrinsicOptions, SwapResult, SwapTradeMode } from './types';
 
 export class SwapParameters implements SwapResult {
   public mode: SwapTradeMode;
@@ -25,22 +25,67 @@ export class SwapParameters implements SwapResult {
     this.exchangeRate = config.exchangeRate;
   }
 
-  public toChainData(): [{ Token: string }[], string, string] {
+  public toChainData(): [CurrencyObject[], string, string] {
     switch (this.mode) {
       case 'EXACT_INPUT': {
         return [
-          this.path.map((item) => item.toChainData()) as { Token: string }[],
+          this.path.map((item) => item.toChainData()),
           this.input.balance.toChainData(),
           this.output.balance.toChainData()
         ];
       }
       case 'EXACT_OUTPUT': {
         return [
-          this.path.map((item) => item.toChainData()) as { Token: string }[],
+          this.path.map((item) => item.toChainData()),
           this.output.balance.toChainData(),
           this.input.balance.toChainData()
         ];
       }
     }
   }
+
+  /**
+   * @name getBounds
+   * @description get the minimum target and the maximum supply under the `slippage` tolerance
+   */
+  public getBounds(slippage: FixedPointNumber): SwapBounds {
+    const minimumTarget =
+      this.mode === 'EXACT_INPUT'
+        ? this.output.balance.times(FixedPointNumber.ONE.minus(slippage))
+        : this.output.balance;
+    const maximumSupply =
+      this.mode === 'EXACT_OUTPUT' ? this.input.balance.times(FixedPointNumber.ONE.plus(slippage)) : this.input.balance;
+
+    return {
+      minimumTarget: new TokenBalance(this.output.token, minimumTarget),
+      maximumSupply: new TokenBalance(this.input.token, maximumSupply)
+    };
+  }
+
+  /**
+   * @name toExtrinsic
+   * @description create the swap call which is protected by the bounds derived from the slippage tolerance
+   */
+  public toExtrinsic<T extends AnyApi>(api: T, options: SwapExtrinsicOptions): SwapExtrinsic<T> {
+    const bounds = this.getBounds(options.slippage);
+    const path = this.path.map((item) => forceToCurrencyId(api, item));
+    const extrinsic =
+      this.mode === 'EXACT_INPUT'
+        ? api.tx.dex.swapWithExactSupply(
+            path,
+            this.input.balance.toChainData(),
+            bounds.minimumTarget.balance.toChainData()
+          )
+        : api.tx.dex.swapWithExactTarget(
+            path,
+            this.output.balance.toChainData(),
+            bounds.maximumSupply.balance.toChainData()
+          );
+
+    return {
+      extrinsic: extrinsic as SwapExtrinsic<T>['extrinsic'],
+      bounds,
+      signerOptions: options.deadlineBlocks ? { era: options.deadlineBlocks } : {}
+    };
+  }
 }
@@ -1,7 +1,7 @@
 import { ApiPromise } from '@polkadot/api';
 import { memoize } from '@polkadot/util';
-import { Observable, from, of } from 'rxjs';
-import { switchMap, map, shareReplay, withLatestFrom, filter, take } from 'rxjs/operators';
+import { Observable, firstValueFrom, from } from 'rxjs';
+import { switchMap, map, shareReplay, filter, take } from 'rxjs/operators';
 import { Balance } from '@setheum.js/types/interfaces';
 import { eventMethodsFilter, Token, TokenPair, TokenSet } from '@setheum.js/sdk-core';
 import { FixedPointNumber } from '@setheum.js/sdk-core/fixed-point-number';
@@ -9,7 +9,8 @@ import { ITuple } from '@polkadot/types/types';
 
 import { SwapParameters } from './swap-parameters';
 import { LiquidityPool, SwapTradeMode } from './types';
-import { SwapBase } from './swap-base';
+import { DEFAULT_SPLIT_PARTS, SwapBase } from './swap-base';
+import { SplitSwapParameters } from './split-swap-parameters';
 import { Vec } from '@polkadot/types-codec';
 import { EventRecord } from '@polkadot/types/interfaces';
 
@@ -111,9 +112,15 @@ export class SwapPromise extends SwapBase<ApiPromise> {
   private swapper = memoize((inputToken: Token, outputToken: Token) => {
     return this.enableTradingPairs$.pipe(
       filter((i) => i.length !== 0),
-      switchMap(() => {
-        return this.getTradingPathes(inputToken, outputToken).pipe(
-          switchMap((paths) => this.getLiquidityPoolsByPath(paths).pipe(withLatestFrom(of(paths)))),
+      switchMap((pairs) => {
+        const paths = this.getTradingPathesFromPairs(inputToken, outputToken, pairs);
+
+        // only the deepest pathes are calculated after the liquidity pools are loaded
+        return this.getLiquidityPoolsByPath(paths).pipe(
+          map((pools): [LiquidityPool[], Token[][]] => [
+            pools,
+            this.getTradingPathesFromPairs(inputToken, outputToken, pairs, pools)
+          ]),
           shareReplay(1)
         );
       })
@@ -153,4 +160,41 @@ export class SwapPromise extends SwapBase<ApiPromise> {
 
     return result;
   }
+
+  /**
+   * @name splitSwap
+   * @description split the swap into several routes to reduce the total price impact of large trades
+   */
+  public async splitSwap(
+    path: [Token, Token],
+    input: FixedPointNumber,
+    mode: SwapTradeMode,
+    parts = DEFAULT_SPLIT_PARTS
+  ): Promise<SplitSwapParameters> {
+    const inputToken = path[0];
+    const outputToken = path[1];
+
+    // clear input amount's precision information
+    const _input = FixedPointNumber._fromBN(input._getInner());
+
+    const inputAmount = mode === 'EXACT_INPUT' ? _input : FixedPointNumber.ZERO;
+    const outputAmount = mode === 'EXACT_OUTPUT' ? _input : FixedPointNumber.ZERO;
+
+    const swapper = this.swapper(inputToken, outputToken);
+
+    return firstValueFrom(
+      swapper.pipe(
+        filter(([liquidityPool]) => liquidityPool.length !== 0),
+        map(([liquidityPool, paths]) => {
+          return this.getSplitSwapResult(
+            mode,
+            paths,
+            liquidityPool,
+            [inputToken, outputToken, inputAmount, outputAmount],
+            parts
+          );
+        })
+      )
+    );
+  }
 }
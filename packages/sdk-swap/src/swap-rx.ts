@@ -1,17 +1,16 @@
 import { ApiRx } from '@polkadot/api';
 import { memoize } from '@polkadot/util';
-import { Observable, from, of } from 'rxjs';
-import { filter, switchMap, startWith, map, shareReplay, withLatestFrom } from 'rxjs/operators';
+import { Observable } from 'rxjs';
+import { switchMap, map, shareReplay } from 'rxjs/operators';
 import { Balance, CurrencyId, TradingPairStatus } from '@setheum.js/types/interfaces';
-import { eventMethodsFilter, mockEventRecord, Token, TokenPair, TokenSet } from '@setheum.js/sdk-core';
+import { EventBus, Token, TokenPair, TokenSet } from '@setheum.js/sdk-core';
 import { FixedPointNumber } from '@setheum.js/sdk-core/fixed-point-number';
 import { ITuple } from '@polkadot/types/types';
 
 import { SwapParameters } from './swap-parameters';
 import { LiquidityPool, SwapTradeMode } from './types';
-import { SwapBase } from './swap-base';
-import { Vec } from '@polkadot/types-codec';
-import { EventRecord } from '@polkadot/types/interfaces';
+import { DEFAULT_SPLIT_PARTS, SwapBase } from './swap-base';
+import { SplitSwapParameters } from './split-swap-parameters';
 
 export class SwapRx extends SwapBase<ApiRx> {
   constructor(api: ApiRx) {
@@ -42,22 +41,21 @@ export class SwapRx extends SwapBase<ApiRx> {
   }
 
   protected getTradingPairs(): Observable<TokenPair[]> {
-    return this.api.query.system.events<Vec<EventRecord>>().pipe(
-      startWith(mockEventRecord('', 'EnableTradingPair')),
-      switchMap((events) => from(events)),
-      filter(eventMethodsFilter(['EnableTradingPair', 'ProvisioningToEnabled', 'DisableTradingPair'])),
-      switchMap(() => this.api.query.dex.tradingPairStatuses.entries()),
-      map((result) => {
-        const _filterFn = (status: TradingPairStatus) => status.isEnabled;
-
-        return result
-          .filter((item) => _filterFn(item[1]))
-          .map((item) =>
-            TokenPair.fromCurrencies(item[0].args[0][0] as any as CurrencyId, item[0].args[0][1] as any as CurrencyId)
-          );
-      }),
-      shareReplay(1)
-    );
+    return EventBus.get(this.api)
+      .subscribe(['dex.EnableTradingPair', 'dex.ProvisioningToEnabled', 'dex.DisableTradingPair'], { initial: true })
+      .pipe(
+        switchMap(() => this.api.query.dex.tradingPairStatuses.entries()),
+        map((result) => {
+          const _filterFn = (status: TradingPairStatus) => status.isEnabled;
+
+          return result
+            .filter((item) => _filterFn(item[1]))
+            .map((item) =>
+              TokenPair.fromCurrencies(item[0].args[0][0] as any as CurrencyId, item[0].args[0][1] as any as CurrencyId)
+            );
+        }),
+        shareReplay(1)
+      );
   }
 
   private getLiquidityPoolsByPath(paths: Token[][]): Observable<LiquidityPool[]> {
@@ -96,8 +94,18 @@ export class SwapRx extends SwapBase<ApiRx> {
   }
 
   private _swapper = memoize((inputToken: Token, outputToken: Token) => {
-    return this.getTradingPathes(inputToken, outputToken).pipe(
-      switchMap((paths) => this.getLiquidityPoolsByPath(paths).pipe(withLatestFrom(of(paths))))
+    return this.enableTradingPairs$.pipe(
+      switchMap((pairs) => {
+        const paths = this.getTradingPathesFromPairs(inputToken, outputToken, pairs);
+
+        // only the deepest pathes are calculated after the liquidity pools are loaded
+        return this.getLiquidityPoolsByPath(paths).pipe(
+          map((pools): [LiquidityPool[], Token[][]] => [
+            pools,
+            this.getTradingPathesFromPairs(inputToken, outputToken, pairs, pools)
+          ])
+        );
+      })
     );
   });
 
@@ -119,4 +127,38 @@ export class SwapRx extends SwapBase<ApiRx> {
       })
     );
   }
+
+  /**
+   * @name splitSwap
+   * @description split the swap into several routes to reduce the total price impact of large trades
+   */
+  public splitSwap(
+    path: [Token, Token],
+    input: FixedPointNumber,
+    mode: SwapTradeMode,
+    parts = DEFAULT_SPLIT_PARTS
+  ): Observable<SplitSwapParameters> {
+    const inputToken = path[0];
+    const outputToken = path[1];
+
+    // clear input amount's precision information
+    const _input = FixedPointNumber._fromBN(input._getInner());
+
+    const inputAmount = mode === 'EXACT_INPUT' ? _input : FixedPointNumber.ZERO;
+    const outputAmount = mode === 'EXACT_OUTPUT' ? _input : FixedPointNumber.ZERO;
+
+    const swapper = this._swapper(inputToken, outputToken);
+
+    return swapper.pipe(
+      map(([liquidityPool, paths]) => {
+        return this.getSplitSwapResult(
+          mode,
+          paths,
+          liquidityPool,
+          [inputToken, outputToken, inputAmount, outputAmount],
+          parts
+        );
+      })
+    );
+  }
 }
@@ -0,0 +1,68 @@
+import { FixedPointNumber, Token, TokenPair } from '@setheum.js/sdk-core';
+import { SwapSimulator } from './swap-simulator';
+import { LiquidityPool } from './types';
+
+describe('swap simulator', () => {
+  const setm = new Token('SETM', { decimals: 18 });
+  const setusd = new Token('SETUSD', { decimals: 18 });
+  const dnar = new Token('DNAR', { decimals: 18 });
+  const fee = { numerator: new FixedPointNumber(3), denominator: new FixedPointNumber(1000) };
+
+  const createPool = (token1: Token, token2: Token, balance1: number, balance2: number): LiquidityPool => {
+    const [_token1] = new TokenPair(token1, token2).getPair();
+    const isSorted = _token1.isEqual(token1);
+
+    return {
+      token1: isSorted ? token1 : token2,
+      token2: isSorted ? token2 : token1,
+      balance1: new FixedPointNumber(isSorted ? balance1 : balance2),
+      balance2: new FixedPointNumber(isSorted ? balance2 : balance1)
+    };
+  };
+
+  const createSimulator = () => {
+    return new SwapSimulator(
+      [createPool(setm, setusd, 1000, 1000), createPool(setm, dnar, 1000, 1000), createPool(dnar, setusd, 0, 0)],
+      fee
+    );
+  };
+
+  test('swap with exact input and exact output', () => {
+    const simulator = createSimulator();
+    const exactInput = simulator.swap([setm, setusd], new FixedPointNumber(10), 'EXACT_INPUT');
+    const exactOutput = simulator.swap([setm, setusd], new FixedPointNumber(10), 'EXACT_OUTPUT');
+
+    expect(exactInput.path).toEqual([setm, setusd]);
+    expect(exactInput.output.balance.toNumber()).toBeCloseTo(9.8716, 4);
+    expect(exactOutput.input.balance.toNumber()).toBeCloseTo(10.1314, 4);
+  });
+
+  test('apply swaps to the snapshot', () => {
+    const simulator = createSimulator();
+    const first = simulator.swap([setm, setusd], new FixedPointNumber(10), 'EXACT_INPUT');
+
+    simulator.applySwap(first);
+
+    const pool = simulator.snapshot.find((item) =>
+      new TokenPair(item.token1, item.token2).isEqual(new TokenPair(setm, setusd))
+    );
+    const second = simulator.swap([setm, setusd], new FixedPointNumber(10), 'EXACT_INPUT');
+
+    expect(pool?.balance1.plus(pool.balance2).toNumber()).toBeCloseTo(2000.128, 3);
+    expect(second.output.balance.isLessThan(first.output.balance)).toBe(true);
+  });
+
+  test('only calculate the deepest pathes', () => {
+    const pools = [
+      createPool(setm, setusd, 10, 10),
+      createPool(setm, dnar, 1000, 1000),
+      createPool(dnar, setusd, 1000, 1000)
+    ];
+    const all = new SwapSimulator(pools, fee);
+    const top = new SwapSimulator(pools, fee, 3, 1);
+
+    // the shallow direct pool is better for a small swap, but it isn't calculated when only the deepest path is used
+    expect(all.swap([setm, setusd], new FixedPointNumber(0.01), 'EXACT_INPUT').path).toEqual([setm, setusd]);
+    expect(top.swap([setm, setusd], new FixedPointNumber(0.01), 'EXACT_INPUT').path).toEqual([setm, dnar, setusd]);
+  });
+});
@@ -0,0 +1,80 @@
+import { Observable } from 'rxjs';
+import { Token, TokenPair, FixedPointNumber } from '@setheum.js/sdk-core';
+
+import { SwapParameters } from './swap-parameters';
+import { Fee, LiquidityPool, SwapTradeMode } from './types';
+import { DEFAULT_MAX_TRADING_PATHES, SwapBase } from './swap-base';
+
+/**
+ * calculate swaps against a snapshot of liquidity pools without connecting to a node,
+ * the balances of liquidity pools should be created by `FixedPointNumber.fromInner` with the chain data.
+ */
+export class SwapSimulator extends SwapBase<null> {
+  private liquidityPools: LiquidityPool[];
+
+  constructor(
+    liquidityPools: LiquidityPool[],
+    fee: Fee,
+    tradingPathLimit = 3,
+    maxTradingPathes = DEFAULT_MAX_TRADING_PATHES
+  ) {
+    super(null, { fee, tradingPathLimit, maxTradingPathes });
+
+    this.liquidityPools = liquidityPools;
+
+    this.enableTradingPairs$.next(
+      liquidityPools
+        .filter((item) => !item.balance1.isZero() && !item.balance2.isZero())
+        .map((item) => new TokenPair(item.token1, item.token2))
+    );
+  }
+
+  get snapshot(): LiquidityPool[] {
+    return this.liquidityPools;
+  }
+
+  protected getTradingPairs(): Observable<TokenPair[]> {
+    return this.enableTradingPairs$;
+  }
+
+  public swap(path: [Token, Token], input: FixedPointNumber, mode: SwapTradeMode): SwapParameters {
+    const inputToken = path[0];
+    const outputToken = path[1];
+
+    // clear input amount's precision information
+    const _input = FixedPointNumber._fromBN(input._getInner());
+
+    const inputAmount = mode === 'EXACT_INPUT' ? _input : FixedPointNumber.ZERO;
+    const outputAmount = mode === 'EXACT_OUTPUT' ? _input : FixedPointNumber.ZERO;
+
+    const paths = this.getTradingPathesFromPairs(
+      inputToken,
+      outputToken,
+      this.enableTradingPairs$.value,
+      this.liquidityPools
+    );
+
+    return this.getBestSwapResult(mode, paths, this.liquidityPools, [
+      inputToken,
+      outputToken,
+      inputAmount,
+      outputAmount
+    ]);
+  }
+
+  /**
+   * @name applySwap
+   * @description apply the swap to the snapshot, so the following swaps are calculated with the changed pools
+   */
+  public applySwap(parameters: SwapParameters): LiquidityPool[] {
+    // clear balance's precision information
+    const amount = FixedPointNumber._fromBN(
+      (parameters.mode === 'EXACT_INPUT' ? parameters.input : parameters.output).balance._getInner()
+    );
+    const amounts = this.getPathAmounts(parameters.mode, parameters.path, amount, this.liquidityPools);
+
+    this.liquidityPools = this.applyPathAmounts(parameters.path, amounts, this.liquidityPools);
+
+    return this.liquidityPools;
+  }
+}
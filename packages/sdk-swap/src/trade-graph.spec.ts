@@ -1,4 +1,4 @@
-import { Token, TokenPair } from '@setheum.js/sdk-core';
+import { FixedPointNumber, Token, TokenPair } from '@setheum.js/sdk-core';
 import { TradeGraph } from './trade-graph';
 
 describe('trade graph', () => {
@@ -37,4 +37,75 @@ describe('trade graph', () => {
     expect(setm2setusd[0]).toEqual([setm, setusd]);
     expect(setm2setusd[1]).toEqual([setm, dnar, setusd]);
   });
+
+  test('get path with length limit should be work', () => {
+    const tradeGraph = new TradeGraph([
+      new TokenPair(setm, setusd),
+      new TokenPair(setm, dnar),
+      new TokenPair(dnar, setr),
+      new TokenPair(setr, setusd)
+    ]);
+
+    expect(tradeGraph.getPathes(setm, setusd)).toEqual([
+      [setm, setusd],
+      [setm, dnar, setr, setusd]
+    ]);
+    expect(tradeGraph.getPathes(setm, setusd, 3)).toEqual([[setm, setusd]]);
+    expect(tradeGraph.getPathes(setm, serp, 3)).toEqual([]);
+  });
+
+  test('get path should be cached', () => {
+    const tradeGraph = new TradeGraph([new TokenPair(setm, setusd), new TokenPair(setm, dnar)]);
+
+    expect(tradeGraph.getPathes(setm, setusd, 3)).toBe(tradeGraph.getPathes(setm, setusd, 3));
+    expect(tradeGraph.getPathes(setm, setusd, 3)).not.toBe(tradeGraph.getPathes(setm, setusd, 2));
+  });
+
+  test('get top pathes by pool depth should be work', () => {
+    const tradeGraph = new TradeGraph([
+      new TokenPair(setm, setusd),
+      new TokenPair(setm, dnar),
+      new TokenPair(dnar, setusd),
+      new TokenPair(setm, setr),
+      new TokenPair(setr, setusd)
+    ]);
+    const depths: [TokenPair, number][] = [
+      [new TokenPair(setm, setusd), 10],
+      [new TokenPair(setm, dnar), 1000],
+      [new TokenPair(dnar, setusd), 100],
+      [new TokenPair(setm, setr), 1],
+      [new TokenPair(setr, setusd), 1000]
+    ];
+    const getPoolDepth = (pair: TokenPair) => {
+      return new FixedPointNumber(depths.find((item) => item[0].isEqual(pair))?.[1] || 0);
+    };
+
+    expect(tradeGraph.getTopPathes(setm, setusd, 2, getPoolDepth, 3)).toEqual([
+      [setm, dnar, setusd],
+      [setm, setusd]
+    ]);
+  });
+
+  test('get path in a graph of a few hundred pairs should be work', () => {
+    // connect each of the 60 tokens with the next 5 tokens
+    const tokens = new Array(60)
+      .fill(undefined)
+      .map((_, i) => Token.fromERC20Address(`0x${i.toString(16).padStart(40, '0')}`));
+    const pairs = tokens.flatMap((token, i) =>
+      [1, 2, 3, 4, 5].map((j) => new TokenPair(token, tokens[(i + j) % tokens.length]))
+    );
+    const tradeGraph = new TradeGraph(pairs);
+
+    for (let i = 1; i < tokens.length; i++) {
+      tradeGraph.getPathes(tokens[0], tokens[i], 4).forEach((path) => {
+        expect(path.length).toBeLessThanOrEqual(4);
+        expect(path[0]).toBe(tokens[0]);
+        expect(path[path.length - 1].isEqual(tokens[i])).toBe(true);
+      });
+    }
+
+    // the tokens in 3 hops are reachable
+    expect(tradeGraph.getPathes(tokens[0], tokens[15], 4).length).toBeGreaterThan(0);
+    expect(tradeGraph.getPathes(tokens[0], tokens[16], 4)).toEqual([]);
+  });
 });
@@ -1,60 +1,99 @@
-import { Token, TokenPair } from '@setheum.js/sdk-core';
-import { set } from 'lodash';
+import { FixedPointNumber, Token, TokenPair } from '@setheum.js/sdk-core';
 
 export class TradeGraph {
   private adj: Record<string, Token[]>;
+  // the searched pathes, keyed by `start`, `end` and `lengthLimit`
+  private pathesCache: Map<string, Token[][]>;
 
   constructor(data: TokenPair[]) {
     this.adj = {};
+    this.pathesCache = new Map<string, Token[][]>();
 
     for (const item of data) {
       const [token1, token2] = item.getPair();
 
-      set(this.adj, token1.name, [...(this.adj[token1.name] || []), token2]);
-      set(this.adj, token2.name, [...(this.adj[token2.name] || []), token1]);
+      this.addEdge(token1, token2);
+      this.addEdge(token2, token1);
     }
   }
 
+  private addEdge(from: Token, to: Token): void {
+    if (!this.adj[from.name]) this.adj[from.name] = [];
+
+    this.adj[from.name].push(to);
+  }
+
   public getAdj(token: Token): Token[] | undefined {
     return this.adj[token.toString()];
   }
 
+  /**
+   * get all simple pathes from `start` to `end` which contain at most `lengthLimit` tokens,
+   * the result is cached, so don't modify the returned pathes.
+   */
   public getPathes(start: Token, end: Token, lengthLimit?: number): Token[][] {
-    const result: Token[][] = [];
-    const path: Token[] = [start];
-    const searchList: Token[][] = [(this.adj[start.name] || []).slice()];
+    const key = `${start.name}|${end.name}|${lengthLimit || ''}`;
+    const cached = this.pathesCache.get(key);
 
-    while (path.length > 0) {
-      const searchListHead = searchList.pop() || [];
+    if (cached) return cached;
 
-      if (searchListHead.length > 0) {
-        /* eslint-disable-next-line @typescript-eslint/no-non-null-assertion */
-        const firstNode = searchListHead.shift()!;
+    const result = this.searchPathes(start, end, lengthLimit || Number.POSITIVE_INFINITY);
 
-        path.push(firstNode);
-        searchList.push(searchListHead);
+    this.pathesCache.set(key, result);
 
-        let nextSearchPathItem = (this.adj[firstNode.name] || []).slice();
+    return result;
+  }
 
-        if (nextSearchPathItem.length > 0) {
-          nextSearchPathItem = nextSearchPathItem.filter((m) => {
-            return !path.find((n) => n.isEqual(m));
-          });
+  /**
+   * get at most `k` pathes from `start` to `end` which have the deepest liquidity,
+   * the depth of a path is the depth of the shallowest pool in the path.
+   */
+  public getTopPathes(
+    start: Token,
+    end: Token,
+    k: number,
+    getPoolDepth: (pair: TokenPair) => FixedPointNumber,
+    lengthLimit?: number
+  ): Token[][] {
+    return this.getPathes(start, end, lengthLimit)
+      .map((path): [Token[], FixedPointNumber] => {
+        const depths = path.slice(1).map((item, i) => getPoolDepth(new TokenPair(path[i], item)));
 
-          searchList.push(nextSearchPathItem);
-        }
-      } else {
-        path.pop();
-      }
+        return [path, depths.slice(1).reduce((acc, cur) => acc.min(cur), depths[0])];
+      })
+      .sort((a, b) => (a[1].isEqualTo(b[1]) ? 0 : a[1].isGreaterThan(b[1]) ? -1 : 1))
+      .slice(0, k)
+      .map((item) => item[0]);
+  }
 
-      if (path.length > 0 && path[path.length - 1].isEqual(end)) {
-        result.push([...path]);
+  // depth first search which stops extending the path when it reaches the length limit
+  private searchPathes(start: Token, end: Token, lengthLimit: number): Token[][] {
+    const result: Token[][] = [];
+    const path: Token[] = [start];
+    const visited = new Set<string>([start.name]);
+
+    const search = (current: Token) => {
+      if (path.length >= lengthLimit) return;
+
+      for (const next of this.adj[current.name] || []) {
+        if (visited.has(next.name)) continue;
+
+        path.push(next);
+
+        if (next.isEqual(end)) {
+          result.push([...path]);
+        } else {
+          visited.add(next.name);
+          search(next);
+          visited.delete(next.name);
+        }
 
         path.pop();
-        searchList.pop();
       }
-    }
+    };
+
+    search(start);
 
-    return result.filter((item) => (lengthLimit ? item.length <= lengthLimit : true));
+    return result;
   }
 }
@@ -1,4 +1,7 @@
-import { Token, FixedPointNumber, TokenBalance } from '@setheum.js/sdk-core';
+import { ApiRx } from '@polkadot/api';
+import { SubmittableExtrinsic } from '@polkadot/api/types';
+import { ISubmittableResult } from '@polkadot/types/types';
+import { AnyApi, Token, FixedPointNumber, TokenBalance } from '@setheum.js/sdk-core';
 
 export interface LiquidityPool {
   token1: Token;
@@ -34,3 +37,49 @@ export interface Fee {
   numerator: FixedPointNumber;
   denominator: FixedPointNumber;
 }
+
+export interface SwapConstants {
+  tradingPathLimit: number;
+  // only the `maxTradingPathes` pathes which have the deepest liquidity are calculated, all pathes are used if not set
+  maxTradingPathes?: number;
+  fee: Fee;
+}
+
+export interface SwapExtrinsicOptions {
+  // the slippage tolerance, e.g. 0.005 means 0.5%
+  slippage: FixedPointNumber;
+  // the extrinsic will be invalid after `deadlineBlocks` blocks
+  deadlineBlocks?: number;
+}
+
+export interface SwapBounds {
+  // the minimum target amount which the swap should receive
+  minimumTarget: TokenBalance;
+  // the maximum supply amount which the swap can pay
+  maximumSupply: TokenBalance;
+}
+
+export interface SwapExtrinsic<T extends AnyApi> {
+  extrinsic: SubmittableExtrinsic<T extends ApiRx ? 'rxjs' : 'promise', ISubmittableResult>;
+  bounds: SwapBounds;
+  // the dex module has no deadline parameter, so the deadline is applied by signing the extrinsic with a mortal era,
+  // pass it to `signAndSend` as the options
+  signerOptions: { era?: number };
+}
+
+export interface ZapInBounds {
+  // the minimum target of the swap, it is also the max amount of the swapped token to add
+  minimumSwapTarget: TokenBalance;
+  minimumShare: TokenBalance;
+}
+
+export interface ZapOutBounds {
+  minimumRemoved: [TokenBalance, TokenBalance];
+  minimumOutput: TokenBalance;
+}
+
+export interface ZapExtrinsic<T extends AnyApi, B> {
+  extrinsic: SubmittableExtrinsic<T extends ApiRx ? 'rxjs' : 'promise', ISubmittableResult>;
+  bounds: B;
+  signerOptions: { era?: number };
+}
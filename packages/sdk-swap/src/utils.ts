@@ -40,3 +40,17 @@ export function getSupplyAmount(
 
   return FixedPointNumber.fromInner(numerator.div(denominator)._getInner().toNumber() + 1, numerator.getPrecision());
 }
+
+// clear the precision information, the liquidity pools are calculated with the chain data
+export function toRawAmount(amount: FixedPointNumber): FixedPointNumber {
+  return FixedPointNumber._fromBN(amount._getInner());
+}
+
+// set the precision information of the raw amount which is calculated with the chain data
+export function fromRawAmount(amount: FixedPointNumber, decimals: number): FixedPointNumber {
+  const temp = amount.clone();
+
+  temp.forceSetPrecision(decimals);
+
+  return temp;
+}
@@ -0,0 +1,65 @@
+import { FixedPointNumber, Token, TokenBalance, TokenPair } from '@setheum.js/sdk-core';
+import { TokenNotInPoolError } from './errors';
+import { LiquidityPool } from './types';
+import { ZapHelper } from './zap-helper';
+
+describe('zap helper', () => {
+  const setm = new Token('SETM', { decimals: 18 });
+  const setusd = new Token('SETUSD', { decimals: 18 });
+  const dnar = new Token('DNAR', { decimals: 18 });
+  const fee = { numerator: new FixedPointNumber(3), denominator: new FixedPointNumber(1000) };
+  const [token1, token2] = new TokenPair(setm, setusd).getPair();
+  const pool: LiquidityPool = {
+    token1,
+    token2,
+    balance1: new FixedPointNumber(token1.isEqual(setm) ? 1000 : 4000),
+    balance2: new FixedPointNumber(token1.isEqual(setm) ? 4000 : 1000)
+  };
+
+  const createHelper = () => new ZapHelper({ pool, totalShare: new FixedPointNumber(2000), fee });
+
+  test('zap in matches the pool ratio after the swap', () => {
+    const helper = createHelper();
+    const result = helper.zapIn(new TokenBalance(setm, new FixedPointNumber(100)));
+    const [added, swapped] = result.amounts;
+
+    // the rest of input and the swap output are both added to the pool
+    expect(result.swap.input.balance.toNumber()).toBeCloseTo(48.8822, 4);
+    expect(added.balance.toNumber()).toBeCloseTo(100 - result.swap.input.balance.toNumber(), 6);
+    expect(swapped.balance.toNumber()).toBeCloseTo(result.swap.output.balance.toNumber(), 6);
+    expect(result.share.token.isEqual(Token.fromTokens(setm, setusd))).toBe(true);
+    expect(result.share.balance.toNumber()).toBeCloseTo(97.4711, 4);
+  });
+
+  test('zap in bounds', () => {
+    const result = createHelper().zapIn(new TokenBalance(setusd, new FixedPointNumber(400)));
+    const bounds = result.getBounds(new FixedPointNumber(0.01));
+
+    expect(result.swap.input.token).toBe(setusd);
+    expect(bounds.minimumSwapTarget.balance.toNumber()).toBeCloseTo(result.swap.output.balance.toNumber() * 0.99, 6);
+    expect(bounds.minimumShare.balance.lt(result.share.balance)).toBe(true);
+    expect(bounds.minimumShare.balance.toNumber()).toBeCloseTo(result.share.balance.toNumber() * 0.99 * 0.99, 1);
+  });
+
+  test('zap out swaps the other removed token to the output', () => {
+    const result = createHelper().zapOut(new FixedPointNumber(200), setm);
+    const bounds = result.getBounds(new FixedPointNumber(0.01));
+    const removedSetm = result.removed.find((item) => item.token.isEqual(setm)) as TokenBalance;
+
+    expect(removedSetm.balance.toNumber()).toBeCloseTo(100, 6);
+    expect(result.swap.input.balance.toNumber()).toBeCloseTo(400, 6);
+    // swap 400 SETUSD in the 900 SETM / 3600 SETUSD pool
+    expect(result.output.balance.toNumber()).toBeCloseTo(100 + 89.7569, 4);
+    expect(bounds.minimumOutput.balance.lt(result.output.balance)).toBe(true);
+    expect(bounds.minimumRemoved.map((item) => item.balance.toNumber())).toEqual(
+      result.removed.map((item) => item.balance.toNumber() * 0.99)
+    );
+  });
+
+  test('throw error if the token is not in the pool', () => {
+    const helper = createHelper();
+
+    expect(() => helper.zapIn(new TokenBalance(dnar, new FixedPointNumber(1)))).toThrow(TokenNotInPoolError);
+    expect(() => helper.zapOut(new FixedPointNumber(1), dnar)).toThrow(TokenNotInPoolError);
+  });
+});
@@ -0,0 +1,143 @@
+import { FixedPointNumber, Token, TokenBalance } from '@setheum.js/sdk-core';
+
+import { InsufficientLiquidityError, TokenNotInPoolError } from './errors';
+import { LiquidityPoolHelper } from './liquidity-pool';
+import { SwapSimulator } from './swap-simulator';
+import { Fee, LiquidityPool } from './types';
+import { fromRawAmount, toRawAmount } from './utils';
+import { ZapInParameters, ZapOutParameters } from './zap-parameters';
+
+interface ZapPoolState {
+  pool: LiquidityPool;
+  // the total dex share of the pool
+  totalShare: FixedPointNumber;
+  fee: Fee;
+}
+
+const ONE = FixedPointNumber.ONE;
+const TWO = FixedPointNumber.TWO;
+const FOUR = new FixedPointNumber(4);
+
+/**
+ * calculate the single token zap-in and zap-out against a snapshot of liquidity pool,
+ * the balances of the pool and the total share should be created by `FixedPointNumber.fromInner` with the chain data.
+ */
+export class ZapHelper {
+  readonly pool: LiquidityPool;
+  readonly totalShare: FixedPointNumber;
+  readonly fee: Fee;
+  readonly shareToken: Token;
+
+  constructor(state: ZapPoolState) {
+    this.pool = state.pool;
+    this.totalShare = state.totalShare;
+    this.fee = state.fee;
+    this.shareToken = Token.fromTokens(state.pool.token1, state.pool.token2);
+  }
+
+  // return the other token of the pool and the pool balance of `token`
+  private getPoolSide(token: Token): [Token, FixedPointNumber] {
+    const { token1, token2, balance1, balance2 } = this.pool;
+
+    if (token1.isEqual(token)) return [token2, balance1];
+
+    if (token2.isEqual(token)) return [token1, balance2];
+
+    throw new TokenNotInPoolError();
+  }
+
+  /**
+   * @name getSwapAmount
+   * @description get the part of `amount` which should be swapped, so that the rest and the swap output
+   * match the pool ratio after the swap, with the fee rate f:
+   * swap = (sqrt(((2 - f) * pool) ^ 2 + 4 * (1 - f) * amount * pool) - (2 - f) * pool) / (2 * (1 - f))
+   */
+  public getSwapAmount(token: Token, amount: FixedPointNumber): FixedPointNumber {
+    const [, supplyPool] = this.getPoolSide(token);
+    const rawAmount = toRawAmount(amount);
+    const feeRate = this.fee.numerator.div(this.fee.denominator);
+    const a = TWO.minus(feeRate).times(supplyPool);
+    const b = FOUR.times(ONE.minus(feeRate)).times(rawAmount).times(supplyPool);
+
+    return fromRawAmount(
+      a
+        .times(a)
+        .plus(b)
+        .sqrt()
+        .minus(a)
+        .div(TWO.times(ONE.minus(feeRate))),
+      token.decimals
+    );
+  }
+
+  /**
+   * @name zapIn
+   * @description swap the part of `input` to the other token of the pool and add both of them to the pool
+   */
+  public zapIn(input: TokenBalance): ZapInParameters {
+    const { token, balance } = input;
+    const [other] = this.getPoolSide(token);
+
+    if (this.totalShare.isZero()) throw new InsufficientLiquidityError();
+
+    const simulator = new SwapSimulator([this.pool], this.fee);
+    const swapAmount = this.getSwapAmount(token, balance);
+    const swap = simulator.swap([token, other], swapAmount, 'EXACT_INPUT');
+    const [pool] = simulator.applySwap(swap);
+    const rest = fromRawAmount(toRawAmount(balance).minus(toRawAmount(swapAmount)), token.decimals);
+
+    const helper = new LiquidityPoolHelper({
+      token0: pool.token1,
+      token1: pool.token2,
+      pool0: pool.balance1,
+      pool1: pool.balance2
+    });
+    const { incrementA, incrementB, incrementShare } = helper.estimateAddLiquidity({
+      tokenA: token,
+      tokenB: other,
+      maxAmountA: toRawAmount(rest),
+      maxAmountB: toRawAmount(swap.output.balance),
+      totalShare: this.totalShare.clone()
+    });
+
+    return new ZapInParameters({
+      input,
+      swap,
+      amounts: [new TokenBalance(token, incrementA), new TokenBalance(other, incrementB)],
+      share: new TokenBalance(this.shareToken, incrementShare),
+      pool: helper,
+      totalShare: this.totalShare
+    });
+  }
+
+  /**
+   * @name zapOut
+   * @description remove `share` from the pool and swap the removed other token to `output`
+   */
+  public zapOut(share: FixedPointNumber, output: Token): ZapOutParameters {
+    const [other] = this.getPoolSide(output);
+    const { token1, token2, balance1, balance2 } = this.pool;
+
+    if (this.totalShare.isZero()) throw new InsufficientLiquidityError();
+
+    const ratio = toRawAmount(share).div(this.totalShare);
+    const removed1 = balance1.times(ratio);
+    const removed2 = balance2.times(ratio);
+    const pool = { ...this.pool, balance1: balance1.minus(removed1), balance2: balance2.minus(removed2) };
+    const removed: [TokenBalance, TokenBalance] = [
+      new TokenBalance(token1, fromRawAmount(removed1, token1.decimals)),
+      new TokenBalance(token2, fromRawAmount(removed2, token2.decimals))
+    ];
+    const [supply, removedOutput] = token1.isEqual(other) ? removed : [removed[1], removed[0]];
+    const swap = new SwapSimulator([pool], this.fee).swap([other, output], supply.balance, 'EXACT_INPUT');
+
+    return new ZapOutParameters({
+      share: new TokenBalance(this.shareToken, share),
+      removed,
+      swap,
+      output: new TokenBalance(output, removedOutput.balance.plus(swap.output.balance)),
+      pool,
+      fee: this.fee
+    });
+  }
+}
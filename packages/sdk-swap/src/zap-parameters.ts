@@ -0,0 +1,176 @@
+import {
+  AnyApi,
+  createDexLiquidityCall,
+  FixedPointNumber,
+  forceToCurrencyId,
+  TokenBalance
+} from '@setheum.js/sdk-core';
+
+import { LiquidityPoolHelper } from './liquidity-pool';
+import { SwapParameters } from './swap-parameters';
+import { SwapSimulator } from './swap-simulator';
+import { Fee, LiquidityPool, SwapExtrinsicOptions, ZapExtrinsic, ZapInBounds, ZapOutBounds } from './types';
+import { toRawAmount } from './utils';
+
+export class ZapInParameters {
+  public input: TokenBalance;
+  // the swap of the part of input
+  public swap: SwapParameters;
+  // the estimated amounts which are added to the pool, the input token first
+  public amounts: [TokenBalance, TokenBalance];
+  public share: TokenBalance;
+  // the liquidity pool after the swap
+  private pool: LiquidityPoolHelper;
+  private totalShare: FixedPointNumber;
+
+  constructor(config: {
+    input: TokenBalance;
+    swap: SwapParameters;
+    amounts: [TokenBalance, TokenBalance];
+    share: TokenBalance;
+    pool: LiquidityPoolHelper;
+    totalShare: FixedPointNumber;
+  }) {
+    this.input = config.input;
+    this.swap = config.swap;
+    this.amounts = config.amounts;
+    this.share = config.share;
+    this.pool = config.pool;
+    this.totalShare = config.totalShare;
+  }
+
+  /**
+   * @name getBounds
+   * @description get the minimum swap target and the minimum share increment under the `slippage` tolerance
+   */
+  public getBounds(slippage: FixedPointNumber): ZapInBounds {
+    const { minimumTarget } = this.swap.getBounds(slippage);
+    const { incrementShare } = this.pool.estimateAddLiquidity({
+      tokenA: this.amounts[0].token,
+      tokenB: this.amounts[1].token,
+      maxAmountA: toRawAmount(this.amounts[0].balance),
+      maxAmountB: toRawAmount(minimumTarget.balance),
+      totalShare: this.totalShare.clone()
+    });
+
+    return {
+      minimumSwapTarget: minimumTarget,
+      minimumShare: new TokenBalance(this.share.token, incrementShare.times(FixedPointNumber.ONE.minus(slippage)))
+    };
+  }
+
+  /**
+   * @name toExtrinsic
+   * @description batch the swap and the add liquidity calls by `utility.batchAll`,
+   * only the minimum swap target is added so the call will not fail when the swap receives less
+   */
+  public toExtrinsic<T extends AnyApi>(
+    api: T,
+    options: SwapExtrinsicOptions = { slippage: FixedPointNumber.ZERO }
+  ): ZapExtrinsic<T, ZapInBounds> {
+    const bounds = this.getBounds(options.slippage);
+    const swap = this.swap.toExtrinsic(api, options);
+    const addLiquidity = createDexLiquidityCall(api, 'addLiquidity', [
+      forceToCurrencyId(api, this.amounts[0].token),
+      forceToCurrencyId(api, this.amounts[1].token),
+      this.amounts[0].balance.toChainData(),
+      bounds.minimumSwapTarget.balance.toChainData(),
+      bounds.minimumShare.balance.toChainData()
+    ]);
+    const extrinsic = api.tx.utility.batchAll([swap.extrinsic, addLiquidity]);
+
+    return {
+      extrinsic: extrinsic as ZapExtrinsic<T, ZapInBounds>['extrinsic'],
+      bounds,
+      signerOptions: swap.signerOptions
+    };
+  }
+}
+
+export class ZapOutParameters {
+  public share: TokenBalance;
+  // the estimated amounts which are removed from the pool, ordered by the pool tokens
+  public removed: [TokenBalance, TokenBalance];
+  // the swap of the removed token which is not the output token
+  public swap: SwapParameters;
+  public output: TokenBalance;
+  // the liquidity pool after the removal
+  private pool: LiquidityPool;
+  private fee: Fee;
+
+  constructor(config: {
+    share: TokenBalance;
+    removed: [TokenBalance, TokenBalance];
+    swap: SwapParameters;
+    output: TokenBalance;
+    pool: LiquidityPool;
+    fee: Fee;
+  }) {
+    this.share = config.share;
+    this.removed = config.removed;
+    this.swap = config.swap;
+    this.output = config.output;
+    this.pool = config.pool;
+    this.fee = config.fee;
+  }
+
+  // the swap only supplies the minimum removed amount, so it can't fail when the removal receives less
+  private getBoundedSwap(slippage: FixedPointNumber): [TokenBalance[], SwapParameters] {
+    const minimumRemoved = this.removed.map(
+      (item) => new TokenBalance(item.token, item.balance.times(FixedPointNumber.ONE.minus(slippage)))
+    );
+    const supply = minimumRemoved.find((item) => item.token.isEqual(this.swap.input.token)) as TokenBalance;
+    const swap = new SwapSimulator([this.pool], this.fee).swap(
+      [supply.token, this.output.token],
+      supply.balance,
+      'EXACT_INPUT'
+    );
+
+    return [minimumRemoved, swap];
+  }
+
+  /**
+   * @name getBounds
+   * @description get the minimum removed amounts and the minimum output under the `slippage` tolerance
+   */
+  public getBounds(slippage: FixedPointNumber): ZapOutBounds {
+    const [minimumRemoved, swap] = this.getBoundedSwap(slippage);
+    const removedOutput = minimumRemoved.find((item) => item.token.isEqual(this.output.token)) as TokenBalance;
+
+    return {
+      minimumRemoved: minimumRemoved as [TokenBalance, TokenBalance],
+      minimumOutput: new TokenBalance(
+        this.output.token,
+        removedOutput.balance.plus(swap.getBounds(slippage).minimumTarget.balance)
+      )
+    };
+  }
+
+  /**
+   * @name toExtrinsic
+   * @description batch the remove liquidity and the swap calls by `utility.batchAll`
+   */
+  public toExtrinsic<T extends AnyApi>(
+    api: T,
+    options: SwapExtrinsicOptions = { slippage: FixedPointNumber.ZERO }
+  ): ZapExtrinsic<T, ZapOutBounds> {
+    const bounds = this.getBounds(options.slippage);
+    const [, boundedSwap] = this.getBoundedSwap(options.slippage);
+    const swap = boundedSwap.toExtrinsic(api, options);
+    const [removed0, removed1] = bounds.minimumRemoved;
+    const removeLiquidity = createDexLiquidityCall(api, 'removeLiquidity', [
+      forceToCurrencyId(api, removed0.token),
+      forceToCurrencyId(api, removed1.token),
+      this.share.balance.toChainData(),
+      removed0.balance.toChainData(),
+      removed1.balance.toChainData()
+    ]);
+    const extrinsic = api.tx.utility.batchAll([removeLiquidity, swap.extrinsic]);
+
+    return {
+      extrinsic: extrinsic as ZapExtrinsic<T, ZapOutBounds>['extrinsic'],
+      bounds,
+      signerOptions: swap.signerOptions
+    };
+  }
+}
@@ -8,12 +8,17 @@ import {
   unzipDexShareName,
   FixedPointNumber as FN,
   isDexShareName,
+  getExistentialDeposit,
+  getAssetRegistryName
 } from '@setheum.js/sdk-core';
-import { CurrencyId } from '@setheum.js/types/interfaces';
+import { CurrencyId, SetheumAssetMetadata } from '@setheum.js/types/interfaces';
 
 import { ApiRx, ApiPromise } from '@polkadot/api';
 import { SubmittableExtrinsic } from '@polkadot/api/types';
+import { Option, StorageKey } from '@polkadot/types';
+import { ModuleAssetRegistryModuleAssetIds } from '@polkadot/types/lookup';
 import { ISubmittableResult } from '@polkadot/types/types';
+import { firstValueFrom, Observable } from 'rxjs';
 import { BalanceData, PriceData, PriceDataWithTimestamp, TransferConfig } from './types';
 import { getExistentialDepositConfig } from './utils/get-existential-deposit-config';
 
@@ -22,6 +27,8 @@ export abstract class WalletBase<T extends ApiRx | ApiPromise> {
   protected decimalsMap: Map<string, number>;
   protected currencyIdMap: Map<string, CurrencyId>;
   protected tokenMap: Map<string, Token>;
+  // the existential deposits read from the chain
+  protected existentialDeposits: Map<string, FN>;
   protected nativeToken!: string;
   protected runtimeChain!: string;
 
@@ -30,8 +37,10 @@ export abstract class WalletBase<T extends ApiRx | ApiPromise> {
     this.decimalsMap = new Map<string, number>([]);
     this.currencyIdMap = new Map<string, CurrencyId>([]);
     this.tokenMap = new Map<string, Token>([]);
+    this.existentialDeposits = new Map<string, FN>([]);
 
     this.init();
+    this.initAssetRegistry();
   }
 
   private init() {
@@ -48,16 +57,50 @@ export abstract class WalletBase<T extends ApiRx | ApiPromise> {
         const key = item.toString();
         const currencyId = forceToTokenSymbolCurrencyId(this.api, key);
         const decimals = Number(tokenDecimals?.[index]) || defaultTokenDecimal;
+        const ed =
+          getExistentialDeposit(this.api, key, decimals) || getExistentialDepositConfig(this.runtimeChain, key);
 
         this.decimalsMap.set(key, Number(tokenDecimals?.[index]) || defaultTokenDecimal);
         this.currencyIdMap.set(key, currencyId);
-        this.tokenMap.set(key, Token.fromCurrencyId(currencyId, { decimals }));
+        this.tokenMap.set(key, Token.fromCurrencyId(currencyId, { decimals, ed }));
+
+        if (ed) this.existentialDeposits.set(key, ed);
       } catch (e) {
         // ignore eorror
       }
     });
   }
 
+  // load the tokens in asset registry, the minimal balance is the existential deposit
+  private initAssetRegistry() {
+    type Entries = [StorageKey<[ModuleAssetRegistryModuleAssetIds]>, Option<SetheumAssetMetadata>][];
+
+    const query = this.api.query.assetRegistry?.assetMetadatas as unknown as { entries: () => unknown } | undefined;
+
+    if (!query) return;
+
+    const entries = query.entries() as Promise<Entries> | Observable<Entries>;
+
+    (entries instanceof Observable ? firstValueFrom(entries) : entries)
+      .then((result) => {
+        result.forEach(([key, metadata]) => {
+          const name = getAssetRegistryName(key.args[0]);
+
+          if (!name || metadata.isNone) return;
+
+          const { symbol, decimals, minimalBalance } = metadata.unwrap();
+          const ed = FN.fromInner(minimalBalance.toString(), decimals.toNumber());
+
+          this.decimalsMap.set(name, decimals.toNumber());
+          this.tokenMap.set(name, new Token(name, { symbol: symbol.toUtf8(), decimals: decimals.toNumber(), ed }));
+          this.existentialDeposits.set(name, ed);
+        });
+      })
+      .catch(() => {
+        // ignore error, the existential deposits of these tokens fallback to the config
+      });
+  }
+
   public isNativeToken(currency: MaybeCurrency): boolean {
     return forceToCurrencyName(currency) === forceToCurrencyName(this.nativeToken);
   }
@@ -97,6 +140,15 @@ export abstract class WalletBase<T extends ApiRx | ApiPromise> {
     return this.tokenMap.get(currencyName)?.clone() || new Token('EMPTY');
   }
 
+  // the config is the fallback of the existential deposit which is not exposed by the chain
+  private getExistentialDeposit(name: string): FN {
+    return (
+      this.existentialDeposits.get(name)?.clone() ||
+      getExistentialDepositConfig(this.runtimeChain, name) ||
+      FN.ZERO.clone()
+    );
+  }
+
   public getTransferConfig(currency: MaybeCurrency): TransferConfig {
     const name = forceToCurrencyName(currency);
 
@@ -105,13 +157,11 @@ export abstract class WalletBase<T extends ApiRx | ApiPromise> {
       const [token1] = Token.sortTokenNames(...unzipDexShareName(name));
 
       return {
-        existentialDeposit: getExistentialDepositConfig(this.runtimeChain, token1)
+        existentialDeposit: this.getExistentialDeposit(token1)
       };
     }
 
-    const existentialDeposit = getExistentialDepositConfig(this.runtimeChain, forceToCurrencyName(currency));
-
-    return { existentialDeposit };
+    return { existentialDeposit: this.getExistentialDeposit(name) };
   }
 
   /**
@@ -0,0 +1,101 @@
+import { ApiPromise } from '@polkadot/api';
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+import { WalletPromise } from './wallet-promise';
+
+describe('wallet promise', () => {
+  const account = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const hashes: Record<number, string> = { 100: '0x0100', 200: '0x0200' };
+  const balances: Record<string, string> = { '0x0100': '1000000000000', '0x0200': '2000000000000' };
+  const latestBalance = '3000000000000';
+
+  const createAccountQuery = (free: string) => {
+    return Object.assign(
+      jest.fn(() => Promise.resolve({ data: { free, miscFrozen: '0', feeFrozen: '0', reserved: '0' } })),
+      { creator: { section: 'system', method: 'account' } }
+    );
+  };
+
+  const createApi = () => {
+    return {
+      type: 'promise',
+      runtimeChain: 'Setheum',
+      registry: { chainDecimals: [12], chainTokens: ['SETM'] },
+      consts: { balances: { existentialDeposit: { toString: () => '10000000000' } } },
+      createType: (_: string, data: { Token: string }) => ({
+        isToken: true,
+        asToken: { toString: () => data.Token },
+        toString: () => data.Token
+      }),
+      rpc: {
+        chain: { getBlockHash: jest.fn((at: number) => Promise.resolve({ toString: () => hashes[at] })) }
+      },
+      query: { system: { account: createAccountQuery(latestBalance) } },
+      at: jest.fn((hash: string) =>
+        Promise.resolve({ query: { system: { account: createAccountQuery(balances[hash]) } } })
+      )
+    };
+  };
+
+  test('query balance at the specific block', async () => {
+    const api = createApi();
+    const wallet = new WalletPromise(api as unknown as ApiPromise);
+
+    const latest = await wallet.queryBalance(account, 'SETM');
+    const at100 = await wallet.queryBalance(account, 'SETM', 100);
+    const at200 = await wallet.queryBalance(account, 'SETM', 200);
+
+    expect(latest.freeBalance.isEqualTo(new FixedPointNumber(3))).toBe(true);
+    expect(at100.freeBalance.isEqualTo(new FixedPointNumber(1))).toBe(true);
+    expect(at200.freeBalance.isEqualTo(new FixedPointNumber(2))).toBe(true);
+    expect(at200.availableBalance.isEqualTo(new FixedPointNumber(2))).toBe(true);
+  });
+
+  test('cache the block hash and the decorated api of each block', async () => {
+    const api = createApi();
+    const wallet = new WalletPromise(api as unknown as ApiPromise);
+
+    await wallet.queryBalance(account, 'SETM', 100);
+    await wallet.queryBalance(account, 'SETM', 100);
+    await wallet.queryBalance(account, 'SETM', 200);
+
+    expect(api.rpc.chain.getBlockHash).toHaveBeenCalledTimes(2);
+    expect(api.at).toHaveBeenCalledTimes(2);
+    expect(api.query.system.account).not.toHaveBeenCalled();
+  });
+
+  test('read the existential deposit from the runtime constants and fallback to the config', () => {
+    const wallet = new WalletPromise(createApi() as unknown as ApiPromise);
+
+    expect(wallet.getTransferConfig('SETM').existentialDeposit.isEqualTo(new FixedPointNumber(0.01))).toBe(true);
+    expect(wallet.getToken('SETM').ed.isEqualTo(new FixedPointNumber(0.01))).toBe(true);
+    expect(wallet.getTransferConfig('SERP').existentialDeposit.isEqualTo(new FixedPointNumber(0.1, 18))).toBe(true);
+  });
+
+  test('read the existential deposit of the asset registry tokens from the minimal balance', async () => {
+    const address = '0x0000000000000000000100000000000000000001';
+    const metadata = {
+      isNone: false,
+      unwrap: () => ({
+        symbol: { toUtf8: () => 'USDC' },
+        decimals: { toNumber: () => 6 },
+        minimalBalance: { toString: () => '10000' }
+      })
+    };
+    const key = { args: [{ isErc20: true, asErc20: { toString: () => address } }] };
+    const api = Object.assign(createApi(), {
+      query: {
+        system: { account: createAccountQuery(latestBalance) },
+        assetRegistry: { assetMetadatas: { entries: () => Promise.resolve([[key, metadata]]) } }
+      }
+    });
+    const wallet = new WalletPromise(api as unknown as ApiPromise);
+
+    // wait the asset registry entries
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const name = `erc20://${address}`;
+
+    expect(wallet.getToken(name).decimals).toBe(6);
+    expect(wallet.getTransferConfig(name).existentialDeposit.isEqualTo(new FixedPointNumber(0.01, 6))).toBe(true);
+  });
+});
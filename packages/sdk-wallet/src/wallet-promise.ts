@@ -8,7 +8,7 @@ import { MaybeAccount, MaybeCurrency } from '@setheum.js/sdk-core/types';
 import { BalanceData, PriceData, PriceDataWithTimestamp } from './types';
 import type { ISubmittableResult, ITuple } from '@polkadot/types/types';
 import { WalletBase } from './wallet-base';
-import { AccountData, BlockHash, AccountInfo } from '@polkadot/types/interfaces';
+import { AccountData, AccountInfo } from '@polkadot/types/interfaces';
 import { BelowExistentialDeposit } from './errors';
 import { Option } from '@polkadot/types';
 import { ORACLE_FEEDS_TOKEN } from './config';
@@ -25,7 +25,7 @@ export class WalletPromise extends WalletBase<ApiPromise> {
   // query price info, support specify data source
   public queryPrice = async (currency: MaybeCurrency, at?: number): Promise<PriceData> => {
     const currencyName = forceToCurrencyName(currency);
-    
+
     // get dex share price
     if (isDexShareName(currencyName)) {
       return this.queryDexSharePriceFormDex(currency, at); // TODO: FIXME - spelling mistake and adjust dependents too.
@@ -69,38 +69,34 @@ export class WalletPromise extends WalletBase<ApiPromise> {
     const token2 = this.getToken(key2);
     const dexShareToken = this.getToken(dexShareCurrency);
 
-    return this.getBlockHash(at).then(async (hash) => {
-      const [dex, totalIssuance, price1, price2] = await Promise.all([
-        queryFN(this.queryDexPool, hash)(currency1, currency2),
-        queryFN(this.queryIssuance, hash)(dexShareToken),
-        this.queryPrice(token1, at),
-        this.queryPrice(token2, at)
-      ]);
-      const currency1Amount = dex[0];
-      const currency2Amount = dex[1];
-      const currency1AmountOfOne = currency1Amount.div(totalIssuance);
-      const currency2AmountOfOne = currency2Amount.div(totalIssuance);
-      const price = currency1AmountOfOne.times(price1.price).plus(currency2AmountOfOne.times(price2.price));
-
-      return {
-        token: dexShareToken,
-        price
-      };
-    });
+    const [dex, totalIssuance, price1, price2] = await Promise.all([
+      this.queryDexPool(currency1, currency2, at),
+      this.queryIssuance(dexShareToken, at),
+      this.queryPrice(token1, at),
+      this.queryPrice(token2, at)
+    ]);
+    const currency1Amount = dex[0];
+    const currency2Amount = dex[1];
+    const currency1AmountOfOne = currency1Amount.div(totalIssuance);
+    const currency2AmountOfOne = currency2Amount.div(totalIssuance);
+    const price = currency1AmountOfOne.times(price1.price).plus(currency2AmountOfOne.times(price2.price));
+
+    return {
+      token: dexShareToken,
+      price
+    };
   };
 
   public queryPriceFromOracle = (token: MaybeCurrency, at?: number): Promise<PriceData> => {
-    return this.getBlockHash(at).then((hash) => {
-      const currencyId = forceToCurrencyId(this.api, token);
+    const currencyId = forceToCurrencyId(this.api, token);
 
-      return (
-        queryFN(this.api.query.acalaOracle.values, hash)(currencyId) as any as Promise<Option<TimestampedValue>>
-      ).then((data) => {
-        const token = this.getToken(currencyId);
-        const price = data.unwrapOrDefault().value;
+    return (
+      queryFN(this.api, this.api.query.acalaOracle.values, at)(currencyId) as any as Promise<Option<TimestampedValue>>
+    ).then((data) => {
+      const token = this.getToken(currencyId);
+      const price = data.unwrapOrDefault().value;
 
-        return price.isEmpty ? { token, price: new FN(0) } : { token, price: FN.fromInner(price.toString()) };
-      });
+      return price.isEmpty ? { token, price: new FN(0) } : { token, price: FN.fromInner(price.toString()) };
     });
   };
 
@@ -111,24 +107,24 @@ export class WalletPromise extends WalletBase<ApiPromise> {
     const _token2 = Token.fromCurrencyId(token2CurrencyId);
     const [sorted1, sorted2] = Token.sort(_token1, _token2);
 
-    return this.getBlockHash(at).then((hash) => {
-      return (
-        queryFN(this.api.query.dex.liquidityPool, hash)([sorted1.toChainData(), sorted2.toChainData()]) as Promise<
-          ITuple<[Balance, Balance]>
-        >
-      ).then((pool: ITuple<[Balance, Balance]>) => {
-        const balance1 = pool[0];
-        const balance2 = pool[1];
-
-        const fixedPoint1 = FN.fromInner(balance1.toString(), this.getToken(sorted1).decimals);
-        const fixedPoint2 = FN.fromInner(balance2.toString(), this.getToken(sorted2).decimals);
-
-        if (forceToCurrencyName(sorted1) === forceToCurrencyName(token1)) {
-          return [fixedPoint1, fixedPoint2];
-        } else {
-          return [fixedPoint2, fixedPoint1];
-        }
-      });
+    return (
+      queryFN(
+        this.api,
+        this.api.query.dex.liquidityPool,
+        at
+      )([sorted1.toChainData(), sorted2.toChainData()]) as Promise<ITuple<[Balance, Balance]>>
+    ).then((pool: ITuple<[Balance, Balance]>) => {
+      const balance1 = pool[0];
+      const balance2 = pool[1];
+
+      const fixedPoint1 = FN.fromInner(balance1.toString(), this.getToken(sorted1).decimals);
+      const fixedPoint2 = FN.fromInner(balance2.toString(), this.getToken(sorted2).decimals);
+
+      if (forceToCurrencyName(sorted1) === forceToCurrencyName(token1)) {
+        return [fixedPoint1, fixedPoint2];
+      } else {
+        return [fixedPoint2, fixedPoint1];
+      }
     });
   };
 
@@ -165,15 +161,12 @@ export class WalletPromise extends WalletBase<ApiPromise> {
       return FN.ZERO;
     }
 
-    return this.getBlockHash(at)
-      .then((hash) => {
-        if (currencyName === this.nativeToken) {
-          return queryFN(this.api.query.balances.totalIssuance, hash.toString())(currencyId) as Promise<Balance>;
-        }
+    const issuance =
+      currencyName === this.nativeToken
+        ? (queryFN(this.api, this.api.query.balances.totalIssuance, at)() as Promise<Balance>)
+        : (queryFN(this.api, this.api.query.tokens.totalIssuance, at)(currencyId) as Promise<Balance>);
 
-        return queryFN(this.api.query.tokens.totalIssuance, hash.toString())(currencyId) as Promise<Balance>;
-      })
-      .then((data) => (!data ? new FN(0, token.decimals) : FN.fromInner(data.toString(), token.decimals)));
+    return issuance.then((data) => (!data ? new FN(0, token.decimals) : FN.fromInner(data.toString(), token.decimals)));
   };
 
   public queryBalance = async (account: MaybeAccount, currency: MaybeCurrency, at?: number): Promise<BalanceData> => {
@@ -181,60 +174,48 @@ export class WalletPromise extends WalletBase<ApiPromise> {
     const currencyId = forceToCurrencyId(this.api, currency);
     const isNativeToken = tokenName === this.nativeToken;
 
-    return this.getBlockHash(at)
-      .then((hash): Promise<AccountData | OrmlAccountData> => {
-        if (isNativeToken) {
-          return queryFN<(account: any) => Promise<AccountInfo>>(
-            this.api.query.system.account,
-            hash.toString()
-          )(account).then((data) => data.data) as any as Promise<AccountData>;
-        }
-
-        return queryFN(this.api.query.tokens.accounts, hash.toString())(
-          account,
-          currencyId
-        ) as any as Promise<OrmlAccountData>;
-      })
-      .then((data) => {
-        const token = this.getToken(currencyId);
-        let freeBalance = FN.ZERO;
-        let lockedBalance = FN.ZERO;
-        let reservedBalance = FN.ZERO;
-        let availableBalance = FN.ZERO;
-
-        if (isNativeToken) {
-          data = data as AccountData;
-
-          freeBalance = FN.fromInner(data.free.toString(), token.decimals);
-          lockedBalance = FN.fromInner(data.miscFrozen.toString(), token.decimals).max(
-            FN.fromInner(data.feeFrozen.toString(), token.decimals)
-          );
-          reservedBalance = FN.fromInner(data.reserved.toString(), token.decimals);
-        } else {
-          data = data as unknown as OrmlAccountData;
-
-          freeBalance = FN.fromInner(data.free.toString(), token.decimals);
-          lockedBalance = FN.fromInner(data.frozen.toString(), token.decimals);
-          reservedBalance = FN.fromInner(data.reserved.toString(), token.decimals);
-        }
-
-        availableBalance = freeBalance.sub(lockedBalance).max(FN.ZERO);
+    const balance: Promise<AccountData | OrmlAccountData> = isNativeToken
+      ? queryFN<(account: any) => Promise<AccountInfo>>(
+          this.api,
+          this.api.query.system.account,
+          at
+        )(account).then((data) => data.data)
+      : (queryFN(this.api, this.api.query.tokens.accounts, at)(account, currencyId) as any as Promise<OrmlAccountData>);
+
+    return balance.then((data) => {
+      const token = this.getToken(currencyId);
+      let freeBalance = FN.ZERO;
+      let lockedBalance = FN.ZERO;
+      let reservedBalance = FN.ZERO;
+      let availableBalance = FN.ZERO;
 
-        return {
-          token,
-          freeBalance,
-          lockedBalance,
-          reservedBalance,
-          availableBalance
-        };
-      });
-  };
+      if (isNativeToken) {
+        data = data as AccountData;
 
-  private async getBlockHash(at?: number | string): Promise<string | BlockHash> {
-    if (!at) return '';
+        freeBalance = FN.fromInner(data.free.toString(), token.decimals);
+        lockedBalance = FN.fromInner(data.miscFrozen.toString(), token.decimals).max(
+          FN.fromInner(data.feeFrozen.toString(), token.decimals)
+        );
+        reservedBalance = FN.fromInner(data.reserved.toString(), token.decimals);
+      } else {
+        data = data as unknown as OrmlAccountData;
 
-    return this.api.rpc.chain.getBlockHash(at);
-  }
+        freeBalance = FN.fromInner(data.free.toString(), token.decimals);
+        lockedBalance = FN.fromInner(data.frozen.toString(), token.decimals);
+        reservedBalance = FN.fromInner(data.reserved.toString(), token.decimals);
+      }
+
+      availableBalance = freeBalance.sub(lockedBalance).max(FN.ZERO);
+
+      return {
+        token,
+        freeBalance,
+        lockedBalance,
+        reservedBalance,
+        availableBalance
+      };
+    });
+  };
 
   public queryPrices(currencies: MaybeCurrency[]): Promise<PriceData[]> {
     return Promise.all(currencies.map((item) => this.queryPrice(item)));
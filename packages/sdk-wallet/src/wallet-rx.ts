@@ -6,7 +6,7 @@ import { BehaviorSubject, combineLatest, Observable, of } from 'rxjs';
 import { Vec } from '@polkadot/types';
 import { TimestampedValue, VestingScheduleOf, OrmlAccountData } from '@open-web3/orml-types/interfaces';
 import {
-  eventsFilterRx,
+  EventBus,
   FixedPointNumber as FN,
   getSubscribeOrAtQuery,
   isDexShareName,
@@ -20,7 +20,7 @@ import { PriceData, PriceDataWithTimestamp, NativeAllBalance, BalanceData } from
 import type { ISubmittableResult, ITuple } from '@polkadot/types/types';
 import type { Option } from '@polkadot/types';
 import { WalletBase } from './wallet-base';
-import { AccountData, AccountInfo, BalanceLock, BlockHash } from '@polkadot/types/interfaces';
+import { AccountData, AccountInfo, BalanceLock } from '@polkadot/types/interfaces';
 import { BelowExistentialDeposit } from './errors';
 import { ORACLE_FEEDS_TOKEN } from './config';
 import { SubmittableExtrinsic } from '@polkadot/api/types';
@@ -49,7 +49,7 @@ export class WalletRx extends WalletBase<ApiRx> {
   // query price info
   public queryPrice = memoize((currency: MaybeCurrency, at?: number): Observable<PriceData> => {
     const tokenName = forceToCurrencyName(currency);
-   
+
     // get dex share price
     if (isDexShareName(tokenName)) {
       return this.queryDexSharePriceFormDex(currency, at);
@@ -164,26 +164,23 @@ export class WalletRx extends WalletBase<ApiRx> {
     const _token2 = Token.fromCurrencyId(token2CurrencyId);
     const [sorted1, sorted2] = Token.sort(_token1, _token2);
 
-    return this.getBlockHash(at).pipe(
-      switchMap((hash) => {
-        return queryFN(
-          this.api.query.dex.liquidityPool,
-          hash
-        )<ITuple<[Balance, Balance]>>([sorted1.toChainData(), sorted2.toChainData()]).pipe(
-          map((pool: ITuple<[Balance, Balance]>) => {
-            const balance1 = pool[0];
-            const balance2 = pool[1];
-
-            const fixedPoint1 = FN.fromInner(balance1.toString(), this.getToken(sorted1).decimals);
-            const fixedPoint2 = FN.fromInner(balance2.toString(), this.getToken(sorted2).decimals);
-
-            if (forceToCurrencyName(sorted1) === forceToCurrencyName(token1)) {
-              return [fixedPoint1, fixedPoint2];
-            } else {
-              return [fixedPoint2, fixedPoint1];
-            }
-          })
-        );
+    return queryFN(
+      this.api,
+      this.api.query.dex.liquidityPool,
+      at
+    )<ITuple<[Balance, Balance]>>([sorted1.toChainData(), sorted2.toChainData()]).pipe(
+      map((pool: ITuple<[Balance, Balance]>) => {
+        const balance1 = pool[0];
+        const balance2 = pool[1];
+
+        const fixedPoint1 = FN.fromInner(balance1.toString(), this.getToken(sorted1).decimals);
+        const fixedPoint2 = FN.fromInner(balance2.toString(), this.getToken(sorted2).decimals);
+
+        if (forceToCurrencyName(sorted1) === forceToCurrencyName(token1)) {
+          return [fixedPoint1, fixedPoint2];
+        } else {
+          return [fixedPoint2, fixedPoint1];
+        }
       }),
       shareReplay(1)
     );
@@ -213,30 +210,32 @@ export class WalletRx extends WalletBase<ApiRx> {
   });
 
   public subscribeOracleFeed = memoize((oracleProvider = 'Aggregated') => {
-    return eventsFilterRx(this.api, [{ section: '*', method: 'NewFeedData' }], true).pipe(
-      switchMap(() => {
-        /* eslint-disable-next-line */
-        return (this.api.rpc as any).oracle.getAllValues(oracleProvider) as Observable<[[OracleKey, TimestampedValue]]>;
-      }),
-      map((result) => {
-        return result.map((item) => {
-          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          const token = this.tokenMap.get(item[0].asToken.toString())!;
-          const price = FN.fromInner(
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-            (item[1]?.value as any)?.value.toString() || '0'
-          );
+    return EventBus.get(this.api)
+      .subscribe('*.NewFeedData', { initial: true })
+      .pipe(
+        switchMap(() => {
+          /* eslint-disable-next-line */
+          return (this.api.rpc as any).oracle.getAllValues(oracleProvider) as Observable<[[OracleKey, TimestampedValue]]>;
+        }),
+        map((result) => {
+          return result.map((item) => {
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            const token = this.tokenMap.get(item[0].asToken.toString())!;
+            const price = FN.fromInner(
+              // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+              (item[1]?.value as any)?.value.toString() || '0'
+            );
 
-          return {
-            token,
-            price,
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-            timestamp: new Date((item[1]?.value as any)?.timestamp.toNumber())
-          };
-        });
-      }),
-      shareReplay(1)
-    );
+            return {
+              token,
+              price,
+              // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+              timestamp: new Date((item[1]?.value as any)?.timestamp.toNumber())
+            };
+          });
+        }),
+        shareReplay(1)
+      );
   });
 
   public queryIssuance = memoize((currency: MaybeCurrency, at?: number) => {
@@ -252,14 +251,12 @@ export class WalletRx extends WalletBase<ApiRx> {
       return of(FN.ZERO);
     }
 
-    return this.getBlockHash(at).pipe(
-      switchMap((hash) => {
-        if (tokenName === this.nativeToken) {
-          return queryFN(this.api.query.balances.totalIssuance, hash)(currencyId);
-        }
+    const issuance$ =
+      tokenName === this.nativeToken
+        ? queryFN(this.api, this.api.query.balances.totalIssuance, at)()
+        : queryFN(this.api, this.api.query.tokens.totalIssuance, at)(currencyId);
 
-        return queryFN(this.api.query.tokens.totalIssuance, hash)(currencyId);
-      }),
+    return issuance$.pipe(
       map((data) => (!data ? new FN(0, token.decimals) : FN.fromInner(data.toString(), token.decimals))),
       shareReplay(1)
     );
@@ -271,19 +268,19 @@ export class WalletRx extends WalletBase<ApiRx> {
       const currencyId = forceToCurrencyId(this.api, currency);
       const isNativeToken = tokenName === this.nativeToken;
 
-      return this.getBlockHash(at).pipe(
-        switchMap((hash) => {
-          if (isNativeToken) {
-            return queryFN<(account: any) => Observable<AccountInfo>>(
-              this.api.query.system.account,
-              hash
-            )(account).pipe(map((data) => data.data));
-          }
-
-          return queryFN(this.api.query.tokens.accounts, hash)(account, currencyId).pipe(
-            map((data) => data)
-          ) as unknown as Observable<OrmlAccountData>;
-        }),
+      const balance$: Observable<AccountData | OrmlAccountData> = isNativeToken
+        ? queryFN<(account: any) => Observable<AccountInfo>>(
+            this.api,
+            this.api.query.system.account,
+            at
+          )(account).pipe(map((data) => data.data))
+        : (queryFN(
+            this.api,
+            this.api.query.tokens.accounts,
+            at
+          )(account, currencyId) as unknown as Observable<OrmlAccountData>);
+
+      return balance$.pipe(
         map((data) => {
           const token = this.getToken(currencyId);
 
@@ -326,14 +323,11 @@ export class WalletRx extends WalletBase<ApiRx> {
   public queryNativeBalances = memoize((account: MaybeAccount, at?: number): Observable<NativeAllBalance> => {
     const token = this.getNativeToken();
 
-    return this.getBlockHash(at).pipe(
-      switchMap((hash) => {
-        return combineLatest([
-          queryFN(this.api.query.system.account, hash)<AccountInfo>(account),
-          queryFN(this.api.query.balances.locks, hash)<Vec<BalanceLock>>(account),
-          queryFN(this.api.query.vesting.vestingSchedules, hash)<Vec<VestingScheduleOf>>(account)
-        ]);
-      }),
+    return combineLatest([
+      queryFN(this.api, this.api.query.system.account, at)<AccountInfo>(account),
+      queryFN(this.api, this.api.query.balances.locks, at)<Vec<BalanceLock>>(account),
+      queryFN(this.api, this.api.query.vesting.nativeVestingSchedules, at)<Vec<VestingScheduleOf>>(account)
+    ]).pipe(
       map(([accountInfo, locks, vestingSchedules]) => {
         const freeBalance = accountInfo.data.free;
         const lockedBalance = bnMax(accountInfo.data.miscFrozen, accountInfo.data.feeFrozen);
@@ -368,14 +362,6 @@ export class WalletRx extends WalletBase<ApiRx> {
     );
   });
 
-  private getBlockHash = memoize((at?: number | string) => {
-    if (at && typeof at === 'string') return of(at as unknown as BlockHash);
-
-    if (!at) return of('' as unknown as BlockHash);
-
-    return this.api.rpc.chain.getBlockHash(at);
-  });
-
   public checkTransfer(
     account: MaybeAccount,
     currency: MaybeCurrency,
@@ -1,8 +1,13 @@
 import { FixedPointNumber, MaybeCurrency, Token } from '@setheum.js/sdk-core';
 import { Observable } from 'rxjs';
-import { PriceProviderType } from '../wallet/price-provider/types';
+import { PriceProviderName } from '../wallet/price-provider/types';
+import { BalanceData } from '../wallet/type';
 
 export interface TokenProvider {
   subscribeToken(token: MaybeCurrency): Observable<Token>;
-  subscribePrice?: (token: MaybeCurrency, type?: PriceProviderType) => Observable<FixedPointNumber>;
+  subscribePrice?: (
+    token: MaybeCurrency,
+    type?: PriceProviderName | PriceProviderName[]
+  ) => Observable<FixedPointNumber>;
+  subscribeBalance?: (token: MaybeCurrency, address: string) => Observable<BalanceData>;
 }
@@ -6,6 +6,7 @@ interface TokenConfig {
   readonly decimals: number;
   readonly symbol: string;
   readonly display: string;
+  // the fallback of the ed when the runtime doesn't expose it
   readonly ed: FixedPointNumber;
 }
 
@@ -31,7 +32,7 @@ const DEFAULT_TOKEN_LIST: TokenListConfig = {
     DNAR: createTokenConfig('DNAR', 'DNAR', 18, new FixedPointNumber(0.1, 18)),
     HELP: createTokenConfig('HELP', 'HELP', 18, new FixedPointNumber(0.1, 18)),
     SETR: createTokenConfig('SETR', 'SETR', 18, new FixedPointNumber(0.1, 18)),
-    SETUSD: createTokenConfig('SETUSD', 'setUSD', 18, new FixedPointNumber(0.1, 18)),
+    SETUSD: createTokenConfig('SETUSD', 'setUSD', 18, new FixedPointNumber(0.1, 18))
   }
 };
 
@@ -39,3 +39,53 @@ export class TradingPairNotFound extends Error {
     this.name = 'TradingPairNotFound';
   }
 }
+
+export class TradingPairNotProvisioning extends Error {
+  constructor(name: string) {
+    super();
+
+    this.message = `the ${name} trading pair is not in provisioning`;
+    this.name = 'TradingPairNotProvisioning';
+  }
+}
+
+export class InvalidProvisionContribution extends Error {
+  constructor(reason: string) {
+    super();
+
+    this.message = `invalid provision contribution, ${reason}`;
+    this.name = 'InvalidProvisionContribution';
+  }
+}
+
+export class InsufficientBalance extends Error {
+  readonly account: string;
+  readonly token: string;
+
+  constructor(account: string, token: string, required: string) {
+    super();
+
+    this.account = account;
+    this.token = token;
+
+    this.message = `the ${token} available balance of ${account} is less than ${required}`;
+    this.name = 'InsufficientBalance';
+  }
+}
+
+export class BelowExistentialDeposit extends Error {
+  readonly account: string;
+  readonly token: string;
+
+  constructor(account: string, token: string) {
+    super();
+
+    this.account = account;
+    this.token = token;
+
+    this.message = `the ${token} balance of ${account} will be below the existential deposit`;
+    this.name = 'BelowExistentialDeposit';
+  }
+}
+
+export { MayFailedCausedByFee } from './wallet/utils/get-max-available-balance';
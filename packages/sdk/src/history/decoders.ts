@@ -0,0 +1,146 @@
+import { FixedPointNumber as FN, MaybeCurrency, Token, TokenBalance } from '@setheum.js/sdk-core';
+import { CurrencyId } from '@setheum.js/types/interfaces';
+import { Codec } from '@polkadot/types/types';
+import { BaseHistoryRecord, HistoryRecord, HistoryRecordType } from './types';
+
+export interface DecodeContext {
+  getToken: (currency: MaybeCurrency) => Promise<Token>;
+  nativeToken: Token;
+  stableToken: Token;
+}
+
+type Decoder = (data: Codec[], base: BaseHistoryRecord, context: DecodeContext) => Promise<HistoryRecord>;
+
+const toFN = (amount: Codec, token: Token) => FN.fromInner(amount.toString(), token.decimals);
+
+const decodeTokenTransfer: Decoder = async ([currency, from, to, amount], base, { getToken }) => {
+  const token = await getToken(currency as CurrencyId);
+
+  return {
+    ...base,
+    type: HistoryRecordType.TRANSFER,
+    token,
+    from: from.toString(),
+    to: to.toString(),
+    amount: toFN(amount, token)
+  };
+};
+
+const decodeLiquidity =
+  (type: HistoryRecordType.ADD_LIQUIDITY | HistoryRecordType.REMOVE_LIQUIDITY): Decoder =>
+  async ([who, currency0, pool0, currency1, pool1, share], base, { getToken }) => {
+    const token0 = await getToken(currency0 as CurrencyId);
+    const token1 = await getToken(currency1 as CurrencyId);
+    const shareToken = Token.fromTokens(token0, token1);
+
+    return {
+      ...base,
+      type,
+      who: who.toString(),
+      amounts: [new TokenBalance(token0, toFN(pool0, token0)), new TokenBalance(token1, toFN(pool1, token1))],
+      share: new TokenBalance(shareToken, toFN(share, shareToken))
+    };
+  };
+
+const decodeAuthorization =
+  (
+    type: HistoryRecordType.AUTHORIZATION | HistoryRecordType.UN_AUTHORIZATION | HistoryRecordType.UN_AUTHORIZATION_ALL
+  ): Decoder =>
+  async ([authorizer, authorizee, collateral], base, { getToken }) => {
+    return {
+      ...base,
+      type,
+      authorizer: authorizer.toString(),
+      authorizee: authorizee?.toString(),
+      collateral: collateral ? await getToken(collateral as CurrencyId) : undefined
+    };
+  };
+
+/**
+ * the decoders of supported events, keyed by `section.method`
+ */
+export const decoders: Record<string, Decoder> = {
+  'balances.Transfer': async ([from, to, amount], base, { nativeToken }) => {
+    return {
+      ...base,
+      type: HistoryRecordType.TRANSFER,
+      token: nativeToken,
+      from: from.toString(),
+      to: to.toString(),
+      amount: toFN(amount, nativeToken)
+    };
+  },
+  'tokens.Transfer': decodeTokenTransfer,
+  'currencies.Transferred': decodeTokenTransfer,
+  'dex.Swap': async ([trader, path, changes], base, { getToken }) => {
+    const tokens = await Promise.all((path as unknown as CurrencyId[]).map((item) => getToken(item)));
+    const amounts = changes as unknown as Codec[];
+    const input = tokens[0];
+    const output = tokens[tokens.length - 1];
+
+    return {
+      ...base,
+      type: HistoryRecordType.SWAP,
+      trader: trader.toString(),
+      path: tokens,
+      input: new TokenBalance(input, toFN(amounts[0], input)),
+      output: new TokenBalance(output, toFN(amounts[amounts.length - 1], output))
+    };
+  },
+  'dex.AddLiquidity': decodeLiquidity(HistoryRecordType.ADD_LIQUIDITY),
+  'dex.RemoveLiquidity': decodeLiquidity(HistoryRecordType.REMOVE_LIQUIDITY),
+  'dex.AddProvision': async ([who, currency0, contribution0, currency1, contribution1], base, { getToken }) => {
+    const token0 = await getToken(currency0 as CurrencyId);
+    const token1 = await getToken(currency1 as CurrencyId);
+
+    return {
+      ...base,
+      type: HistoryRecordType.ADD_PROVISION,
+      who: who.toString(),
+      amounts: [
+        new TokenBalance(token0, toFN(contribution0, token0)),
+        new TokenBalance(token1, toFN(contribution1, token1))
+      ]
+    };
+  },
+  'loans.PositionUpdated': async ([owner, currency, collateral, debit], base, { getToken, stableToken }) => {
+    const token = await getToken(currency as CurrencyId);
+
+    return {
+      ...base,
+      type: HistoryRecordType.POSITION_UPDATED,
+      owner: owner.toString(),
+      collateral: token,
+      collateralAdjustment: toFN(collateral, token),
+      debitAdjustment: toFN(debit, stableToken)
+    };
+  },
+  'loans.ConfiscateCollateralAndDebit': async (
+    [owner, currency, collateral, debit],
+    base,
+    { getToken, stableToken }
+  ) => {
+    const token = await getToken(currency as CurrencyId);
+
+    return {
+      ...base,
+      type: HistoryRecordType.CONFISCATE_COLLATERAL_AND_DEBIT,
+      owner: owner.toString(),
+      collateral: token,
+      confiscatedCollateral: toFN(collateral, token),
+      deductDebit: toFN(debit, stableToken)
+    };
+  },
+  'loans.TransferLoan': async ([from, to, currency], base, { getToken }) => {
+    return {
+      ...base,
+      type: HistoryRecordType.TRANSFER_LOAN,
+      from: from.toString(),
+      to: to.toString(),
+      collateral: await getToken(currency as CurrencyId)
+    };
+  },
+  'setmint.Authorization': decodeAuthorization(HistoryRecordType.AUTHORIZATION),
+  'setmint.UnAuthorization': decodeAuthorization(HistoryRecordType.UN_AUTHORIZATION),
+  'setmint.UnAuthorizationAll': decodeAuthorization(HistoryRecordType.UN_AUTHORIZATION_ALL)
+};
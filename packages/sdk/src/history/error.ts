@@ -0,0 +1,8 @@
+export class HistoryRangeTooLarge extends Error {
+  constructor(maxRange: number) {
+    super();
+
+    this.message = `the block range of history query should not be larger than ${maxRange}`;
+    this.name = 'HistoryRangeTooLarge';
+  }
+}
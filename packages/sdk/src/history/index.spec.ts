@@ -0,0 +1,102 @@
+import { ApiRx } from '@polkadot/api';
+import { Token } from '@setheum.js/sdk-core';
+import { of } from 'rxjs';
+import { CurrencyNotFound } from '../errors';
+import { Wallet } from '../wallet';
+import { HistoryRangeTooLarge } from './error';
+import { HistoryRecordType, TransferRecord } from './types';
+import { AccountHistory } from '.';
+
+describe('account history', () => {
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  const tokens: Record<string, Token> = {
+    SETM: new Token('SETM', { decimals: 12 }),
+    SETUSD: new Token('SETUSD', { decimals: 6 })
+  };
+
+  const createEvent = (section: string, method: string, data: string[], extrinsicIndex = 1) => ({
+    event: { section, method, data },
+    phase: { isApplyExtrinsic: true, asApplyExtrinsic: { toNumber: () => extrinsicIndex } }
+  });
+
+  const createHistory = (events: unknown[]) => {
+    const decoration = {
+      rx: {
+        query: {
+          system: { events: () => of(events) },
+          timestamp: { now: () => of({ toNumber: () => 1000 }) }
+        }
+      }
+    };
+    const api = {
+      type: 'rxjs',
+      registry: { chainTokens: ['SETM'] },
+      consts: { cdpEngine: { getSetUSDId: 'SETUSD' } },
+      createType: (_: string, data: string) => data,
+      rpc: { chain: { getBlockHash: (at: number) => of(`0x${at}`) } },
+      at: () => Promise.resolve(decoration)
+    };
+    const wallet = {
+      getToken: (name: string) => {
+        if (name === 'BROKEN') return Promise.reject(new Error('unexpected'));
+
+        return tokens[name] ? Promise.resolve(tokens[name]) : Promise.reject(new CurrencyNotFound(name));
+      }
+    };
+
+    return new AccountHistory(api as unknown as ApiRx, wallet as unknown as Wallet);
+  };
+
+  test('decode the transfers of the account', async () => {
+    const history = createHistory([
+      createEvent('balances', 'Transfer', [alice, bob, '1500000000000']),
+      createEvent('tokens', 'Transfer', ['SETUSD', bob, bob, '1000000'])
+    ]);
+    const records = (await history.getHistory(alice, 1, 1)) as TransferRecord[];
+
+    expect(records).toHaveLength(1);
+    expect(records[0].type).toBe(HistoryRecordType.TRANSFER);
+    expect(records[0].token).toBe(tokens.SETM);
+    expect(records[0].amount.toNumber()).toBe(1.5);
+    expect(records[0].blockHash).toBe('0x1');
+    expect(records[0].timestamp).toBe(1000);
+  });
+
+  test('dedupe the transfer events of the currencies module but keep the transfers in one batch', async () => {
+    const transfer = ['SETUSD', alice, bob, '1000000'];
+    const history = createHistory([
+      createEvent('tokens', 'Transfer', transfer),
+      createEvent('currencies', 'Transferred', transfer),
+      createEvent('tokens', 'Transfer', transfer),
+      createEvent('currencies', 'Transferred', transfer),
+      createEvent('tokens', 'Transfer', transfer, 2)
+    ]);
+    const records = (await history.getHistory(alice, 1, 1)) as TransferRecord[];
+
+    expect(records.map((item) => [item.section, item.eventIndex, item.extrinsicIndex])).toEqual([
+      ['tokens', 0, 1],
+      ['tokens', 2, 1],
+      ['tokens', 4, 2]
+    ]);
+  });
+
+  test('skip the events of unknown currencies', async () => {
+    const history = createHistory([createEvent('tokens', 'Transfer', ['UNKNOWN', alice, bob, '1000000'])]);
+
+    expect(await history.getHistory(alice, 1, 1)).toEqual([]);
+  });
+
+  test('throw the unexpected decode errors', async () => {
+    const history = createHistory([createEvent('tokens', 'Transfer', ['BROKEN', alice, bob, '1000000'])]);
+
+    await expect(history.getHistory(alice, 1, 1)).rejects.toThrow('unexpected');
+  });
+
+  test('throw error if the block range is too large', async () => {
+    const history = createHistory([]);
+
+    await expect(history.getHistory(alice, 1, 1001)).rejects.toThrow(HistoryRangeTooLarge);
+    expect(await history.getHistory(alice, 2, 1)).toEqual([]);
+  });
+});
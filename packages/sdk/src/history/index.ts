@@ -0,0 +1,195 @@
+/**
+ * The account history sdk decodes the activities of an account from the system events of a small block range,
+ * it is not a replacement of the indexer for large ranges
+ */
+
+import { ConvertToCurrencyNameFailed } from '@setheum.js/sdk-core/errors';
+import { AnyApi, forceToCurrencyName, getApiAt, getBlockHashAt, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { memoize } from '@polkadot/util';
+import { Vec } from '@polkadot/types';
+import { BlockNumber, EventRecord, Moment } from '@polkadot/types/interfaces';
+import { Codec } from '@polkadot/types/types';
+import { BehaviorSubject, firstValueFrom, from, Observable } from 'rxjs';
+import { concatMap, filter } from 'rxjs/operators';
+import { CurrencyNotFound } from '../errors';
+import { BaseSDK } from '../types';
+import { Storage, StorageManager } from '../utils/storage';
+import { Wallet } from '../wallet';
+import { DecodeContext, decoders } from './decoders';
+import { HistoryRangeTooLarge } from './error';
+import { HistoryQueryConfigs, HistoryRecord, HistoryRecordType, TransferRecord } from './types';
+
+// the events of unknown or unsupported currencies are skipped, other errors are thrown
+const isUnsupportedCurrencyError = (e: unknown) => {
+  return e instanceof CurrencyNotFound || e instanceof ConvertToCurrencyNameFailed;
+};
+
+export class AccountHistory implements BaseSDK {
+  private api: AnyApi;
+  private wallet: Wallet;
+  private configs: Required<HistoryQueryConfigs>;
+
+  public isReady$: BehaviorSubject<boolean>;
+
+  constructor(api: AnyApi, wallet: Wallet, configs: HistoryQueryConfigs = {}) {
+    this.api = api;
+    this.wallet = wallet;
+    this.configs = {
+      concurrency: configs.concurrency || 10,
+      maxRange: configs.maxRange || 1000
+    };
+    this.isReady$ = new BehaviorSubject<boolean>(true);
+  }
+
+  public get isReady(): Promise<boolean> {
+    return firstValueFrom(this.isReady$.pipe(filter((i) => i)));
+  }
+
+  /**
+   * @name dispose
+   * @description release the storages created by the module, the storages shared with other sdk modules are kept
+   */
+  public dispose(): void {
+    StorageManager.get(this.api).release(this);
+  }
+
+  /**
+   * @name getHistory
+   * @description get the history records of `address` from block `start` to block `end`, both are included
+   */
+  public async getHistory(address: string, start: number, end: number): Promise<HistoryRecord[]> {
+    const { concurrency, maxRange } = this.configs;
+
+    if (end < start) return [];
+
+    if (end - start + 1 > maxRange) throw new HistoryRangeTooLarge(maxRange);
+
+    const account = this.api.createType('AccountId', address).toString();
+    const context = await this.getDecodeContext();
+    const result: HistoryRecord[] = [];
+
+    for (let i = start; i <= end; i += concurrency) {
+      const blocks = Array.from({ length: Math.min(concurrency, end - i + 1) }, (_, j) => i + j);
+      const records = await Promise.all(blocks.map((item) => this.getBlockHistory(account, item, context)));
+
+      records.forEach((item) => result.push(...item));
+    }
+
+    return result;
+  }
+
+  /**
+   * @name subscribeHistory
+   * @description subscribe the history records of `address` in the new blocks
+   */
+  public subscribeHistory = memoize((address: string): Observable<HistoryRecord[]> => {
+    const account = this.api.createType('AccountId', address).toString();
+
+    return Storage.create<BlockNumber>({
+      api: this.api,
+      path: 'query.system.number',
+      params: [],
+      owner: this
+    }).observable.pipe(
+      concatMap((blockNumber) =>
+        from(this.getDecodeContext().then((context) => this.getBlockHistory(account, blockNumber.toNumber(), context)))
+      ),
+      filter((records) => records.length !== 0)
+    );
+  });
+
+  private async getDecodeContext(): Promise<DecodeContext> {
+    const tokens = new Map<string, Promise<Token>>();
+    const getToken = (currency: MaybeCurrency) => {
+      const name = forceToCurrencyName(currency);
+
+      if (!tokens.has(name)) tokens.set(name, this.wallet.getToken(name));
+
+      return tokens.get(name) as Promise<Token>;
+    };
+
+    const [nativeToken, stableToken] = await Promise.all([
+      getToken(this.api.registry.chainTokens[0]),
+      getToken(this.api.consts.cdpEngine.getSetUSDId)
+    ]);
+
+    return { getToken, nativeToken, stableToken };
+  }
+
+  private async getBlockHistory(
+    account: string,
+    blockNumber: number,
+    context: DecodeContext
+  ): Promise<HistoryRecord[]> {
+    const [decoration, blockHash] = await Promise.all([
+      getApiAt(this.api, blockNumber),
+      getBlockHashAt(this.api, blockNumber)
+    ]);
+    const [events, timestamp] = await Promise.all([
+      firstValueFrom(decoration.rx.query.system.events<Vec<EventRecord>>()),
+      firstValueFrom(decoration.rx.query.timestamp.now<Moment>()).catch(() => undefined)
+    ]);
+
+    const records = await Promise.all(
+      events.map(async ({ event, phase }, eventIndex) => {
+        const decoder = decoders[`${event.section}.${event.method}`];
+        const data = event.data as unknown as Codec[];
+
+        // only decode the events which are related to the account
+        if (!decoder || !data.some((item) => item.toString() === account)) return undefined;
+
+        try {
+          return await decoder(
+            data,
+            {
+              section: event.section,
+              method: event.method,
+              blockNumber,
+              blockHash,
+              eventIndex,
+              extrinsicIndex: phase.isApplyExtrinsic ? phase.asApplyExtrinsic.toNumber() : undefined,
+              timestamp: timestamp?.toNumber()
+            },
+            context
+          );
+        } catch (e) {
+          if (isUnsupportedCurrencyError(e)) return undefined;
+
+          throw e;
+        }
+      })
+    );
+
+    return this.dedupeTransfers(records.filter((item): item is HistoryRecord => !!item));
+  }
+
+  /**
+   * the transfer through currencies module emits both `currencies.Transferred` and the transfer event of the underlying
+   * module, so a transfer event is dropped when it pairs with an unpaired earlier event of another section.
+   * the transfers of the same extrinsic (e.g. a batch) are kept because every event can only be paired once.
+   */
+  private dedupeTransfers(records: HistoryRecord[]): HistoryRecord[] {
+    const unpaired = new Map<string, TransferRecord[]>();
+
+    return records.filter((item) => {
+      if (item.type !== HistoryRecordType.TRANSFER) return true;
+
+      const key = [item.extrinsicIndex, item.token.name, item.from, item.to, item.amount.toChainData()].join('|');
+      const candidates = unpaired.get(key) || [];
+      const paired = candidates.find((candidate) => candidate.section !== item.section);
+
+      if (paired) {
+        unpaired.set(
+          key,
+          candidates.filter((candidate) => candidate !== paired)
+        );
+
+        return false;
+      }
+
+      unpaired.set(key, [...candidates, item]);
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { FixedPointNumber, Token, TokenBalance } from '@setheum.js/sdk-core';
+
+export enum HistoryRecordType {
+  TRANSFER = 'Transfer',
+  SWAP = 'Swap',
+  ADD_LIQUIDITY = 'AddLiquidity',
+  REMOVE_LIQUIDITY = 'RemoveLiquidity',
+  ADD_PROVISION = 'AddProvision',
+  POSITION_UPDATED = 'PositionUpdated',
+  CONFISCATE_COLLATERAL_AND_DEBIT = 'ConfiscateCollateralAndDebit',
+  TRANSFER_LOAN = 'TransferLoan',
+  AUTHORIZATION = 'Authorization',
+  UN_AUTHORIZATION = 'UnAuthorization',
+  UN_AUTHORIZATION_ALL = 'UnAuthorizationAll'
+}
+
+export interface BaseHistoryRecord {
+  section: string; // the event section
+  method: string; // the event method
+  blockNumber: number;
+  blockHash: string;
+  eventIndex: number; // the index of the event in the block
+  extrinsicIndex?: number; // the index of the extrinsic which emits the event
+  timestamp?: number; // the timestamp of the block in milliseconds
+}
+
+export interface TransferRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.TRANSFER;
+  token: Token;
+  from: string;
+  to: string;
+  amount: FixedPointNumber;
+}
+
+export interface SwapRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.SWAP;
+  trader: string;
+  path: Token[];
+  input: TokenBalance;
+  output: TokenBalance;
+}
+
+export interface LiquidityRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.ADD_LIQUIDITY | HistoryRecordType.REMOVE_LIQUIDITY;
+  who: string;
+  amounts: [TokenBalance, TokenBalance];
+  share: TokenBalance; // the increment or the decrement of the dex share
+}
+
+export interface AddProvisionRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.ADD_PROVISION;
+  who: string;
+  amounts: [TokenBalance, TokenBalance];
+}
+
+export interface PositionUpdatedRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.POSITION_UPDATED;
+  owner: string;
+  collateral: Token;
+  collateralAdjustment: FixedPointNumber;
+  debitAdjustment: FixedPointNumber; // the debit adjustment in the decimal of stable coin, not the debit amount
+}
+
+export interface ConfiscateCollateralAndDebitRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.CONFISCATE_COLLATERAL_AND_DEBIT;
+  owner: string;
+  collateral: Token;
+  confiscatedCollateral: FixedPointNumber;
+  deductDebit: FixedPointNumber;
+}
+
+export interface TransferLoanRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.TRANSFER_LOAN;
+  from: string;
+  to: string;
+  collateral: Token;
+}
+
+export interface AuthorizationRecord extends BaseHistoryRecord {
+  type: HistoryRecordType.AUTHORIZATION | HistoryRecordType.UN_AUTHORIZATION | HistoryRecordType.UN_AUTHORIZATION_ALL;
+  authorizer: string;
+  authorizee?: string;
+  collateral?: Token;
+}
+
+export type HistoryRecord =
+  | TransferRecord
+  | SwapRecord
+  | LiquidityRecord
+  | AddProvisionRecord
+  | PositionUpdatedRecord
+  | ConfiscateCollateralAndDebitRecord
+  | TransferLoanRecord
+  | AuthorizationRecord;
+
+export interface HistoryQueryConfigs {
+  // the count of blocks which are queried in parallel
+  concurrency?: number;
+  // the max count of blocks in one query
+  maxRange?: number;
+}
@@ -1,5 +1,14 @@
 export * from './errors';
 export * from './wallet';
+export * from './wallet/type';
+export * from './wallet/price-provider';
 export * from './liquidity';
+export * from './vault';
+export * from './vesting';
+export * from './vesting/type';
+export * from './nft';
+export * from './nft/type';
+export * from './history';
+export * from './history/types';
+export { StorageManager } from './utils/storage';
 export * from './types';
-export * from './errors';
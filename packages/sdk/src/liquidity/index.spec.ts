@@ -0,0 +1,184 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { of } from 'rxjs';
+import { InsufficientBalance, InvalidProvisionContribution } from '..';
+import { TokenProvider } from '../base-provider';
+import { BalanceData } from '../wallet/type';
+import { Liquidity } from '.';
+import { LiquidityPoolStatus, PoolDetail, PoolInfo, ProvisionDetail } from './types';
+import { getEstimateAddLiquidityResult } from './utils/get-estimate-add-liquidity-result';
+import { getEstimateRemoveLiquidityResult } from './utils/get-estimate-remove-liquidity-result';
+
+describe('liquidity', () => {
+  const setm = new Token('SETM', { decimals: 12 });
+  const setusd = new Token('SETUSD', { decimals: 6 });
+  const info: PoolInfo = {
+    token: Token.fromTokens(setm, setusd),
+    pair: [setm, setusd],
+    status: LiquidityPoolStatus.PROVISION
+  };
+
+  const createDexCall = (argsLength: number) => {
+    return Object.assign(
+      jest.fn((...params: unknown[]) => params),
+      { meta: { args: { length: argsLength } } }
+    );
+  };
+
+  const createLiquidity = (tokenProvider: Partial<TokenProvider> = {}, argsLength = 5) => {
+    const api = {
+      type: 'rxjs',
+      createType: (_: string, data: unknown) => data,
+      tx: {
+        dex: {
+          addProvision: jest.fn((...params: unknown[]) => params),
+          addLiquidity: createDexCall(argsLength),
+          removeLiquidity: createDexCall(argsLength)
+        }
+      }
+    };
+    const liquidity = new Liquidity(api as unknown as ApiRx, tokenProvider as TokenProvider);
+
+    return { api, liquidity };
+  };
+
+  describe('add provision', () => {
+    const detail: ProvisionDetail = {
+      info,
+      minContribution: [new FN(1, 12), new FN(10, 6)],
+      targetProvision: [new FN(1000, 12), new FN(1000, 6)],
+      accumulatedProvision: [FN.ZERO, FN.ZERO],
+      notBefore: 0,
+      isTargetReached: false
+    };
+
+    test('encode the amounts with the decimals of each token', async () => {
+      const { api, liquidity } = createLiquidity();
+
+      jest.spyOn(liquidity, 'subscribeProvisionDetail').mockReturnValue(of(detail));
+
+      // the amounts are in the default precision 18
+      await liquidity.createAddProvision(info.token, [new FN(1.5), new FN(20)]);
+
+      expect(api.tx.dex.addProvision).toHaveBeenCalledWith(
+        { Token: 'SETM' },
+        { Token: 'SETUSD' },
+        '1500000000000',
+        '20000000'
+      );
+    });
+
+    test('validate the contribution', async () => {
+      const { liquidity } = createLiquidity();
+
+      jest.spyOn(liquidity, 'subscribeProvisionDetail').mockReturnValue(of(detail));
+
+      await expect(liquidity.createAddProvision(info.token, [FN.ZERO, FN.ZERO])).rejects.toThrow(
+        InvalidProvisionContribution
+      );
+      await expect(liquidity.createAddProvision(info.token, [new FN(-1), new FN(20)])).rejects.toThrow(
+        InvalidProvisionContribution
+      );
+      await expect(liquidity.createAddProvision(info.token, [FN.ZERO, new FN(5)])).rejects.toThrow(
+        InvalidProvisionContribution
+      );
+    });
+  });
+
+  describe('add and remove liquidity', () => {
+    const token0 = new Token('SETM', { decimals: 18 });
+    const token1 = new Token('SETUSD', { decimals: 18 });
+    const from = 'alice';
+
+    // 1000 SETM / 4000 SETUSD with 2000 share
+    const createPoolDetail = (): PoolDetail => ({
+      share: new FN(2000),
+      amounts: [new FN(1000), new FN(4000)],
+      info: { token: Token.fromTokens(token0, token1), pair: [token0, token1], status: LiquidityPoolStatus.ENABLED }
+    });
+
+    const createBalanceProvider = (balances: Record<string, number>): Partial<TokenProvider> => ({
+      subscribeBalance: (token: MaybeCurrency) => {
+        const available = new FN(balances[forceToCurrencyName(token)] || 0);
+
+        return of({ token, free: available, locked: FN.ZERO, reserved: FN.ZERO, available } as BalanceData);
+      }
+    });
+
+    test('add liquidity with the slippage adjusted min share', async () => {
+      const { api, liquidity } = createLiquidity(createBalanceProvider({ SETM: 100, SETUSD: 100 }));
+      // the SETUSD is more than the pool ratio, so only 40 SETUSD is added
+      const estimate = getEstimateAddLiquidityResult(createPoolDetail(), token0, token1, new FN(10), new FN(100), 0.01);
+
+      await liquidity.createAddLiquidity(estimate, { from });
+
+      expect(api.tx.dex.addLiquidity).toHaveBeenCalledWith(
+        { Token: 'SETM' },
+        { Token: 'SETUSD' },
+        '10000000000000000000',
+        '40000000000000000000',
+        '19800000000000000000'
+      );
+    });
+
+    test('append the stake flag when the runtime supports it', async () => {
+      const { api, liquidity } = createLiquidity(createBalanceProvider({ SETM: 100, SETUSD: 100 }), 6);
+      const estimate = getEstimateAddLiquidityResult(createPoolDetail(), token1, token0, new FN(40), new FN(10), 0);
+
+      await liquidity.createAddLiquidity(estimate, { from, stakeIncrementShare: true });
+
+      expect(api.tx.dex.addLiquidity).toHaveBeenCalledWith(
+        { Token: 'SETUSD' },
+        { Token: 'SETM' },
+        '40000000000000000000',
+        '10000000000000000000',
+        '20000000000000000000',
+        true
+      );
+    });
+
+    test('throw InsufficientBalance if the balance is not enough', async () => {
+      const { api, liquidity } = createLiquidity(createBalanceProvider({ SETM: 100, SETUSD: 20 }));
+      const estimate = getEstimateAddLiquidityResult(createPoolDetail(), token0, token1, new FN(10), new FN(100), 0.01);
+
+      await expect(liquidity.createAddLiquidity(estimate, { from })).rejects.toThrow(InsufficientBalance);
+      expect(api.tx.dex.addLiquidity).not.toHaveBeenCalled();
+    });
+
+    test('remove liquidity with the slippage adjusted min received', async () => {
+      const { api, liquidity } = createLiquidity(createBalanceProvider({ [createPoolDetail().info.token.name]: 20 }));
+      const estimate = getEstimateRemoveLiquidityResult(createPoolDetail(), new FN(20), 0.01);
+
+      await liquidity.createRemoveLiquidity(estimate, { from });
+
+      expect(api.tx.dex.removeLiquidity).toHaveBeenCalledWith(
+        { Token: 'SETM' },
+        { Token: 'SETUSD' },
+        '20000000000000000000',
+        '9900000000000000000',
+        '39600000000000000000'
+      );
+    });
+
+    test('check the share balance unless it is removed by unstake', async () => {
+      const provider = createBalanceProvider({});
+
+      await expect(
+        createLiquidity(provider).liquidity.createRemoveLiquidity(
+          getEstimateRemoveLiquidityResult(createPoolDetail(), new FN(20), 0.01),
+          { from }
+        )
+      ).rejects.toThrow(InsufficientBalance);
+
+      const { api, liquidity } = createLiquidity(provider, 6);
+
+      await liquidity.createRemoveLiquidity(getEstimateRemoveLiquidityResult(createPoolDetail(), new FN(20), 0.01), {
+        from,
+        byUnstake: true
+      });
+
+      expect(api.tx.dex.removeLiquidity).toHaveBeenCalledTimes(1);
+      expect(api.tx.dex.removeLiquidity.mock.calls[0][5]).toBe(true);
+    });
+  });
+});
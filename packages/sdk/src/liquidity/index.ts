@@ -1,16 +1,50 @@
-import { AnyApi, FixedPointNumber, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import {
+  AnyApi,
+  createDexLiquidityCall,
+  FixedPointNumber,
+  forceToCurrencyName,
+  hasDexStakeFlag,
+  MaybeCurrency,
+  Token
+} from '@setheum.js/sdk-core';
 import { TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
+import { ApiPromise } from '@polkadot/api';
+import { ApiTypes, SubmittableExtrinsic } from '@polkadot/api/types';
 import { StorageKey } from '@polkadot/types';
+import { Codec, ITuple } from '@polkadot/types/types';
 import { memoize } from '@polkadot/util';
-import { BehaviorSubject, combineLatest, firstValueFrom, Observable } from 'rxjs';
+import { BehaviorSubject, combineLatest, firstValueFrom, Observable, of } from 'rxjs';
 import { map, switchMap, filter } from 'rxjs/operators';
-import { TradingPairNotFound } from '..';
+import { InsufficientBalance, InvalidProvisionContribution, TradingPairNotFound, TradingPairNotProvisioning } from '..';
 import { TokenProvider } from '../base-provider';
+import { LiquidityRecord } from '../history/types';
 import { BaseSDK } from '../types';
+import { StorageManager } from '../utils/storage';
 import { createStorages } from './storage';
-import { PoolDetail, LiquidityPoolStatus, PoolInfo, UserLiquidity } from './types';
+import {
+  AddLiquidityOptions,
+  EstimateAddLiquidityResult,
+  EstimateRemoveLiquidityResult,
+  LiquidityAnalytics,
+  LiquiditySnapshot,
+  PoolDetail,
+  LiquidityPoolStatus,
+  PoolInfo,
+  UserLiquidity,
+  ProvisionDetail,
+  UserProvision,
+  UnclaimedDexShare,
+  RemoveLiquidityOptions
+} from './types';
 import { getEstimateAddLiquidityResult } from './utils/get-estimate-add-liquidity-result';
 import { getEstimateRemoveLiquidityResult } from './utils/get-estimate-remove-liquidity-result';
+import { getLiquidityAnalytics } from './utils/get-liquidity-analytics';
+import { getProvisionShare, getProvisionShareExchangeRates } from './utils/get-provision-share';
+
+const toAmounts = (data: ITuple<[Codec, Codec]>, pair: [Token, Token]): [FixedPointNumber, FixedPointNumber] => [
+  FixedPointNumber.fromInner(data[0].toString(), pair[0].decimals),
+  FixedPointNumber.fromInner(data[1].toString(), pair[1].decimals)
+];
 
 export class Liquidity implements BaseSDK {
   private api: AnyApi;
@@ -21,7 +55,7 @@ export class Liquidity implements BaseSDK {
 
   constructor(api: AnyApi, tokenProvider: TokenProvider) {
     this.api = api;
-    this.storages = createStorages(this.api);
+    this.storages = createStorages(this.api, this);
     this.tokenProvider = tokenProvider;
     this.isReady$ = new BehaviorSubject<boolean>(true);
   }
@@ -30,6 +64,14 @@ export class Liquidity implements BaseSDK {
     return firstValueFrom(this.isReady$.pipe(filter((i) => i)));
   }
 
+  /**
+   * @name dispose
+   * @description release the storages created by the module, the storages shared with other sdk modules are kept
+   */
+  public dispose(): void {
+    StorageManager.get(this.api).release(this);
+  }
+
   /**
    * @name subscribePoolListByStatus
    * @description get pool list which filtered by status
@@ -267,4 +309,307 @@ export class Liquidity implements BaseSDK {
       })
     );
   });
+
+  /**
+   * @name subscribeProvisionDetail
+   * @description subscribe the provisioning parameters and the accumulated provision of `token`
+   */
+  public subscribeProvisionDetail = memoize((token: MaybeCurrency): Observable<ProvisionDetail> => {
+    const detail$ = (info: PoolInfo) => {
+      const [name1, name2] = info.pair.map((item) => forceToCurrencyName(item));
+
+      return this.storages.tradingPairs().observable.pipe(
+        map((list) => {
+          const target = list.find(([key]) => {
+            const pair = key.args[0];
+
+            return forceToCurrencyName(pair[0]) === name1 && forceToCurrencyName(pair[1]) === name2;
+          });
+
+          if (!target) throw new TradingPairNotFound(forceToCurrencyName(info.token));
+
+          if (!target[1].isProvisioning) throw new TradingPairNotProvisioning(forceToCurrencyName(info.token));
+
+          const { minContribution, targetProvision, accumulatedProvision, notBefore } = target[1].asProvisioning;
+          const accumulated = toAmounts(accumulatedProvision, info.pair);
+          const targetAmounts = toAmounts(targetProvision, info.pair);
+
+          return {
+            info,
+            minContribution: toAmounts(minContribution, info.pair),
+            targetProvision: targetAmounts,
+            accumulatedProvision: accumulated,
+            notBefore: notBefore.toNumber(),
+            isTargetReached: accumulated[0].gte(targetAmounts[0]) && accumulated[1].gte(targetAmounts[1])
+          };
+        })
+      );
+    };
+
+    return this.subscribePoolInfo(token).pipe(switchMap(detail$));
+  });
+
+  /**
+   * @name subscribeAllProvisions
+   * @description subscribe all provisioning pools detail
+   */
+  public subscribeAllProvisions = memoize((): Observable<Record<string, ProvisionDetail>> => {
+    return this.subscribePoolListByStatus(LiquidityPoolStatus.PROVISION).pipe(
+      switchMap((data) => {
+        if (!data.length) return of({});
+
+        return combineLatest(
+          Object.fromEntries(
+            data.map((item) => [forceToCurrencyName(item.token), this.subscribeProvisionDetail(item.token)])
+          )
+        );
+      })
+    );
+  });
+
+  /**
+   * @name subscribeUserProvision
+   * @description subscribe the contribution of `address` in the `token` provisioning pool,
+   * and estimate the dex share which will be received when the provisioning ends
+   */
+  public subscribeUserProvision = memoize((address: string, token: MaybeCurrency): Observable<UserProvision> => {
+    const userProvision$ = (provisionDetail: ProvisionDetail) => {
+      const { info, accumulatedProvision } = provisionDetail;
+
+      return this.storages.provisioningPool(address, info.token).observable.pipe(
+        map((data) => {
+          const contribution = toAmounts(data, info.pair);
+          const rates = getProvisionShareExchangeRates(accumulatedProvision);
+          const estimatedShare = getProvisionShare(contribution, rates, info.token.decimals);
+          const totalShare = getProvisionShare(accumulatedProvision, rates, info.token.decimals);
+
+          return {
+            contribution,
+            estimatedShare,
+            ratio: totalShare.gt(FixedPointNumber.ZERO) ? estimatedShare.div(totalShare) : FixedPointNumber.ZERO,
+            provisionDetail
+          };
+        })
+      );
+    };
+
+    return this.subscribeProvisionDetail(token).pipe(switchMap(userProvision$));
+  });
+
+  /**
+   * @name subscribeUnclaimedDexShares
+   * @description subscribe the dex shares of `address` which are not claimed after the provisioning pools are enabled
+   */
+  public subscribeUnclaimedDexShares = memoize((address: string): Observable<Record<string, UnclaimedDexShare>> => {
+    const unclaimed$ = (info: PoolInfo) => {
+      return combineLatest({
+        contribution: this.storages.provisioningPool(address, info.token).observable,
+        rates: this.storages.initialShareExchangeRates(info.token).observable
+      }).pipe(
+        map(({ contribution, rates }) => {
+          const amounts = toAmounts(contribution, info.pair);
+          const exchangeRates = [
+            FixedPointNumber.fromInner(rates[0].toString()),
+            FixedPointNumber.fromInner(rates[1].toString())
+          ] as [FixedPointNumber, FixedPointNumber];
+
+          return {
+            info,
+            contribution: amounts,
+            share: getProvisionShare(amounts, exchangeRates, info.token.decimals)
+          };
+        })
+      );
+    };
+
+    return this.subscribePoolListByStatus(LiquidityPoolStatus.ENABLED).pipe(
+      switchMap((data) => {
+        if (!data.length) return of([]);
+
+        return combineLatest(data.map(unclaimed$));
+      }),
+      map((list) => {
+        return Object.fromEntries(
+          list
+            .filter((item) => !item.contribution[0].isZero() || !item.contribution[1].isZero())
+            .map((item) => [forceToCurrencyName(item.info.token), item])
+        );
+      })
+    );
+  });
+
+  /**
+   * @name createAddProvision
+   * @description contribute `amounts` to the `token` provisioning pool,
+   * the non-zero amounts should not be less than the min contribution
+   */
+  public async createAddProvision(
+    token: MaybeCurrency,
+    amounts: [FixedPointNumber, FixedPointNumber]
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const { info, minContribution } = await firstValueFrom(this.subscribeProvisionDetail(token));
+
+    if (amounts.some((item) => !item.isFinaite() || item.isNegative())) {
+      throw new InvalidProvisionContribution('the amounts should not be negative');
+    }
+
+    if (amounts.every((item) => item.isZero())) {
+      throw new InvalidProvisionContribution('at least one of the amounts should be positive');
+    }
+
+    amounts.forEach((item, i) => {
+      if (!item.isZero() && item.lt(minContribution[i])) {
+        throw new InvalidProvisionContribution(
+          `the ${info.pair[i].display} amount should not be less than ${minContribution[i].toString()}`
+        );
+      }
+    });
+
+    return (this.api as ApiPromise).tx.dex.addProvision(
+      info.pair[0].toCurrencyId(this.api),
+      info.pair[1].toCurrencyId(this.api),
+      this.toChainAmount(amounts[0], info.pair[0].decimals),
+      this.toChainAmount(amounts[1], info.pair[1].decimals)
+    );
+  }
+
+  /**
+   * @name createClaimDexShare
+   * @description claim the dex share of `owner` in the `token` pool which is enabled from provisioning
+   */
+  public async createClaimDexShare(owner: string, token: MaybeCurrency): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const { pair } = await firstValueFrom(this.subscribePoolInfo(token));
+
+    return (this.api as ApiPromise).tx.dex.claimDexShare(
+      owner,
+      pair[0].toCurrencyId(this.api),
+      pair[1].toCurrencyId(this.api)
+    );
+  }
+
+  // the amount may be in another precision, align it to the token decimals before encoding
+  private toChainAmount(amount: FixedPointNumber, decimals: number): string {
+    const temp = amount.clone();
+
+    temp.setPrecision(decimals);
+
+    return temp.toChainData();
+  }
+
+  private async checkBalance(address: string, token: Token, amount: FixedPointNumber): Promise<void> {
+    // the balances can only be checked when the token provider is able to subscribe balance, such as Wallet
+    if (!this.tokenProvider.subscribeBalance) return;
+
+    const { available } = await firstValueFrom(this.tokenProvider.subscribeBalance(token, address));
+
+    if (available.lt(amount)) throw new InsufficientBalance(address, token.display, amount.toString());
+  }
+
+  /**
+   * @name createAddLiquidity
+   * @description create the add liquidity extrinsic from the estimate result,
+   * the increments are used as the max amounts and the increment share with slippage is used as the min share increment
+   */
+  public async createAddLiquidity(
+    estimate: EstimateAddLiquidityResult,
+    options: AddLiquidityOptions
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const { tokenA, tokenB, incrementA, incrementB, incrementShareWithSlippage } = estimate;
+    const { from, stakeIncrementShare } = options;
+
+    await this.checkBalance(from, tokenA, incrementA);
+    await this.checkBalance(from, tokenB, incrementB);
+
+    return createDexLiquidityCall(
+      this.api,
+      'addLiquidity',
+      [
+        tokenA.toCurrencyId(this.api),
+        tokenB.toCurrencyId(this.api),
+        incrementA.toChainData(),
+        incrementB.toChainData(),
+        incrementShareWithSlippage.toChainData()
+      ],
+      stakeIncrementShare
+    );
+  }
+
+  /**
+   * @name createRemoveLiquidity
+   * @description create the remove liquidity extrinsic from the estimate result
+   */
+  public async createRemoveLiquidity(
+    estimate: EstimateRemoveLiquidityResult,
+    options: RemoveLiquidityOptions
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const {
+      removeShare,
+      minReceived,
+      poolDetail: { info }
+    } = estimate;
+    const { from, byUnstake } = options;
+
+    // the staked share is not in the balance, so skip the check when it is removed by unstake
+    if (!byUnstake || !hasDexStakeFlag(this.api, 'removeLiquidity'))
+      await this.checkBalance(from, info.token, removeShare);
+
+    return createDexLiquidityCall(
+      this.api,
+      'removeLiquidity',
+      [
+        info.pair[0].toCurrencyId(this.api),
+        info.pair[1].toCurrencyId(this.api),
+        removeShare.toChainData(),
+        minReceived[0].toChainData(),
+        minReceived[1].toChainData()
+      ],
+      byUnstake
+    );
+  }
+
+  /**
+   * @name subscribeLiquidityAnalytics
+   * @description subscribe the impermanent loss, the fees and the usd value of the position entered at `snapshot`
+   */
+  public subscribeLiquidityAnalytics = memoize(
+    (token: MaybeCurrency, snapshot: LiquiditySnapshot): Observable<LiquidityAnalytics> => {
+      const subscribePrice = (token: Token) => {
+        return this.tokenProvider.subscribePrice ? this.tokenProvider.subscribePrice(token) : of(FixedPointNumber.ZERO);
+      };
+
+      return this.subscribePoolInfo(token).pipe(
+        switchMap((info) => {
+          return combineLatest({
+            poolDetail: this.subscribePoolDetail(info.token),
+            price0: subscribePrice(info.pair[0]),
+            price1: subscribePrice(info.pair[1])
+          });
+        }),
+        map(({ poolDetail, price0, price1 }) => getLiquidityAnalytics(poolDetail, snapshot, [price0, price1]))
+      );
+    }
+  );
+
+  public async getLiquidityAnalytics(token: MaybeCurrency, snapshot: LiquiditySnapshot): Promise<LiquidityAnalytics> {
+    return firstValueFrom(this.subscribeLiquidityAnalytics(token, snapshot));
+  }
+
+  /**
+   * @name createLiquiditySnapshot
+   * @description create the snapshot of the add liquidity `record` with the pool state at the block of the event
+   */
+  public async createLiquiditySnapshot(record: LiquidityRecord): Promise<LiquiditySnapshot> {
+    const info = await firstValueFrom(this.subscribePoolInfo(record.share.token));
+
+    const [pool, issuance] = await Promise.all([
+      firstValueFrom(this.storages.liquidityPool(info.token, record.blockHash).observable),
+      firstValueFrom(this.storages.issuance(info.token, record.blockHash).observable)
+    ]);
+
+    return {
+      share: record.share.balance,
+      poolAmounts: toAmounts(pool, info.pair),
+      poolShare: FixedPointNumber.fromInner(issuance.toString(), info.token.decimals)
+    };
+  }
 }
@@ -1,5 +1,6 @@
-import { AnyApi, forceToCurrencyName, Token } from '@setheum.js/sdk-core';
+import { AnyApi, forceToCurrencyName, QueryAt, Token } from '@setheum.js/sdk-core';
 import { Storage } from '../utils/storage';
+import { StorageOwner } from '../utils/storage/types';
 import { StorageKey, U128 } from '@polkadot/types';
 import { OrmlAccountData } from '@open-web3/orml-types/interfaces';
 import { Balance, TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
@@ -8,51 +9,64 @@ import { ITuple } from '@polkadot/types/types';
 import { memoize } from '@polkadot/util';
 
 // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
-export const createStorages = (api: AnyApi) => {
+export const createStorages = (api: AnyApi, owner?: StorageOwner) => {
   return {
-    liquidityPool: memoize((dexShareToken: Token) => {
+    liquidityPool: memoize((dexShareToken: Token, at?: QueryAt) => {
       return Storage.create<ITuple<[U128, U128]>>({
         api: api,
+        owner,
         path: 'query.dex.liquidityPool',
-        params: [dexShareToken.toTradingPair(api)]
+        params: [dexShareToken.toTradingPair(api)],
+        at,
+        batch: true
       });
     }),
     initialShareExchangeRates: memoize((dexShareToken: Token) => {
-      return Storage.create({
+      return Storage.create<ITuple<[U128, U128]>>({
         api: api,
+        owner,
         path: 'query.dex.initialShareExchangeRates',
-        params: [dexShareToken.toTradingPair(api)]
+        params: [dexShareToken.toTradingPair(api)],
+        batch: true
       });
     }),
     provisioningPool: memoize((address: string, dexShareToken: Token) => {
-      return Storage.create({
+      return Storage.create<ITuple<[U128, U128]>>({
         api: api,
+        owner,
         path: 'query.dex.provisioningPool',
-        params: [address, dexShareToken.toTradingPair(api)]
+        params: [dexShareToken.toTradingPair(api), address],
+        batch: true
       });
     }),
     tradingPairs: memoize(() => {
       return Storage.create<[StorageKey<[TradingPair]>, TradingPairStatus][]>({
         api: api,
+        owner,
         path: 'query.dex.tradingPairStatuses.entries',
         params: []
       });
     }),
-    issuance: memoize((token: Token) => {
+    issuance: memoize((token: Token, at?: QueryAt) => {
       const nativeTokenName = getNativeTokenName(api);
       const isNativeToken = nativeTokenName === forceToCurrencyName(token);
 
       return Storage.create<Balance>({
         api: api,
+        owner,
         path: isNativeToken ? 'query.balances.totalIssuance' : 'query.tokens.totalIssuance',
-        params: isNativeToken ? [] : [token.toChainData()]
+        params: isNativeToken ? [] : [token.toChainData()],
+        at,
+        batch: true
       });
     }),
     balance: memoize((address: string, token: Token) => {
       return Storage.create<OrmlAccountData>({
         api: api,
+        owner,
         path: 'query.tokens.accounts',
-        params: [address, token.toChainData()]
+        params: [address, token.toChainData()],
+        batch: true
       });
     })
   };
@@ -26,7 +26,33 @@ export interface UserLiquidity {
   owned: [FixedPointNumber, FixedPointNumber];
 }
 
+export interface ProvisionDetail {
+  info: PoolInfo;
+  minContribution: [FixedPointNumber, FixedPointNumber];
+  targetProvision: [FixedPointNumber, FixedPointNumber];
+  accumulatedProvision: [FixedPointNumber, FixedPointNumber];
+  // the provisioning can't be ended before this block
+  notBefore: number;
+  isTargetReached: boolean;
+}
+
+export interface UserProvision {
+  contribution: [FixedPointNumber, FixedPointNumber];
+  // the dex share which will be received if the provisioning ends with the current accumulated provision
+  estimatedShare: FixedPointNumber;
+  ratio: FixedPointNumber;
+  provisionDetail: ProvisionDetail;
+}
+
+export interface UnclaimedDexShare {
+  info: PoolInfo;
+  contribution: [FixedPointNumber, FixedPointNumber];
+  share: FixedPointNumber;
+}
+
 export interface EstimateAddLiquidityResult {
+  tokenA: Token;
+  tokenB: Token;
   incrementA: FixedPointNumber;
   incrementB: FixedPointNumber;
   incrementShare: FixedPointNumber;
@@ -41,3 +67,39 @@ export interface EstimateRemoveLiquidityResult {
   slippage: number;
   poolDetail: PoolDetail;
 }
+
+export interface AddLiquidityOptions {
+  from: string;
+  // stake the increment share to incentives, only works when the runtime supports it
+  stakeIncrementShare?: boolean;
+}
+
+export interface RemoveLiquidityOptions {
+  from: string;
+  // unstake the share from incentives before removing, only works when the runtime supports it
+  byUnstake?: boolean;
+}
+
+export interface LiquiditySnapshot {
+  // the dex share of the position
+  share: FixedPointNumber;
+  // the pool size and the total share when the position is entered
+  poolAmounts: [FixedPointNumber, FixedPointNumber];
+  poolShare: FixedPointNumber;
+}
+
+export interface LiquidityAnalytics {
+  snapshot: LiquiditySnapshot;
+  poolDetail: PoolDetail;
+  prices: [FixedPointNumber, FixedPointNumber];
+  // the amounts if the tokens were held instead of providing liquidity
+  held: [FixedPointNumber, FixedPointNumber];
+  owned: [FixedPointNumber, FixedPointNumber];
+  fees: [FixedPointNumber, FixedPointNumber];
+  // the value change ratio compared with holding, excluding the fees
+  impermanentLoss: FixedPointNumber;
+  heldValue: FixedPointNumber;
+  ownedValue: FixedPointNumber;
+  feesValue: FixedPointNumber;
+  impermanentLossValue: FixedPointNumber;
+}
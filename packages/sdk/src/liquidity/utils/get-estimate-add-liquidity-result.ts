@@ -4,7 +4,7 @@ import { EstimateAddLiquidityResult, PoolDetail } from '../types';
 export function getEstimateAddLiquidityResult(
   liquidityDetail: PoolDetail,
   tokenA: Token,
-  _tokenB: Token,
+  tokenB: Token,
   maxAmountA: FixedPointNumber,
   maxAmountB: FixedPointNumber,
   slippage: number
@@ -63,6 +63,8 @@ export function getEstimateAddLiquidityResult(
 
   return {
     poolDetail: liquidityDetail,
+    tokenA,
+    tokenB,
     incrementA: token0.isEqual(tokenA) ? pool0Increment : pool1Increment,
     incrementB: token0.isEqual(tokenA) ? pool1Increment : pool0Increment,
     incrementShare,
@@ -0,0 +1,50 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { LiquidityPoolStatus, LiquiditySnapshot, PoolDetail } from '../types';
+import { getLiquidityAnalytics } from './get-liquidity-analytics';
+
+describe('get liquidity analytics', () => {
+  const token0 = new Token('SETM', { decimals: 18 });
+  const token1 = new Token('SETUSD', { decimals: 18 });
+
+  const createPoolDetail = (amount0: number, amount1: number, share: number): PoolDetail => ({
+    share: new FN(share),
+    amounts: [new FN(amount0), new FN(amount1)],
+    info: { token: Token.fromTokens(token0, token1), pair: [token0, token1], status: LiquidityPoolStatus.ENABLED }
+  });
+
+  const snapshot: LiquiditySnapshot = {
+    share: new FN(100),
+    poolAmounts: [new FN(1000), new FN(1000)],
+    poolShare: new FN(1000)
+  };
+  const prices: [FN, FN] = [new FN(4), new FN(1)];
+
+  test('the impermanent loss of the price change', () => {
+    // the price of token0 is 4x, and no fees are earned
+    const result = getLiquidityAnalytics(createPoolDetail(500, 2000, 1000), snapshot, prices);
+
+    expect(result.held.map((item) => item.toNumber())).toEqual([100, 100]);
+    expect(result.owned.map((item) => item.toNumber())).toEqual([50, 200]);
+    expect(result.fees.every((item) => item.isZero())).toBe(true);
+    // 2 * sqrt(4) / (1 + 4) - 1
+    expect(result.impermanentLoss.toNumber()).toBeCloseTo(-0.2, 8);
+    expect(result.impermanentLossValue.toNumber()).toBeCloseTo(-100, 8);
+  });
+
+  test('the fees of the pool growth', () => {
+    // the pool grows 1% without the price change
+    const result = getLiquidityAnalytics(createPoolDetail(1010, 1010, 1000), snapshot, prices);
+
+    expect(result.fees.map((item) => item.toNumber())).toEqual([1, 1]);
+    expect(result.impermanentLoss.toNumber()).toBeCloseTo(0, 8);
+    expect(result.feesValue.toNumber()).toBeCloseTo(5, 8);
+  });
+
+  test('the empty pool', () => {
+    const result = getLiquidityAnalytics(createPoolDetail(0, 0, 0), snapshot, prices);
+
+    expect(result.owned.every((item) => item.isZero())).toBe(true);
+    expect(result.fees.every((item) => item.isZero())).toBe(true);
+    expect(result.impermanentLoss.isFinaite()).toBe(true);
+  });
+});
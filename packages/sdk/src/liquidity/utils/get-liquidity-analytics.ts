@@ -0,0 +1,86 @@
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+import { LiquidityAnalytics, LiquiditySnapshot, PoolDetail } from '../types';
+
+type Amounts = [FixedPointNumber, FixedPointNumber];
+
+// calculate with the max precision to avoid losing the accuracy of the ratios
+const toCalc = (value: FixedPointNumber) => {
+  const temp = value.clone();
+
+  temp.setPrecision(18);
+
+  return temp;
+};
+
+const toPrecision = (value: FixedPointNumber, precision: number) => {
+  const temp = value.clone();
+
+  temp.setPrecision(precision);
+
+  return temp;
+};
+
+export function getLiquidityAnalytics(
+  poolDetail: PoolDetail,
+  snapshot: LiquiditySnapshot,
+  prices: Amounts
+): LiquidityAnalytics {
+  const [token0, token1] = poolDetail.info.pair;
+  const [pool0, pool1] = poolDetail.amounts.map(toCalc);
+  const [entryPool0, entryPool1] = snapshot.poolAmounts.map(toCalc);
+  const totalShare = toCalc(poolDetail.share);
+  const entryTotalShare = toCalc(snapshot.poolShare);
+  const share = toCalc(snapshot.share);
+
+  const getValue = (amounts: Amounts) => amounts[0].mul(prices[0]).add(amounts[1].mul(prices[1]));
+  const toAmounts = (amounts: Amounts): Amounts => [
+    toPrecision(amounts[0], token0.decimals),
+    toPrecision(amounts[1], token1.decimals)
+  ];
+
+  const entryRatio = entryTotalShare.gt(FixedPointNumber.ZERO) ? share.div(entryTotalShare) : FixedPointNumber.ZERO;
+  const ratio = totalShare.gt(FixedPointNumber.ZERO) ? share.div(totalShare) : FixedPointNumber.ZERO;
+
+  const held: Amounts = [entryPool0.mul(entryRatio), entryPool1.mul(entryRatio)];
+  const owned: Amounts = [pool0.mul(ratio), pool1.mul(ratio)];
+
+  // the fees are kept in the pool, so the value of sqrt(k) per share only grows with the fees
+  const kPerShare = totalShare.gt(FixedPointNumber.ZERO)
+    ? pool0.mul(pool1).sqrt().div(totalShare)
+    : FixedPointNumber.ZERO;
+  const entryKPerShare = entryTotalShare.gt(FixedPointNumber.ZERO)
+    ? entryPool0.mul(entryPool1).sqrt().div(entryTotalShare)
+    : FixedPointNumber.ZERO;
+  const growth =
+    entryKPerShare.gt(FixedPointNumber.ZERO) && kPerShare.gt(entryKPerShare) ? kPerShare.div(entryKPerShare) : null;
+
+  const fees: Amounts = growth
+    ? [owned[0].sub(owned[0].div(growth)), owned[1].sub(owned[1].div(growth))]
+    : [FixedPointNumber.ZERO, FixedPointNumber.ZERO];
+  const withoutFees: Amounts = [owned[0].sub(fees[0]), owned[1].sub(fees[1])];
+
+  // compare in token1 at the current pool price, so it doesn't depend on the usd prices
+  const poolPrice = pool0.gt(FixedPointNumber.ZERO) ? pool1.div(pool0) : FixedPointNumber.ZERO;
+  const heldInToken1 = held[0].mul(poolPrice).add(held[1]);
+  const impermanentLoss = heldInToken1.gt(FixedPointNumber.ZERO)
+    ? withoutFees[0].mul(poolPrice).add(withoutFees[1]).div(heldInToken1).sub(FixedPointNumber.ONE)
+    : FixedPointNumber.ZERO;
+
+  const heldValue = getValue(held);
+  const ownedValue = getValue(owned);
+  const feesValue = getValue(fees);
+
+  return {
+    snapshot,
+    poolDetail,
+    prices,
+    held: toAmounts(held),
+    owned: toAmounts(owned),
+    fees: toAmounts(fees),
+    impermanentLoss,
+    heldValue,
+    ownedValue,
+    feesValue,
+    impermanentLossValue: getValue(withoutFees).sub(heldValue)
+  };
+}
@@ -0,0 +1,58 @@
+import { FixedPointNumber as FN } from '@setheum.js/sdk-core';
+import { getProvisionShare, getProvisionShareExchangeRates } from './get-provision-share';
+
+describe('get provision share', () => {
+  const pair = (amount0: number | string, amount1: number | string, decimals: [number, number] = [12, 12]) =>
+    [new FN(amount0, decimals[0]), new FN(amount1, decimals[1])] as [FN, FN];
+
+  test('the exchange rates are decided by the accumulated provision', () => {
+    const [rate0, rate1] = getProvisionShareExchangeRates(pair(1000, 4000));
+
+    expect(rate0.toNumber()).toBe(1);
+    expect(rate1.toNumber()).toBe(0.25);
+  });
+
+  test('the exchange rates are zero if any side is not provisioned', () => {
+    const rates = getProvisionShareExchangeRates(pair(1000, 0));
+
+    expect(rates.every((item) => item.isZero())).toBe(true);
+    expect(getProvisionShare(pair(10, 0), rates, 12).isZero()).toBe(true);
+  });
+
+  test('estimate the share of the contribution', () => {
+    const accumulated = pair(1000, 4000);
+    const rates = getProvisionShareExchangeRates(accumulated);
+    // 100 + 200 * 0.25
+    const share = getProvisionShare(pair(100, 200), rates, 12);
+
+    expect(share.getPrecision()).toBe(12);
+    expect(share.toNumber()).toBe(150);
+  });
+
+  test('the first provider receives all the share', () => {
+    const accumulated = pair(1000, 4000);
+    const rates = getProvisionShareExchangeRates(accumulated);
+
+    // the total share is 2 * total0 when the provider is the only one
+    expect(getProvisionShare(accumulated, rates, 12).toNumber()).toBe(2000);
+  });
+
+  test('the share is calculated with the raw balances of different decimals', () => {
+    // 1000 token0 in 12 decimals and 4000 token1 in 6 decimals
+    const accumulated = pair(1000, 4000, [12, 6]);
+    const rates = getProvisionShareExchangeRates(accumulated);
+
+    expect(rates[1].toNumber()).toBe(250000);
+    expect(getProvisionShare(pair(100, 200, [12, 6]), rates, 12).toNumber()).toBe(150);
+  });
+
+  test('round down the rate and the share like the runtime', () => {
+    // 1 / 3 is rounded down to 0.333333333333333333
+    const rates = getProvisionShareExchangeRates([FN.fromInner(1, 12), FN.fromInner(3, 12)]);
+
+    expect(rates[1].toChainData()).toBe('333333333333333333');
+    // 3 * 0.333333333333333333 is rounded down to zero
+    expect(getProvisionShare([FN.ZERO, FN.fromInner(3, 12)], rates, 12).toChainData()).toBe('0');
+    expect(getProvisionShare([FN.fromInner(1, 12), FN.fromInner(3, 12)], rates, 12).toChainData()).toBe('1');
+  });
+});
@@ -0,0 +1,35 @@
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+
+// the dex calculates the shares with the raw balances, the precision of ExchangeRate is 18
+const toRaw = (amount: FixedPointNumber) => FixedPointNumber.fromInner(amount.toChainData());
+
+/**
+ * @name getProvisionShareExchangeRates
+ * @description get the share exchange rates which will be set when the provisioning ends,
+ * the rate of token0 is 1 and the rate of token1 is `total0 / total1`
+ */
+export function getProvisionShareExchangeRates(
+  accumulatedProvision: [FixedPointNumber, FixedPointNumber]
+): [FixedPointNumber, FixedPointNumber] {
+  const [total0, total1] = accumulatedProvision.map(toRaw);
+
+  if (total0.lte(FixedPointNumber.ZERO) || total1.lte(FixedPointNumber.ZERO)) {
+    return [FixedPointNumber.ZERO, FixedPointNumber.ZERO];
+  }
+
+  return [FixedPointNumber.ONE, total0.div(total1)];
+}
+
+/**
+ * @name getProvisionShare
+ * @description get the dex share of `contribution` with the share exchange `rates`
+ */
+export function getProvisionShare(
+  contribution: [FixedPointNumber, FixedPointNumber],
+  rates: [FixedPointNumber, FixedPointNumber],
+  decimals: number
+): FixedPointNumber {
+  const share = toRaw(contribution[0]).mul(rates[0]).add(toRaw(contribution[1]).mul(rates[1]));
+
+  return FixedPointNumber.fromInner(share.toChainData(), decimals);
+}
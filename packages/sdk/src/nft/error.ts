@@ -0,0 +1,50 @@
+export class NftClassNotFound extends Error {
+  constructor(classId: number) {
+    super();
+
+    this.message = `can't find the nft class ${classId}`;
+    this.name = 'NftClassNotFound';
+  }
+}
+
+export class NftTokenNotFound extends Error {
+  constructor(classId: number, tokenId: number) {
+    super();
+
+    this.message = `can't find the nft token ${tokenId} of class ${classId}`;
+    this.name = 'NftTokenNotFound';
+  }
+}
+
+export class NftClassPropertyNotSet extends Error {
+  readonly classId: number;
+  readonly property: string;
+
+  constructor(classId: number, property: string) {
+    super();
+
+    this.classId = classId;
+    this.property = property;
+
+    this.message = `the nft class ${classId} is not ${property}`;
+    this.name = 'NftClassPropertyNotSet';
+  }
+}
+
+export class NotNftTokenOwner extends Error {
+  constructor(address: string, classId: number, tokenId: number) {
+    super();
+
+    this.message = `${address} is not the owner of the nft token ${tokenId} of class ${classId}`;
+    this.name = 'NotNftTokenOwner';
+  }
+}
+
+export class NftAttributesTooLarge extends Error {
+  constructor(max: number) {
+    super();
+
+    this.message = `the bytes of the nft attributes should not be more than ${max}`;
+    this.name = 'NftAttributesTooLarge';
+  }
+}
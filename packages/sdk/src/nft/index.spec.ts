@@ -0,0 +1,158 @@
+import { ApiRx } from '@polkadot/api';
+import { Token } from '@setheum.js/sdk-core';
+import { of } from 'rxjs';
+import { Wallet } from '../wallet';
+import {
+  NftAttributesTooLarge,
+  NftClassNotFound,
+  NftClassPropertyNotSet,
+  NftTokenNotFound,
+  NotNftTokenOwner
+} from './error';
+import { NftClassProperty } from './type';
+import { Nft } from '.';
+
+describe('nft', () => {
+  const alice = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const bob = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+  const token = new Token('SETM', { decimals: 12 });
+
+  const some = <T>(value: T) => ({ isSome: true, isNone: false, unwrap: () => value });
+  const none = { isSome: false, isNone: true };
+  const bytes = (value: string) => ({ isUtf8: true, toUtf8: () => value });
+  const toClass = (owner: string, properties: number) => ({
+    owner: { toString: () => owner },
+    metadata: bytes('QmClass'),
+    totalIssuance: { toNumber: () => 1 },
+    data: { deposit: { toString: () => '0' }, properties: { toNumber: () => properties }, attributes: new Map() }
+  });
+  const toToken = (owner: string) => ({
+    owner: { toString: () => owner },
+    metadata: bytes('QmToken'),
+    data: { deposit: { toString: () => '0' }, attributes: new Map() }
+  });
+  const toKey = (...args: number[]) => ({ args: args.map((arg) => ({ toNumber: () => arg })) });
+
+  const { TRANSFERABLE, BURNABLE, MINTABLE } = NftClassProperty;
+  // the class 0 is owned by alice and the class 1 is owned by bob
+  const classes: Record<number, ReturnType<typeof toClass>> = {
+    0: toClass(alice, TRANSFERABLE | MINTABLE),
+    1: toClass(bob, BURNABLE)
+  };
+  const tokens: Record<string, ReturnType<typeof toToken>> = {
+    '0-0': toToken(alice),
+    '0-1': toToken(bob),
+    '1-0': toToken(alice)
+  };
+
+  const createNft = () => {
+    const createExtrinsic = jest.fn((...params: unknown[]) => ({ params }));
+    const api = {
+      consts: {
+        nft: {
+          maxAttributesBytes: { toNumber: () => 10 },
+          dataDepositPerByte: { toString: () => '10000000000' },
+          createClassDeposit: { toString: () => '1000000000000' },
+          createTokenDeposit: { toString: () => '100000000000' }
+        },
+        proxy: {
+          proxyDepositBase: { toString: () => '200000000000' },
+          proxyDepositFactor: { toString: () => '100000000000' }
+        }
+      },
+      createType: (_: string, data: unknown) => data,
+      tx: { nft: { createClass: createExtrinsic, mint: createExtrinsic, transfer: createExtrinsic } }
+    };
+    const wallet = {
+      consts: { nativeCurrency: 'SETM' },
+      subscribeToken: () => of(token)
+    };
+    const nft = new Nft(api as unknown as ApiRx, wallet as unknown as Wallet);
+
+    // replace the chain storages by the static data
+    (nft as unknown as { storages: unknown }).storages = {
+      classes: () => ({
+        observable: of(Object.entries(classes).map(([id, data]) => [toKey(Number(id)), some(data)]))
+      }),
+      tokensByOwner: (address: string, classId?: number) => ({
+        observable: of(
+          Object.entries(tokens)
+            .map(([id, data]) => [id.split('-').map(Number), data.owner.toString()] as const)
+            .filter(
+              ([[tokenClassId], owner]) => owner === address && (classId === undefined || tokenClassId === classId)
+            )
+            .map(([ids]) => ({ args: [{ toString: () => address }, ...toKey(...ids).args] }))
+        )
+      }),
+      classInfo: (classId: number) => ({ observable: of(classes[classId] ? some(classes[classId]) : none) }),
+      tokenInfo: (classId: number, tokenId: number) => ({
+        observable: of(tokens[`${classId}-${tokenId}`] ? some(tokens[`${classId}-${tokenId}`]) : none)
+      })
+    };
+
+    return { nft, createExtrinsic };
+  };
+
+  test('list the classes and tokens of the owner', async () => {
+    const { nft } = createNft();
+
+    expect((await nft.getClasses()).map((item) => item.classId)).toEqual([0, 1]);
+    expect((await nft.getClasses(bob)).map((item) => item.classId)).toEqual([1]);
+    expect((await nft.getTokens(alice)).map((item) => [item.classId, item.tokenId])).toEqual([
+      [0, 0],
+      [1, 0]
+    ]);
+    expect((await nft.getTokens(alice, 1)).map((item) => [item.classId, item.tokenId])).toEqual([[1, 0]]);
+  });
+
+  test('throw error if the class or token is not found', async () => {
+    const { nft } = createNft();
+
+    await expect(nft.getClass(2)).rejects.toThrow(NftClassNotFound);
+    await expect(nft.getToken(0, 2)).rejects.toThrow(NftTokenNotFound);
+  });
+
+  test('calculate the deposit of the metadata and attributes bytes', async () => {
+    const { nft } = createNft();
+
+    // 1 + (5 + 8) * 0.01 + 0.2 + 0.1
+    expect((await nft.getCreateClassDeposit('QmCID', { color: 'red' })).toNumber()).toBe(1.43);
+    // (0.1 + 5 * 0.01) * 2
+    expect((await nft.getMintDeposit('QmCID', {}, 2)).toNumber()).toBe(0.3);
+  });
+
+  test('throw error if the attributes are too large', async () => {
+    const { nft, createExtrinsic } = createNft();
+    const attributes = { color: 'red', size: 'large' };
+
+    await expect(nft.getMintDeposit('QmCID', attributes)).rejects.toThrow(NftAttributesTooLarge);
+    await expect(nft.createClass({ metadata: 'QmCID', properties: {}, attributes })).rejects.toThrow(
+      'the bytes of the nft attributes should not be more than 10'
+    );
+    // the limit is applied to the attributes only
+    await expect(nft.getMintDeposit('QmCID'.repeat(10), { color: 'green' })).resolves.toBeDefined();
+    expect(createExtrinsic).not.toHaveBeenCalled();
+  });
+
+  test('check the class properties before building the extrinsics', async () => {
+    const { nft, createExtrinsic } = createNft();
+    const result = await nft.createMint({ to: bob, classId: 0, metadata: 'QmCID', quantity: 2 });
+
+    expect(createExtrinsic).toHaveBeenCalledWith(bob, 0, 'QmCID', new Map(), 2);
+    expect(result.deposit.toNumber()).toBe(0.3);
+    await expect(nft.createMint({ to: bob, classId: 1, metadata: 'QmCID' })).rejects.toThrow(NftClassPropertyNotSet);
+    await expect(nft.createTransfer(alice, bob, 1, 0)).rejects.toThrow('the nft class 1 is not transferable');
+  });
+
+  test('only the token owner can transfer the token', async () => {
+    const { nft, createExtrinsic } = createNft();
+
+    await nft.createTransfer(alice, bob, 0, 0);
+
+    expect(createExtrinsic).toHaveBeenCalledWith(bob, [0, 0]);
+    await expect(nft.createTransfer(alice, bob, 0, 1)).rejects.toThrow(NotNftTokenOwner);
+    await expect(nft.createTransfer(alice, bob, 0, 1)).rejects.toThrow(
+      `${alice} is not the owner of the nft token 1 of class 0`
+    );
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * The nft sdk lists the nft classes and tokens of an account and builds the nft extrinsics
+ */
+
+import { AnyApi, FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { ApiPromise } from '@polkadot/api';
+import { ApiTypes, SubmittableExtrinsic } from '@polkadot/api/types';
+import { memoize } from '@polkadot/util';
+import { BehaviorSubject, combineLatest, firstValueFrom, Observable, of } from 'rxjs';
+import { filter, map, switchMap } from 'rxjs/operators';
+import { BaseSDK } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Wallet } from '../wallet';
+import {
+  NftAttributesTooLarge,
+  NftClassNotFound,
+  NftClassPropertyNotSet,
+  NftTokenNotFound,
+  NotNftTokenOwner
+} from './error';
+import { createStorages } from './storages';
+import {
+  NftAttributes,
+  NftClass,
+  NftClassProperties,
+  NftCreateClassParams,
+  NftDepositCall,
+  NftMintParams,
+  NftToken
+} from './type';
+import { decodeClass, decodeToken, encodeProperties, getDataBytes } from './utils';
+
+export class Nft implements BaseSDK {
+  private api: AnyApi;
+  private storages: ReturnType<typeof createStorages>;
+  private wallet: Wallet;
+
+  public isReady$: BehaviorSubject<boolean>;
+
+  constructor(api: AnyApi, wallet: Wallet) {
+    this.api = api;
+    this.storages = createStorages(this.api, this);
+    this.wallet = wallet;
+    this.isReady$ = new BehaviorSubject<boolean>(true);
+  }
+
+  public get isReady(): Promise<boolean> {
+    return firstValueFrom(this.isReady$.pipe(filter((i) => i)));
+  }
+
+  /**
+   * @name dispose
+   * @description release the storages created by the module, the storages shared with other sdk modules are kept
+   */
+  public dispose(): void {
+    StorageManager.get(this.api).release(this);
+  }
+
+  private get tx() {
+    return (this.api as ApiPromise).tx.nft;
+  }
+
+  private subscribeNativeToken(): Observable<Token> {
+    return this.wallet.subscribeToken(this.wallet.consts.nativeCurrency);
+  }
+
+  // the address may be encoded with a different ss58 prefix
+  private normalizeAddress(address: string): string {
+    return this.api.createType('AccountId32', address).toString();
+  }
+
+  /**
+   * @name subscribeClasses
+   * @description subscribe all nft classes, or the classes owned by `owner` if it is provided
+   */
+  public subscribeClasses = memoize((owner?: string): Observable<NftClass[]> => {
+    const target = owner ? this.normalizeAddress(owner) : undefined;
+
+    return this.subscribeNativeToken().pipe(
+      switchMap((token) => {
+        return this.storages.classes().observable.pipe(
+          map((entries) =>
+            entries
+              .filter(([, data]) => data.isSome)
+              .map(([key, data]) => decodeClass(key.args[0].toNumber(), data.unwrap(), token))
+              .filter((item) => !target || item.owner === target)
+              .sort((a, b) => a.classId - b.classId)
+          )
+        );
+      })
+    );
+  });
+
+  public async getClasses(owner?: string): Promise<NftClass[]> {
+    return firstValueFrom(this.subscribeClasses(owner));
+  }
+
+  /**
+   * @name subscribeClass
+   * @description subscribe the nft class of `classId`
+   */
+  public subscribeClass = memoize((classId: number): Observable<NftClass> => {
+    return this.subscribeNativeToken().pipe(
+      switchMap((token) => {
+        return this.storages.classInfo(classId).observable.pipe(
+          map((data) => {
+            if (data.isNone) throw new NftClassNotFound(classId);
+
+            return decodeClass(classId, data.unwrap(), token);
+          })
+        );
+      })
+    );
+  });
+
+  public async getClass(classId: number): Promise<NftClass> {
+    return firstValueFrom(this.subscribeClass(classId));
+  }
+
+  /**
+   * @name subscribeTokens
+   * @description subscribe the nft tokens owned by `owner`, only the tokens of `classId` if it is provided
+   */
+  public subscribeTokens = memoize((owner: string, classId?: number): Observable<NftToken[]> => {
+    const target = this.normalizeAddress(owner);
+
+    return this.subscribeNativeToken().pipe(
+      switchMap((token) => {
+        return this.storages.tokensByOwner(target, classId).observable.pipe(
+          switchMap((keys) => {
+            if (keys.length === 0) return of([]);
+
+            // the token infos are read through one batched query
+            return combineLatest(
+              keys.map((key) => {
+                const [tokenClassId, tokenId] = [key.args[1].toNumber(), key.args[2].toNumber()];
+
+                return this.storages
+                  .tokenInfo(tokenClassId, tokenId)
+                  .observable.pipe(
+                    map((data) => (data.isSome ? decodeToken(tokenClassId, tokenId, data.unwrap(), token) : undefined))
+                  );
+              })
+            );
+          }),
+          map((tokens) =>
+            tokens
+              .filter((item): item is NftToken => !!item && item.owner === target)
+              .sort((a, b) => a.classId - b.classId || a.tokenId - b.tokenId)
+          )
+        );
+      })
+    );
+  });
+
+  public async getTokens(owner: string, classId?: number): Promise<NftToken[]> {
+    return firstValueFrom(this.subscribeTokens(owner, classId));
+  }
+
+  /**
+   * @name subscribeToken
+   * @description subscribe the nft token of `classId` and `tokenId`
+   */
+  public subscribeToken = memoize((classId: number, tokenId: number): Observable<NftToken> => {
+    return this.subscribeNativeToken().pipe(
+      switchMap((token) => {
+        return this.storages.tokenInfo(classId, tokenId).observable.pipe(
+          map((data) => {
+            if (data.isNone) throw new NftTokenNotFound(classId, tokenId);
+
+            return decodeToken(classId, tokenId, data.unwrap(), token);
+          })
+        );
+      })
+    );
+  });
+
+  public async getToken(classId: number, tokenId: number): Promise<NftToken> {
+    return firstValueFrom(this.subscribeToken(classId, tokenId));
+  }
+
+  private async getDataDeposit(metadata: string, attributes?: NftAttributes): Promise<FN> {
+    const token = await firstValueFrom(this.subscribeNativeToken());
+    const [metadataBytes, attributesBytes] = getDataBytes(metadata, attributes);
+    const max = this.api.consts.nft.maxAttributesBytes.toNumber();
+
+    if (attributesBytes > max) throw new NftAttributesTooLarge(max);
+
+    return FN.fromInner(this.api.consts.nft.dataDepositPerByte.toString(), token.decimals).mul(
+      new FN(metadataBytes + attributesBytes)
+    );
+  }
+
+  /**
+   * @name getCreateClassDeposit
+   * @description get the deposit of creating class, include the data deposit and the deposit of the class proxy
+   */
+  public async getCreateClassDeposit(metadata: string, attributes?: NftAttributes): Promise<FN> {
+    const token = await firstValueFrom(this.subscribeNativeToken());
+    const { nft, proxy } = this.api.consts;
+    const dataDeposit = await this.getDataDeposit(metadata, attributes);
+    // the class owner is a proxy account of the creator
+    const proxyDeposit = proxy
+      ? FN.fromInner(proxy.proxyDepositBase.toString(), token.decimals).add(
+          FN.fromInner(proxy.proxyDepositFactor.toString(), token.decimals)
+        )
+      : FN.ZERO;
+
+    return FN.fromInner(nft.createClassDeposit.toString(), token.decimals).add(dataDeposit).add(proxyDeposit);
+  }
+
+  /**
+   * @name getMintDeposit
+   * @description get the deposit of minting `quantity` tokens
+   */
+  public async getMintDeposit(metadata: string, attributes?: NftAttributes, quantity = 1): Promise<FN> {
+    const token = await firstValueFrom(this.subscribeNativeToken());
+    const dataDeposit = await this.getDataDeposit(metadata, attributes);
+
+    return FN.fromInner(this.api.consts.nft.createTokenDeposit.toString(), token.decimals)
+      .add(dataDeposit)
+      .mul(new FN(quantity));
+  }
+
+  private checkProperty(nftClass: NftClass, property: keyof NftClassProperties, name: string): void {
+    if (!nftClass.properties[property]) throw new NftClassPropertyNotSet(nftClass.classId, name);
+  }
+
+  private async checkTokenOwner(address: string, classId: number, tokenId: number): Promise<void> {
+    const token = await this.getToken(classId, tokenId);
+
+    if (token.owner !== this.normalizeAddress(address)) throw new NotNftTokenOwner(address, classId, tokenId);
+  }
+
+  /**
+   * @name createClass
+   * @description create nft class, the deposit is reserved from the creator
+   */
+  public async createClass(params: NftCreateClassParams): Promise<NftDepositCall> {
+    const { metadata, properties, attributes = {} } = params;
+    const deposit = await this.getCreateClassDeposit(metadata, attributes);
+
+    return {
+      extrinsic: this.tx.createClass(
+        metadata,
+        this.api.createType('Properties', encodeProperties(properties)),
+        this.api.createType('Attributes', new Map(Object.entries(attributes)))
+      ),
+      deposit
+    };
+  }
+
+  /**
+   * @name createMint
+   * @description mint tokens of the class which is mintable, the deposit is reserved from the sender
+   */
+  public async createMint(params: NftMintParams): Promise<NftDepositCall> {
+    const { to, classId, metadata, attributes = {}, quantity = 1 } = params;
+    const nftClass = await this.getClass(classId);
+
+    this.checkProperty(nftClass, 'mintable', 'mintable');
+
+    const deposit = await this.getMintDeposit(metadata, attributes, quantity);
+
+    return {
+      extrinsic: this.tx.mint(
+        to,
+        classId,
+        metadata,
+        this.api.createType('Attributes', new Map(Object.entries(attributes))),
+        quantity
+      ),
+      deposit
+    };
+  }
+
+  /**
+   * @name createTransfer
+   * @description transfer the token owned by `from` to `to`, the class should be transferable
+   */
+  public async createTransfer(
+    from: string,
+    to: string,
+    classId: number,
+    tokenId: number
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const nftClass = await this.getClass(classId);
+
+    this.checkProperty(nftClass, 'transferable', 'transferable');
+    await this.checkTokenOwner(from, classId, tokenId);
+
+    return this.tx.transfer(to, [classId, tokenId]);
+  }
+
+  /**
+   * @name createBurn
+   * @description burn the token owned by `from`, the class should be burnable
+   */
+  public async createBurn(
+    from: string,
+    classId: number,
+    tokenId: number,
+    remark?: string
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const nftClass = await this.getClass(classId);
+
+    this.checkProperty(nftClass, 'burnable', 'burnable');
+    await this.checkTokenOwner(from, classId, tokenId);
+
+    return remark ? this.tx.burnWithRemark([classId, tokenId], remark) : this.tx.burn([classId, tokenId]);
+  }
+
+  /**
+   * @name createUpdateClassProperties
+   * @description update the properties of the class, the class properties should be mutable
+   */
+  public async createUpdateClassProperties(
+    classId: number,
+    properties: Partial<NftClassProperties>
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const nftClass = await this.getClass(classId);
+
+    this.checkProperty(nftClass, 'classPropertiesMutable', 'class properties mutable');
+
+    return this.tx.updateClassProperties(
+      classId,
+      this.api.createType('Properties', encodeProperties({ ...nftClass.properties, ...properties }))
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { AnyApi } from '@setheum.js/sdk-core';
+import { Option, StorageKey, u32, u64 } from '@polkadot/types';
+import { AccountId32 } from '@polkadot/types/interfaces';
+import { OrmlNftClassInfo, OrmlNftTokenInfo } from '@polkadot/types/lookup';
+import { memoize } from '@polkadot/util';
+import { Storage } from '../utils/storage';
+import { StorageOwner } from '../utils/storage/types';
+
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export const createStorages = (api: AnyApi, owner?: StorageOwner) => {
+  return {
+    classes: memoize(() => {
+      return Storage.create<[StorageKey<[u32]>, Option<OrmlNftClassInfo>][]>({
+        api: api,
+        owner,
+        path: 'query.ormlNFT.classes.entries',
+        params: [],
+        // the total issuance of classes is changed by minting and burning
+        triggleEvents: [
+          { section: 'nft', method: 'CreatedClass' },
+          { section: 'nft', method: 'DestroyedClass' },
+          { section: 'nft', method: 'MintedToken' },
+          { section: 'nft', method: 'BurnedToken' },
+          { section: 'nft', method: 'BurnedTokenWithRemark' }
+        ]
+      });
+    }),
+    // the keys of the tokens owned by `address`, only of `classId` if it is provided
+    tokensByOwner: memoize((address: string, classId?: number) => {
+      return Storage.create<StorageKey<[AccountId32, u32, u64]>[]>({
+        api: api,
+        owner,
+        path: 'query.ormlNFT.tokensByOwner.keys',
+        params: classId === undefined ? [address] : [address, classId],
+        triggleEvents: [
+          { section: 'nft', method: 'MintedToken' },
+          { section: 'nft', method: 'TransferredToken' },
+          { section: 'nft', method: 'BurnedToken' },
+          { section: 'nft', method: 'BurnedTokenWithRemark' }
+        ]
+      });
+    }),
+    classInfo: memoize((classId: number) => {
+      return Storage.create<Option<OrmlNftClassInfo>>({
+        api: api,
+        owner,
+        path: 'query.ormlNFT.classes',
+        params: [classId],
+        batch: true
+      });
+    }),
+    tokenInfo: memoize((classId: number, tokenId: number) => {
+      return Storage.create<Option<OrmlNftTokenInfo>>({
+        api: api,
+        owner,
+        path: 'query.ormlNFT.tokens',
+        params: [classId, tokenId],
+        batch: true
+      });
+    })
+  };
+};
@@ -0,0 +1,57 @@
+import { ApiTypes, SubmittableExtrinsic } from '@polkadot/api/types';
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+
+// the bits of the class properties
+export enum NftClassProperty {
+  TRANSFERABLE = 0b00000001,
+  BURNABLE = 0b00000010,
+  MINTABLE = 0b00000100,
+  CLASS_PROPERTIES_MUTABLE = 0b00001000
+}
+
+export interface NftClassProperties {
+  transferable: boolean;
+  burnable: boolean;
+  mintable: boolean;
+  classPropertiesMutable: boolean;
+}
+
+export type NftAttributes = Record<string, string>;
+
+export interface NftClass {
+  classId: number;
+  owner: string;
+  metadata: string; // the CID of the external metadata
+  totalIssuance: number;
+  deposit: FixedPointNumber; // the deposit reserved by the class, in native token
+  properties: NftClassProperties;
+  attributes: NftAttributes;
+}
+
+export interface NftToken {
+  classId: number;
+  tokenId: number;
+  owner: string;
+  metadata: string; // the CID of the external metadata
+  deposit: FixedPointNumber; // the deposit reserved by the token, in native token
+  attributes: NftAttributes;
+}
+
+export interface NftCreateClassParams {
+  metadata: string;
+  properties: Partial<NftClassProperties>;
+  attributes?: NftAttributes;
+}
+
+export interface NftMintParams {
+  to: string;
+  classId: number;
+  metadata: string;
+  attributes?: NftAttributes;
+  quantity?: number;
+}
+
+export interface NftDepositCall {
+  extrinsic: SubmittableExtrinsic<ApiTypes>;
+  deposit: FixedPointNumber; // the deposit which will be reserved, in native token
+}
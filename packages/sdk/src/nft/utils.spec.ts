@@ -0,0 +1,102 @@
+import { BTreeMap, Bytes } from '@polkadot/types';
+import { OrmlNftClassInfo, OrmlNftTokenInfo } from '@polkadot/types/lookup';
+import { Token } from '@setheum.js/sdk-core';
+import {
+  decodeAttributes,
+  decodeCID,
+  decodeClass,
+  decodeProperties,
+  decodeToken,
+  encodeProperties,
+  getDataBytes
+} from './utils';
+
+describe('nft utils', () => {
+  const owner = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const token = new Token('SETM', { decimals: 12 });
+
+  const bytes = (value: string, hex = '0xff') =>
+    ({ isUtf8: value !== '', toUtf8: () => value, toHex: () => hex } as unknown as Bytes);
+  const attributes = (data: Record<string, string>) =>
+    new Map(Object.entries(data).map(([key, value]) => [bytes(key), bytes(value)])) as unknown as BTreeMap<
+      Bytes,
+      Bytes
+    >;
+
+  test('decode and encode the class properties', () => {
+    expect(decodeProperties(0b0101)).toEqual({
+      transferable: true,
+      burnable: false,
+      mintable: true,
+      classPropertiesMutable: false
+    });
+    expect(encodeProperties({ burnable: true, classPropertiesMutable: true })).toBe(0b1010);
+    expect(decodeProperties(encodeProperties({ transferable: true, burnable: true }))).toEqual({
+      transferable: true,
+      burnable: true,
+      mintable: false,
+      classPropertiesMutable: false
+    });
+  });
+
+  test('decode the metadata cid and fallback to hex', () => {
+    expect(decodeCID(bytes('QmCID'))).toBe('QmCID');
+    expect(decodeCID(bytes('', '0x00ff'))).toBe('0x00ff');
+    expect(decodeAttributes(attributes({ color: 'red', size: 'large' }))).toEqual({ color: 'red', size: 'large' });
+  });
+
+  test('count the utf8 bytes of the metadata and attributes', () => {
+    expect(getDataBytes('QmCID')).toEqual([5, 0]);
+    // the multi-byte characters are counted by their utf8 length
+    expect(getDataBytes('QmCID', { color: 'red', name: 'é' })).toEqual([5, 14]);
+  });
+
+  test('decode the class data', () => {
+    const data = {
+      owner: { toString: () => owner },
+      metadata: bytes('QmClass'),
+      totalIssuance: { toNumber: () => 3 },
+      data: {
+        deposit: { toString: () => '1500000000000' },
+        properties: { toNumber: () => 0b0011 },
+        attributes: attributes({ color: 'red' })
+      }
+    } as unknown as OrmlNftClassInfo;
+
+    const result = decodeClass(1, data, token);
+
+    expect(result.deposit.toNumber()).toBe(1.5);
+    expect({ ...result, deposit: undefined }).toEqual({
+      classId: 1,
+      owner,
+      metadata: 'QmClass',
+      totalIssuance: 3,
+      deposit: undefined,
+      properties: { transferable: true, burnable: true, mintable: false, classPropertiesMutable: false },
+      attributes: { color: 'red' }
+    });
+  });
+
+  test('decode the token data', () => {
+    const data = {
+      owner: { toString: () => owner },
+      metadata: bytes('QmToken'),
+      data: {
+        deposit: { toString: () => '200000000000' },
+        attributes: attributes({})
+      }
+    } as unknown as OrmlNftTokenInfo;
+
+    const result = decodeToken(1, 2, data, token);
+
+    expect(result.deposit.toNumber()).toBe(0.2);
+    expect({ ...result, deposit: undefined }).toEqual({
+      classId: 1,
+      tokenId: 2,
+      owner,
+      metadata: 'QmToken',
+      deposit: undefined,
+      attributes: {}
+    });
+  });
+});
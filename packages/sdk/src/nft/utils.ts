@@ -0,0 +1,65 @@
+import { BTreeMap, Bytes } from '@polkadot/types';
+import { OrmlNftClassInfo, OrmlNftTokenInfo } from '@polkadot/types/lookup';
+import { stringToU8a } from '@polkadot/util';
+import { FixedPointNumber, Token } from '@setheum.js/sdk-core';
+import { NftAttributes, NftClass, NftClassProperties, NftClassProperty, NftToken } from './type';
+
+export const decodeProperties = (bits: number): NftClassProperties => {
+  return {
+    transferable: (bits & NftClassProperty.TRANSFERABLE) !== 0,
+    burnable: (bits & NftClassProperty.BURNABLE) !== 0,
+    mintable: (bits & NftClassProperty.MINTABLE) !== 0,
+    classPropertiesMutable: (bits & NftClassProperty.CLASS_PROPERTIES_MUTABLE) !== 0
+  };
+};
+
+export const encodeProperties = (properties: Partial<NftClassProperties>): number => {
+  return (
+    (properties.transferable ? NftClassProperty.TRANSFERABLE : 0) |
+    (properties.burnable ? NftClassProperty.BURNABLE : 0) |
+    (properties.mintable ? NftClassProperty.MINTABLE : 0) |
+    (properties.classPropertiesMutable ? NftClassProperty.CLASS_PROPERTIES_MUTABLE : 0)
+  );
+};
+
+// the metadata is the CID of the external metadata, fallback to hex if it isn't an utf8 string
+export const decodeCID = (data: Bytes): string => {
+  return data.isUtf8 ? data.toUtf8() : data.toHex();
+};
+
+export const decodeAttributes = (data: BTreeMap<Bytes, Bytes>): NftAttributes => {
+  return Object.fromEntries(Array.from(data.entries()).map(([key, value]) => [decodeCID(key), decodeCID(value)]));
+};
+
+// the bytes of metadata and attributes which are charged by `nft.dataDepositPerByte`
+export const getDataBytes = (metadata: string, attributes: NftAttributes = {}): [number, number] => {
+  const attributesBytes = Object.entries(attributes).reduce(
+    (acc, [key, value]) => acc + stringToU8a(key).length + stringToU8a(value).length,
+    0
+  );
+
+  return [stringToU8a(metadata).length, attributesBytes];
+};
+
+export const decodeClass = (classId: number, data: OrmlNftClassInfo, nativeToken: Token): NftClass => {
+  return {
+    classId,
+    owner: data.owner.toString(),
+    metadata: decodeCID(data.metadata),
+    totalIssuance: data.totalIssuance.toNumber(),
+    deposit: FixedPointNumber.fromInner(data.data.deposit.toString(), nativeToken.decimals),
+    properties: decodeProperties(data.data.properties.toNumber()),
+    attributes: decodeAttributes(data.data.attributes)
+  };
+};
+
+export const decodeToken = (classId: number, tokenId: number, data: OrmlNftTokenInfo, nativeToken: Token): NftToken => {
+  return {
+    classId,
+    tokenId,
+    owner: data.owner.toString(),
+    metadata: decodeCID(data.metadata),
+    deposit: FixedPointNumber.fromInner(data.data.deposit.toString(), nativeToken.decimals),
+    attributes: decodeAttributes(data.data.attributes)
+  };
+};
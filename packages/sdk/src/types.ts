@@ -3,6 +3,7 @@ import { Observable } from 'rxjs';
 export interface BaseSDK {
   get isReady(): Promise<boolean>;
   get isReady$(): Observable<boolean>;
+  dispose(): void;
 }
 
 export const enum ChainType {
@@ -1 +1,3 @@
 export * from './storage';
+export * from './storage-manager';
+export * from './storage-batcher';
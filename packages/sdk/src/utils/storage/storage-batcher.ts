@@ -0,0 +1,129 @@
+import { ApiPromise, ApiRx } from '@polkadot/api';
+import { Codec } from '@polkadot/types/types';
+import { AnyApi } from '@setheum.js/sdk-core';
+import { Observable, Subscription } from 'rxjs';
+
+type QueryMultiArg = [unknown, ...unknown[]];
+
+interface BatchItem {
+  call: QueryMultiArg;
+  next: (data: Codec) => void;
+  error: (e: unknown) => void;
+  last?: Codec;
+}
+
+const batchers = new WeakMap<AnyApi, StorageBatcher>();
+
+export class StorageBatcher {
+  private api: AnyApi;
+  private items: Set<BatchItem>;
+  private subscription?: Subscription;
+  private scheduled: boolean;
+
+  constructor(api: AnyApi) {
+    this.api = api;
+    this.items = new Set<BatchItem>();
+    this.scheduled = false;
+  }
+
+  /**
+   * @name get
+   * @description get the storage batcher of `api`
+   */
+  static get(api: AnyApi): StorageBatcher {
+    let batcher = batchers.get(api);
+
+    if (!batcher) {
+      batcher = new StorageBatcher(api);
+      batchers.set(api, batcher);
+    }
+
+    return batcher;
+  }
+
+  /**
+   * @name subscribe
+   * @description subscribe the storage entry `query` with `params` through the shared `queryMulti` subscription
+   */
+  public subscribe<T extends Codec>(query: unknown, params: unknown[]): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const item: BatchItem = {
+        call: [query, ...params],
+        next: (data) => subscriber.next(data as T),
+        error: (e) => subscriber.error(e)
+      };
+
+      this.items.add(item);
+      this.schedule();
+
+      return () => {
+        this.items.delete(item);
+        this.schedule();
+      };
+    });
+  }
+
+  // the reads which are added or removed in the same tick only rebuild the subscription once
+  private schedule() {
+    if (this.scheduled) return;
+
+    this.scheduled = true;
+
+    Promise.resolve().then(() => {
+      this.scheduled = false;
+      this.rebuild();
+    });
+  }
+
+  private rebuild() {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+
+    const items = Array.from(this.items);
+
+    if (items.length === 0) return;
+
+    this.subscription = this.queryMulti(items.map((item) => item.call)).subscribe({
+      next: (result) => {
+        items.forEach((item, i) => {
+          // the values which are not changed are emitted again after rebuilding, skip them
+          if (item.last && item.last.eq(result[i])) return;
+
+          item.last = result[i];
+          item.next(result[i]);
+        });
+      },
+      error: (e) => items.forEach((item) => item.error(e))
+    });
+  }
+
+  private queryMulti(calls: QueryMultiArg[]): Observable<Codec[]> {
+    if (this.api.type === 'rxjs') {
+      return (this.api as ApiRx).queryMulti<Codec[]>(calls as Parameters<ApiRx['queryMulti']>[0]);
+    }
+
+    const api = this.api as ApiPromise;
+
+    return new Observable<Codec[]>((subscriber) => {
+      let closed = false;
+      let unsub: (() => void) | undefined;
+
+      api
+        .queryMulti<Codec[]>(calls as Parameters<ApiPromise['queryMulti']>[0], (result: Codec[]) =>
+          subscriber.next(result)
+        )
+        .then((result) => {
+          if (closed) return result();
+
+          unsub = result;
+        })
+        .catch((e) => subscriber.error(e));
+
+      return () => {
+        closed = true;
+
+        if (unsub) unsub();
+      };
+    });
+  }
+}
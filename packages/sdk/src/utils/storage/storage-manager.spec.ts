@@ -0,0 +1,151 @@
+import { ApiRx } from '@polkadot/api';
+import { Observable, Subscriber } from 'rxjs';
+import { Storage } from './storage';
+import { StorageManager } from './storage-manager';
+
+describe('storage manager', () => {
+  const createApi = () => {
+    const subscribers: Subscriber<string>[] = [];
+    const account = jest.fn(
+      (address: string) =>
+        new Observable<string>((subscriber) => {
+          subscribers.push(subscriber);
+          subscriber.next(`${address}-0`);
+
+          return () => subscribers.splice(subscribers.indexOf(subscriber), 1);
+        })
+    );
+    const api = { type: 'rxjs', query: { system: { account } } } as unknown as ApiRx;
+
+    return { api, account, subscribers };
+  };
+
+  // the query function is resolved asynchronously
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const create = (api: ApiRx, address: string) => {
+    return Storage.create<string>({ api, path: 'query.system.account', params: [address] });
+  };
+
+  test('share the storage of the identical queries', () => {
+    const { api } = createApi();
+
+    expect(create(api, 'alice')).toBe(create(api, 'alice'));
+    expect(create(api, 'alice')).not.toBe(create(api, 'bob'));
+    expect(StorageManager.get(api).size).toBe(2);
+    // the storages of different apis are not shared
+    expect(create(createApi().api, 'alice')).not.toBe(create(api, 'alice'));
+  });
+
+  test('subscribe the upstream once for all observers', async () => {
+    const { api, account, subscribers } = createApi();
+    const received: string[] = [];
+
+    const sub1 = create(api, 'alice').observable.subscribe((data) => received.push(`1:${data}`));
+    const sub2 = create(api, 'alice').observable.subscribe((data) => received.push(`2:${data}`));
+
+    await flush();
+    subscribers[0].next('alice-1');
+
+    expect(account).toHaveBeenCalledTimes(1);
+    expect(received).toEqual(['1:alice-0', '2:alice-0', '1:alice-1', '2:alice-1']);
+
+    sub1.unsubscribe();
+
+    expect(subscribers).toHaveLength(1);
+
+    // the upstream is closed after the last observer leaves
+    sub2.unsubscribe();
+
+    expect(subscribers).toHaveLength(0);
+  });
+
+  test('reuse the storage after the upstream is closed', async () => {
+    const { api, account, subscribers } = createApi();
+    const storage = create(api, 'alice');
+    const memoized = storage.observable;
+    const sub = memoized.subscribe();
+
+    await flush();
+    sub.unsubscribe();
+
+    // the idle storage is kept, so the memoized observable and the new queries still share it
+    expect(create(api, 'alice')).toBe(storage);
+
+    const sub1 = memoized.subscribe();
+    const sub2 = create(api, 'alice').observable.subscribe();
+
+    await flush();
+
+    expect(account).toHaveBeenCalledTimes(2);
+    expect(subscribers).toHaveLength(1);
+
+    sub1.unsubscribe();
+    sub2.unsubscribe();
+  });
+
+  test('dispose all storages', async () => {
+    const { api, subscribers } = createApi();
+    const complete = jest.fn();
+
+    create(api, 'alice').observable.subscribe({ complete });
+    create(api, 'bob').observable.subscribe({ complete });
+
+    await flush();
+
+    expect(subscribers).toHaveLength(2);
+
+    StorageManager.get(api).dispose();
+
+    expect(subscribers).toHaveLength(0);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(StorageManager.get(api).size).toBe(0);
+    // a new storage is created after dispose
+    expect(StorageManager.get(api).create({ path: 'query.system.account', params: ['alice'] })).not.toBeUndefined();
+    expect(StorageManager.get(api).size).toBe(1);
+  });
+
+  test('release the storages of the owner only', async () => {
+    const { api, subscribers } = createApi();
+    const [module1, module2] = [{}, {}];
+    const complete = jest.fn();
+    const createOwned = (address: string, owner?: unknown) => {
+      return Storage.create<string>({ api, path: 'query.system.account', params: [address], owner });
+    };
+
+    createOwned('alice', module1).observable.subscribe({ complete });
+    createOwned('bob', module1).observable.subscribe();
+    createOwned('bob', module2).observable.subscribe();
+    createOwned('charlie', module1).observable.subscribe();
+    createOwned('charlie').observable.subscribe();
+
+    await flush();
+
+    StorageManager.get(api).release(module1);
+
+    // the storages of bob and charlie are still used by module2 and the storage created without owner
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(subscribers).toHaveLength(2);
+    expect(StorageManager.get(api).size).toBe(2);
+
+    StorageManager.get(api).release(module2);
+
+    expect(subscribers).toHaveLength(1);
+    expect(StorageManager.get(api).size).toBe(1);
+  });
+
+  test('query the genesis block when at is zero', async () => {
+    const { api, account } = createApi();
+    const genesisAccount = jest.fn(() => new Observable<string>((subscriber) => subscriber.next('genesis')));
+
+    Object.assign(api, {
+      rpc: { chain: { getBlockHash: jest.fn(() => new Observable((subscriber) => subscriber.next('0x00'))) } },
+      at: jest.fn(() => Promise.resolve({ query: { system: { account: genesisAccount } } }))
+    });
+
+    const storage = Storage.create<string>({ api, path: 'query.system.account', params: ['alice'], at: 0 });
+
+    expect(await storage.query()).toBe('genesis');
+    expect(account).not.toHaveBeenCalled();
+  });
+});
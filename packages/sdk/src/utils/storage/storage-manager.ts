@@ -0,0 +1,109 @@
+import { stringify } from '@polkadot/util';
+import { AnyApi } from '@setheum.js/sdk-core';
+import { Storage } from './storage';
+import { StorageConfigs, StorageOwner } from './types';
+
+const managers = new WeakMap<AnyApi, StorageManager>();
+
+export class StorageManager {
+  private api: AnyApi;
+  private storages: Map<string, Storage<any>>;
+  // the owners of each storage, the storage created without owner is held until the manager is disposed
+  private owners: Map<string, Set<StorageOwner>>;
+
+  constructor(api: AnyApi) {
+    this.api = api;
+    this.storages = new Map<string, Storage<any>>();
+    this.owners = new Map<string, Set<StorageOwner>>();
+  }
+
+  /**
+   * @name get
+   * @description get the storage manager of `api`, all sdk modules which use the same api share the same manager
+   */
+  static get(api: AnyApi): StorageManager {
+    let manager = managers.get(api);
+
+    if (!manager) {
+      manager = new StorageManager(api);
+      managers.set(api, manager);
+    }
+
+    return manager;
+  }
+
+  private getKey(configs: StorageConfigs): string {
+    const { path, params, at, triggleEvents, batch } = configs;
+
+    return stringify([path, params, at?.toString(), triggleEvents, !!batch]);
+  }
+
+  /**
+   * @name create
+   * @description get the storage of `configs`, the identical queries share one storage and one upstream subscription,
+   * `owner` is recorded so that the storage is released by `release(owner)`
+   */
+  public create<T = unknown>(configs: Omit<StorageConfigs, 'api'>): Storage<T> {
+    const { owner, ...others } = configs;
+    const storageConfigs = { ...others, api: this.api };
+    const key = this.getKey(storageConfigs);
+    const cached = this.storages.get(key);
+
+    if (cached) {
+      this.owners.get(key)?.add(owner);
+
+      return cached as Storage<T>;
+    }
+
+    // the idle storage is kept until it is disposed, it only subscribes the upstream when it has observers
+    const storage = new Storage<T>(storageConfigs, () => {
+      // the storage may be replaced after dispose
+      if (this.storages.get(key) === storage) {
+        this.storages.delete(key);
+        this.owners.delete(key);
+      }
+    });
+
+    this.storages.set(key, storage);
+    this.owners.set(key, new Set([owner]));
+
+    return storage;
+  }
+
+  /**
+   * @name release
+   * @description release the storages of `owner`, the storages which are still used by other owners are kept
+   */
+  public release(owner: StorageOwner): void {
+    const released: Storage<any>[] = [];
+
+    this.owners.forEach((owners, key) => {
+      if (!owners.delete(owner) || owners.size !== 0) return;
+
+      released.push(this.storages.get(key) as Storage<any>);
+    });
+
+    released.forEach((item) => item.dispose());
+  }
+
+  /**
+   * @name size
+   * @description the count of the storages which are not disposed
+   */
+  public get size(): number {
+    return this.storages.size;
+  }
+
+  /**
+   * @name dispose
+   * @description close all upstream subscriptions and complete all observers of the storages
+   */
+  public dispose(): void {
+    const storages = Array.from(this.storages.values());
+
+    this.storages.clear();
+    this.owners.clear();
+
+    storages.forEach((item) => item.dispose());
+  }
+}
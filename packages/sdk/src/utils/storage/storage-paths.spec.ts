@@ -0,0 +1,59 @@
+import { ApiRx } from '@polkadot/api';
+import { expandMetadata, Metadata, TypeRegistry } from '@polkadot/types';
+import { Token } from '@setheum.js/sdk-core';
+import metadata from '@setheum.js/types/metadata/static-latest';
+import { createStorages as createNftStorages } from '../../nft/storages';
+import { createStorages as createVaultStorages } from '../../vault/storages';
+import { createStorages as createVestingStorages } from '../../vesting/storages';
+import { createStorages as createWalletStorages } from '../../wallet/storages';
+import { Storage } from './storage';
+import { StorageConfigs } from './types';
+
+// the query augmentations are not generated from the metadata, so the storage paths are checked against the runtime
+describe('storage paths', () => {
+  const registry = new TypeRegistry();
+  const runtime = new Metadata(registry, metadata);
+
+  // the evm origin extension of the runtime has no extra data
+  registry.setMetadata(runtime, undefined, { SetEvmOrigin: { extrinsic: {}, payload: {} } });
+
+  const { query } = expandMetadata(registry, runtime);
+
+  const collectPaths = (storages: Record<string, (...params: any[]) => unknown>): string[] => {
+    const paths: string[] = [];
+    const spy = jest.spyOn(Storage, 'create').mockImplementation((configs: StorageConfigs) => {
+      paths.push(configs.path);
+
+      return {} as Storage;
+    });
+    const token = new Token('SETM', { decimals: 12 });
+
+    jest.spyOn(token, 'toTradingPair').mockReturnValue({} as ReturnType<Token['toTradingPair']>);
+    Object.values(storages).forEach((create) => create(token, 'alice'));
+    spy.mockRestore();
+
+    return paths;
+  };
+
+  test('the storage paths exist in the runtime metadata', () => {
+    const api = { registry: { chainTokens: ['SETM'] } } as unknown as ApiRx;
+    const paths = [
+      ...collectPaths(createNftStorages(api)),
+      ...collectPaths(createVaultStorages(api)),
+      ...collectPaths(createVestingStorages(api)),
+      ...collectPaths(createWalletStorages(api))
+    ];
+
+    const missing = paths.filter((path) => {
+      const [, section, method] = path.split('.');
+
+      // the asset registry pallet is not in the static metadata yet
+      if (section === 'assetRegistry') return false;
+
+      return !(query[section] && query[section][method]);
+    });
+
+    expect(paths.length).toBeGreaterThan(0);
+    expect(missing).toEqual([]);
+  });
+});
@@ -1,36 +1,75 @@
-import { eventsFilterCallback, eventsFilterRx } from '@setheum.js/sdk-core';
+import { EventBus, getApiAt } from '@setheum.js/sdk-core';
 import { ApiPromise, ApiRx } from '@polkadot/api';
-import { BlockHash } from '@polkadot/types/interfaces';
-import { BehaviorSubject, Observable, Subject, Subscription, of, from, firstValueFrom } from 'rxjs';
-import { switchMap, filter } from 'rxjs/operators';
+import { BehaviorSubject, Observable, Subscription, defer, firstValueFrom } from 'rxjs';
+import { switchMap, filter, take } from 'rxjs/operators';
 import { NoQueryPath } from './error';
+import { StorageBatcher } from './storage-batcher';
+import { StorageManager } from './storage-manager';
 import { StorageConfigs } from './types';
 
+type QueryFN = (...params: any[]) => any;
+
 export class Storage<T = unknown> {
   private configs: StorageConfigs;
-  private subject: Subject<T>;
-  private subscriber!: Subscription;
+  private subject: BehaviorSubject<T>;
+  private subscriber?: Subscription;
+  private refCount: number;
+  private disposed: boolean;
+  private onDispose?: () => void;
 
-  constructor(configs: StorageConfigs) {
+  constructor(configs: StorageConfigs, onDispose?: () => void) {
     this.configs = configs;
     this.subject = new BehaviorSubject<T>(undefined as unknown as T);
-    this.doSubscriber();
+    this.refCount = 0;
+    this.disposed = false;
+    this.onDispose = onDispose;
   }
 
+  /**
+   * @name create
+   * @description get the shared storage of `configs` from the storage manager of `configs.api`
+   */
   static create<T = unknown>(configs: StorageConfigs): Storage<T> {
-    return new Storage<T>(configs);
+    const { api, ...others } = configs;
+
+    return StorageManager.get(api).create<T>(others);
   }
 
-  private doSubscriber() {
+  // subscribe the upstream when the first observer comes
+  private connect() {
+    this.refCount += 1;
+
+    if (this.refCount !== 1) return;
+
     this.subscriber = this.process().subscribe({
-      next: (data) => {
-        this.subject.next(data);
-      }
+      next: (data) => this.subject.next(data),
+      error: (e) => this.subject.error(e)
     });
   }
 
-  private process() {
-    const { api } = this.configs;
+  // unsubscribe the upstream when the last observer leaves
+  private release() {
+    if (this.disposed) return;
+
+    this.refCount -= 1;
+
+    if (this.refCount !== 0) return;
+
+    this.subscriber?.unsubscribe();
+    this.subscriber = undefined;
+    // drop the outdated value, the next observer will wait for the new one
+    // the storage is kept in the manager, so the memoized observables still share it after resubscribing
+    this.subject = new BehaviorSubject<T>(undefined as unknown as T);
+  }
+
+  private process(): Observable<T> {
+    const { api, params, batch, triggleEvents } = this.configs;
+
+    if (batch && !triggleEvents && this.isSubscription) {
+      return defer(() => this.getQueryFN()).pipe(
+        switchMap((func) => StorageBatcher.get(api).subscribe(func, params) as unknown as Observable<T>)
+      );
+    }
 
     if (api.type === 'promise') {
       return this.processWithApiPromise();
@@ -39,99 +78,130 @@ export class Storage<T = unknown> {
     }
   }
 
-  private getQueryFN(api: ApiRx | ApiPromise, path: string, at?: string): any {
-    const arr = path.split('.');
-    const start = at ? api.at(at) : api;
+  private async getQueryFN(): Promise<QueryFN> {
+    const { api, path, at } = this.configs;
+    const start: unknown = at !== undefined ? await getApiAt(api, at) : api;
 
-    return arr.reduce((acc, pathItem) => {
+    const func = path.split('.').reduce((acc, pathItem) => {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-      return (acc as any)[pathItem];
-    }, start);
-  }
+      return (acc as any)?.[pathItem];
+    }, start) as QueryFN | undefined;
 
-  private getBlockHash = (at?: number | string): Observable<BlockHash> => {
-    const api = this.configs.api;
-    if (!at) return of('' as unknown as BlockHash);
+    if (!func) throw new NoQueryPath(path);
 
-    if (at && typeof at === 'string') return of(at as unknown as BlockHash);
+    return func;
+  }
 
-    if (api.type === 'promise') {
-      return from(
-        (async () => {
-          return (api as ApiPromise).rpc.chain.getBlockHash(at);
-        })()
-      );
-    } else {
-      return (api as ApiRx).rpc.chain.getBlockHash(at);
-    }
-  };
+  // only the storage entries of the latest block support the subscription in promise api and `queryMulti`
+  private get isSubscription(): boolean {
+    const { path, at } = this.configs;
+
+    return at === undefined && /^query\.\w+\.\w+$/.test(path);
+  }
 
   private processWithApiRx(): Observable<T> {
-    const { path, params, at, triggleEvents } = this.configs;
+    const { params, triggleEvents } = this.configs;
     const api = this.configs.api as ApiRx;
 
-    const inner = (atHash?: string) => {
-      const func = this.getQueryFN(api, path, atHash) as (...params: any[]) => Observable<T>;
-
-      if (func) {
-        return func(...params);
-      }
-
-      throw new NoQueryPath(path);
-    };
+    const query$ = defer(() => this.getQueryFN()).pipe(switchMap((func) => func(...params) as Observable<T>));
 
     if (triggleEvents) {
-      return eventsFilterRx(api, triggleEvents, true).pipe(
-        switchMap(() => {
-          return this.getBlockHash(at).pipe(
-            switchMap((hash) => {
-              return api.rpc.chain.subscribeFinalizedHeads().pipe(
-                switchMap(() => {
-                  return inner(hash.toString());
-                })
-              );
-            })
-          );
-        })
-      );
+      // query once for each event, the pending query is cancelled by the next event
+      return EventBus.get(api)
+        .subscribe(triggleEvents, { initial: true })
+        .pipe(switchMap(() => query$.pipe(take(1))));
     }
 
-    return this.getBlockHash(at).pipe(switchMap((hash) => inner(hash.toString())));
+    return query$;
   }
 
   private processWithApiPromise(): Observable<T> {
-    const { path, params, at, triggleEvents } = this.configs;
+    const { params, triggleEvents } = this.configs;
     const api = this.configs.api as ApiPromise;
 
-    return new Observable((subscriber) => {
-      (async () => {
-        const atHash = at ? await api.rpc.chain.getBlockHash(at) : '';
+    return new Observable<T>((subscriber) => {
+      let closed = false;
+      let unsub: (() => void) | undefined;
+      let queryId = 0;
 
-        const func = this.getQueryFN(api, path, atHash.toString()) as (...params: any[]) => void;
+      const query = async () => {
+        const func = await this.getQueryFN();
 
-        params.push((result: T) => {
-          subscriber.next(result);
-        });
+        if (triggleEvents || !this.isSubscription) {
+          const id = ++queryId;
+          const result = (await func(...params)) as T;
 
-        if (triggleEvents) {
-          eventsFilterCallback(api, triggleEvents, true, () => {
-            api.rpc.chain.subscribeFinalizedHeads(() => {
-              func(...params);
-            });
-          });
-        } else {
-          func(...params);
+          // ignore the result of the outdated query
+          if (!closed && id === queryId) subscriber.next(result);
+
+          return;
         }
-      })();
+
+        // don't push the callback into `params`, they are shared by the same storages
+        const result = (await func(...params, (data: T) => subscriber.next(data))) as () => void;
+
+        if (closed) return result();
+
+        unsub = result;
+      };
+
+      const onError = (e: unknown) => subscriber.error(e);
+
+      if (triggleEvents) {
+        const off = EventBus.get(api).on(triggleEvents, () => query().catch(onError), { initial: true });
+
+        return () => {
+          closed = true;
+          off();
+        };
+      }
+
+      query().catch(onError);
+
+      return () => {
+        closed = true;
+
+        if (unsub) unsub();
+      };
     });
   }
 
+  /**
+   * @deprecated use `dispose` or unsubscribe all observers instead
+   */
   public unsub(): void {
-    this.subscriber.unsubscribe();
+    this.dispose();
+  }
+
+  /**
+   * @name dispose
+   * @description close the upstream subscription and complete all observers
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+
+    this.disposed = true;
+    this.refCount = 0;
+    this.subscriber?.unsubscribe();
+    this.subscriber = undefined;
+    this.subject.complete();
+
+    if (this.onDispose) this.onDispose();
   }
 
   get observable(): Observable<T> {
-    return this.subject.asObservable().pipe(filter((i) => !!i));
+    return new Observable<T>((subscriber) => {
+      if (this.disposed) return subscriber.complete();
+
+      this.connect();
+
+      const subscription = this.subject.pipe(filter((i) => !!i)).subscribe(subscriber);
+
+      return () => {
+        subscription.unsubscribe();
+        this.release();
+      };
+    });
   }
 
   public async query(): Promise<T> {
@@ -1,14 +1,21 @@
 import { ApiPromise, ApiRx } from '@polkadot/api';
+import { QueryAt } from '@setheum.js/sdk-core';
 
 interface TriggleEvent {
   method: string;
   section: string;
 }
 
+// the sdk module which creates the storage
+export type StorageOwner = unknown;
+
 export interface StorageConfigs {
   api: ApiPromise | ApiRx;
   path: string;
   params: any[];
-  at?: number;
+  at?: QueryAt;
   triggleEvents?: TriggleEvent[];
+  // coalesce the reads of storage entries in the same tick into one `queryMulti` subscription
+  batch?: boolean;
+  owner?: StorageOwner;
 }
@@ -0,0 +1,8 @@
+export class CollateralTypeNotEnabled extends Error {
+  constructor(name: string) {
+    super();
+
+    this.message = `${name} is not an enabled collateral type in current network`;
+    this.name = 'CollateralTypeNotEnabled';
+  }
+}
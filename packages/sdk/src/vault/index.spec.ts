@@ -0,0 +1,120 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { of } from 'rxjs';
+import { Wallet } from '../wallet';
+import { PriceProviderType } from '../wallet/price-provider/types';
+import { CollateralTypeNotEnabled } from './error';
+import { Vault } from '.';
+
+describe('vault', () => {
+  const owner = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const tokens: Record<string, Token> = {
+    SETM: new Token('SETM', { decimals: 12 }),
+    DNAR: new Token('DNAR', { decimals: 12 }),
+    SETUSD: new Token('SETUSD', { decimals: 12 })
+  };
+
+  const some = (value: string) => ({ isSome: true, unwrap: () => value });
+  const none = { isSome: false };
+  const toPosition = (collateral: number, debit: number) => ({
+    collateral: (collateral * 1e12).toString(),
+    debit: (debit * 1e12).toString()
+  });
+
+  const createVault = (positions: Record<string, ReturnType<typeof toPosition>>) => {
+    const api = {
+      consts: {
+        cdpEngine: {
+          getSetUSDId: 'SETUSD',
+          collateralCurrencyIds: ['SETM', 'DNAR'],
+          defaultDebitExchangeRate: '100000000000000000',
+          defaultLiquidationRatio: '2000000000000000000'
+        }
+      }
+    };
+    const wallet = {
+      subscribeToken: (currency: MaybeCurrency) => of(tokens[forceToCurrencyName(currency)]),
+      subscribePrice: jest.fn((token: Token) => of(token.name === 'SETM' ? new FN(3) : new FN(1)))
+    };
+    const vault = new Vault(api as unknown as ApiRx, wallet as unknown as Wallet);
+
+    // replace the chain storages by the static data
+    (vault as unknown as { storages: unknown }).storages = {
+      position: (token: Token) => ({ observable: of(positions[token.name] || toPosition(0, 0)) }),
+      totalPositions: () => ({ observable: of(toPosition(1000, 5000)) }),
+      debitExchangeRate: (token: Token) => ({
+        observable: of(token.name === 'SETM' ? none : some('200000000000000000'))
+      }),
+      collateralParams: (token: Token) => ({
+        observable: of({
+          liquidationRatio: token.name === 'SETM' ? some('1500000000000000000') : none,
+          requiredCollateralRatio: none,
+          maximumTotalDebitValue: (1000 * 1e12).toString()
+        })
+      })
+    };
+
+    return { vault, wallet };
+  };
+
+  test('get the enabled collateral types', async () => {
+    const { vault } = createVault({});
+
+    expect(await vault.getEnabledTypes()).toEqual([tokens.SETM, tokens.DNAR]);
+    expect(await vault.getEnabledType('SETM')).toBe(tokens.SETM);
+    await expect(vault.getEnabledType('SETUSD')).rejects.toThrow(CollateralTypeNotEnabled);
+    await expect(vault.getEnabledType('SETUSD')).rejects.toThrow(
+      'SETUSD is not an enabled collateral type in current network'
+    );
+  });
+
+  test('fallback to the default vault params', async () => {
+    const { vault } = createVault({});
+    const setm = await vault.getVaultParams('SETM');
+    const dnar = await vault.getVaultParams('DNAR');
+
+    expect(setm.debitExchangeRate.toNumber()).toBe(0.1);
+    expect(setm.liquidationRatio.toNumber()).toBe(1.5);
+    // the required collateral ratio falls back to the liquidation ratio
+    expect(setm.requiredCollateralRatio.toNumber()).toBe(1.5);
+    expect(setm.maximumTotalDebitValue.toNumber()).toBe(1000);
+    expect(dnar.debitExchangeRate.toNumber()).toBe(0.2);
+    expect(dnar.liquidationRatio.toNumber()).toBe(2);
+  });
+
+  test('calculate the vault of the owner', async () => {
+    const { vault, wallet } = createVault({ SETM: toPosition(100, 1000) });
+    const data = await vault.getVault('SETM', owner);
+
+    expect(wallet.subscribePrice).toHaveBeenCalledWith(tokens.SETM, PriceProviderType.ORACLE);
+    // the debit amount is the debit times the debit exchange rate
+    expect(data.debit.amount.toNumber()).toBe(100);
+    expect(data.collateral.value.toNumber()).toBe(300);
+    expect(data.collateralRatio.toNumber()).toBe(3);
+    expect(data.requiredCollateral.amount.toNumber()).toBe(50);
+    expect(data.liquidationPrice.toNumber()).toBe(1.5);
+    expect(data.maxGenerate.amount.toNumber()).toBe(200);
+    expect(data.canGenerate.amount.toNumber()).toBe(100);
+    expect(data.canPayBack.toNumber()).toBe(100);
+    expect(data.canWithdraw.toNumber()).toBe(50);
+    expect(data.global.remainedDebit.amount.toNumber()).toBe(500);
+  });
+
+  test('the empty vault can not generate or withdraw', async () => {
+    const { vault } = createVault({});
+    const data = await vault.getVault('SETM', owner);
+
+    expect(data.canGenerate.amount.isZero()).toBe(true);
+    expect(data.canWithdraw.isZero()).toBe(true);
+    expect(data.liquidationPrice.isNaN()).toBe(true);
+  });
+
+  test('get the overview of the opened vaults', async () => {
+    const { vault } = createVault({ SETM: toPosition(100, 1000) });
+    const overview = await vault.getOverview(owner);
+
+    expect(overview.vaults.map((item) => item.type)).toEqual([tokens.SETM]);
+    expect(overview.totalCollateral.toNumber()).toBe(300);
+    expect(overview.totalDebit.toNumber()).toBe(100);
+  });
+});
@@ -1,28 +1,297 @@
-/* eslint-disable */
-// @ts-nocheck
-
 /**
- * The vault sdk providers some usefull query, and create calls to manipulte user valult
+ * The vault sdk providers some usefull query about the collateralized debit positions
  */
 
-import { AnyApi, Token } from '@setheum.js/sdk-core';
+import { AnyApi, FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { Position } from '@setheum.js/types/interfaces';
+import { memoize } from '@polkadot/util';
+import { BehaviorSubject, combineLatest, firstValueFrom, Observable, of } from 'rxjs';
+import { filter, map, switchMap } from 'rxjs/operators';
+import { BaseSDK } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Wallet } from '../wallet';
+import { PriceProviderType } from '../wallet/price-provider/types';
+import { CollateralTypeNotEnabled } from './error';
+import { createStorages } from './storages';
+import { AmountData, GlobalVault, VaultData, VaultParams, VaultsOverview } from './type';
 
-export class Vault {
+export class Vault implements BaseSDK {
   private api: AnyApi;
+  private storages: ReturnType<typeof createStorages>;
+  private wallet: Wallet;
+
+  public isReady$: BehaviorSubject<boolean>;
 
-  constructor(api: AnyApi) {
+  constructor(api: AnyApi, wallet: Wallet) {
     this.api = api;
+    this.storages = createStorages(this.api, this);
+    this.wallet = wallet;
+    this.isReady$ = new BehaviorSubject<boolean>(true);
+  }
+
+  public get isReady(): Promise<boolean> {
+    return firstValueFrom(this.isReady$.pipe(filter((i) => i)));
   }
 
-  public subscribeVault(currency: Token, address: string) {
-    // PASS
+  /**
+   * @name dispose
+   * @description release the storages created by the module, the storages shared with other sdk modules are kept
+   */
+  public dispose(): void {
+    StorageManager.get(this.api).release(this);
   }
 
-  public subscribeEnabledType () {
-    // PASS
+  private get stableToken$(): Observable<Token> {
+    return this.wallet.subscribeToken(this.api.consts.cdpEngine.getSetUSDId);
+  }
+
+  /**
+   * @name subscribeEnabledTypes
+   * @description subscribe all collateral types which are enabled in cdp engine
+   */
+  public subscribeEnabledTypes = memoize((): Observable<Token[]> => {
+    const collateralCurrencyIds = this.api.consts.cdpEngine.collateralCurrencyIds;
+
+    if (collateralCurrencyIds.length === 0) return of([]);
+
+    return combineLatest(collateralCurrencyIds.map((item) => this.wallet.subscribeToken(item)));
+  });
+
+  public async getEnabledTypes(): Promise<Token[]> {
+    return firstValueFrom(this.subscribeEnabledTypes());
   }
 
-  public subscribeOverview(address: string) {
-    // PASS
+  /**
+   * @name subscribeEnabledType
+   * @description subscribe the collateral type `target`, throw CollateralTypeNotEnabled if the `target` is not a collateral
+   */
+  public subscribeEnabledType = memoize((target: MaybeCurrency): Observable<Token> => {
+    const name = forceToCurrencyName(target);
+
+    return this.subscribeEnabledTypes().pipe(
+      map((types) => {
+        const result = types.find((item) => item.name === name);
+
+        if (!result) throw new CollateralTypeNotEnabled(name);
+
+        return result;
+      })
+    );
+  });
+
+  public async getEnabledType(target: MaybeCurrency): Promise<Token> {
+    return firstValueFrom(this.subscribeEnabledType(target));
+  }
+
+  /**
+   * @name subscribeVaultParams
+   * @description subscribe the risk management params of the collateral type `target`
+   */
+  public subscribeVaultParams = memoize((target: MaybeCurrency): Observable<VaultParams> => {
+    const defaultDebitExchangeRate = FN.fromInner(this.api.consts.cdpEngine.defaultDebitExchangeRate.toString());
+    const defaultLiquidationRatio = FN.fromInner(this.api.consts.cdpEngine.defaultLiquidationRatio.toString());
+
+    return combineLatest([this.subscribeEnabledType(target), this.stableToken$]).pipe(
+      switchMap(([token, stableToken]) => {
+        return combineLatest([
+          this.storages.debitExchangeRate(token).observable,
+          this.storages.collateralParams(token).observable
+        ]).pipe(
+          map(([debitExchangeRate, collateralParams]) => {
+            const liquidationRatio = collateralParams.liquidationRatio.isSome
+              ? FN.fromInner(collateralParams.liquidationRatio.unwrap().toString())
+              : defaultLiquidationRatio;
+
+            return {
+              debitExchangeRate: debitExchangeRate.isSome
+                ? FN.fromInner(debitExchangeRate.unwrap().toString())
+                : defaultDebitExchangeRate,
+              maximumTotalDebitValue: FN.fromInner(
+                collateralParams.maximumTotalDebitValue.toString(),
+                stableToken.decimal
+              ),
+              liquidationRatio,
+              // the cdp engine only checks the required collateral ratio when it is set, fallback to liquidation ratio
+              requiredCollateralRatio: collateralParams.requiredCollateralRatio.isSome
+                ? FN.fromInner(collateralParams.requiredCollateralRatio.unwrap().toString())
+                : liquidationRatio
+            };
+          })
+        );
+      })
+    );
+  });
+
+  public async getVaultParams(target: MaybeCurrency): Promise<VaultParams> {
+    return firstValueFrom(this.subscribeVaultParams(target));
+  }
+
+  /**
+   * @name subscribeGlobalVault
+   * @description subscribe the total collateral and debit of the collateral type `target`
+   */
+  public subscribeGlobalVault = memoize((target: MaybeCurrency): Observable<GlobalVault> => {
+    return combineLatest([this.subscribeEnabledType(target), this.stableToken$]).pipe(
+      switchMap(([token, stableToken]) => {
+        return combineLatest([
+          this.subscribeVaultParams(token),
+          this.storages.totalPositions(token).observable,
+          this.subscribeOraclePrice(token)
+        ]).pipe(
+          map(([params, totalPositions, price]) => {
+            const { collateral, debit } = this.getAmounts(totalPositions, token, stableToken, params, price);
+            const remainedDebitAmount = params.maximumTotalDebitValue.minus(debit.amount).max(FN.ZERO);
+
+            return {
+              type: token,
+              totalCollateral: collateral,
+              totalDebit: debit,
+              remainedDebit: { amount: remainedDebitAmount, value: remainedDebitAmount }
+            };
+          })
+        );
+      })
+    );
+  });
+
+  public async getGlobalVault(target: MaybeCurrency): Promise<GlobalVault> {
+    return firstValueFrom(this.subscribeGlobalVault(target));
+  }
+
+  /**
+   * @name subscribeVault
+   * @description subscribe the vault of `address` in the collateral type `target`
+   */
+  public subscribeVault = memoize((target: MaybeCurrency, address: string): Observable<VaultData> => {
+    return combineLatest([this.subscribeEnabledType(target), this.stableToken$]).pipe(
+      switchMap(([token, stableToken]) => {
+        return combineLatest([
+          this.subscribeVaultParams(token),
+          this.subscribeGlobalVault(token),
+          this.storages.position(token, address).observable,
+          this.subscribeOraclePrice(token)
+        ]).pipe(
+          map(([params, global, position, price]) => {
+            const { collateral, debit } = this.getAmounts(position, token, stableToken, params, price);
+            const { requiredCollateralRatio, liquidationRatio } = params;
+
+            const requiredCollateral = this.getRequiredCollateral(debit.amount, requiredCollateralRatio, price);
+            const maxGenerate = this.getMaxGenerate(collateral.value, requiredCollateralRatio);
+            const canGenerate = this.getCanGenerate(maxGenerate.amount, debit.amount, global.remainedDebit.amount);
+
+            return {
+              type: token,
+              owner: address,
+              params,
+              global,
+              debit,
+              collateral,
+              price,
+              collateralRatio: collateral.value.div(debit.value),
+              requiredCollateral,
+              liquidationPrice: this.getLiquidationPrice(collateral.amount, debit.amount, liquidationRatio),
+              liquidationRatio,
+              maxGenerate,
+              canGenerate,
+              canPayBack: debit.amount,
+              canWithdraw: collateral.amount.minus(requiredCollateral.amount).max(FN.ZERO)
+            };
+          })
+        );
+      })
+    );
+  });
+
+  public async getVault(target: MaybeCurrency, address: string): Promise<VaultData> {
+    return firstValueFrom(this.subscribeVault(target, address));
+  }
+
+  /**
+   * @name subscribeOverview
+   * @description subscribe all opened vaults of `address` and the total collateral value and debit of them
+   */
+  public subscribeOverview = memoize((address: string): Observable<VaultsOverview> => {
+    return this.subscribeEnabledTypes().pipe(
+      switchMap((types) => {
+        if (types.length === 0) return of([] as VaultData[]);
+
+        return combineLatest(types.map((item) => this.subscribeVault(item, address)));
+      }),
+      map((list) => {
+        const vaults = list.filter((item) => !item.collateral.amount.isZero() || !item.debit.amount.isZero());
+
+        return {
+          vaults,
+          totalCollateral: vaults.reduce((acc, item) => acc.plus(item.collateral.value), FN.ZERO),
+          totalDebit: vaults.reduce((acc, item) => acc.plus(item.debit.value), FN.ZERO)
+        };
+      })
+    );
+  });
+
+  public async getOverview(address: string): Promise<VaultsOverview> {
+    return firstValueFrom(this.subscribeOverview(address));
+  }
+
+  private subscribeOraclePrice(token: Token): Observable<FN> {
+    return this.wallet.subscribePrice(token, PriceProviderType.ORACLE).pipe(map((price) => price || FN.ZERO));
+  }
+
+  // the stable coin is treated as 1 USD, so that the debit value is equal to the debit amount
+  private getAmounts(
+    position: Position,
+    token: Token,
+    stableToken: Token,
+    params: VaultParams,
+    price: FN
+  ): { collateral: AmountData; debit: AmountData } {
+    const collateralAmount = FN.fromInner(position.collateral.toString(), token.decimal);
+    const debitAmount = FN.fromInner(position.debit.toString(), stableToken.decimal).times(params.debitExchangeRate);
+
+    return {
+      collateral: { amount: collateralAmount, value: collateralAmount.times(price) },
+      debit: { amount: debitAmount, value: debitAmount }
+    };
+  }
+
+  private getRequiredCollateral(debitAmount: FN, requiredCollateralRatio: FN, price: FN): AmountData {
+    const value = debitAmount.times(requiredCollateralRatio);
+    const amount = value.div(price);
+
+    if (amount.isLessThan(FN.ZERO) || !amount.isFinaite()) {
+      return { amount: FN.ZERO, value: FN.ZERO };
+    }
+
+    return { amount, value };
+  }
+
+  private getMaxGenerate(collateralValue: FN, requiredCollateralRatio: FN): AmountData {
+    const amount = collateralValue.div(requiredCollateralRatio);
+
+    if (amount.isLessThan(FN.ZERO) || !amount.isFinaite()) {
+      return { amount: FN.ZERO, value: FN.ZERO };
+    }
+
+    return { amount, value: amount };
+  }
+
+  private getCanGenerate(maxGenerate: FN, debitAmount: FN, remainedDebit: FN): AmountData {
+    const amount = maxGenerate.minus(debitAmount).min(remainedDebit);
+
+    if (amount.isLessThan(FN.ZERO) || !amount.isFinaite()) {
+      return { amount: FN.ZERO, value: FN.ZERO };
+    }
+
+    return { amount, value: amount };
+  }
+
+  private getLiquidationPrice(collateralAmount: FN, debitAmount: FN, liquidationRatio: FN): FN {
+    const result = debitAmount.times(liquidationRatio).div(collateralAmount);
+
+    if (result.isLessThan(FN.ZERO) || result.isZero() || !result.isFinaite()) {
+      return new FN(NaN);
+    }
+
+    return result;
   }
 }
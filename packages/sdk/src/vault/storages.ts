@@ -0,0 +1,44 @@
+import { AnyApi, Token } from '@setheum.js/sdk-core';
+import { ExchangeRate, Position, RiskManagementParams } from '@setheum.js/types/interfaces';
+import { Option } from '@polkadot/types';
+import { memoize } from '@polkadot/util';
+import { Storage } from '../utils/storage';
+import { StorageOwner } from '../utils/storage/types';
+
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export const createStorages = (api: AnyApi, owner?: StorageOwner) => {
+  return {
+    position: memoize((token: Token, address: string) => {
+      return Storage.create<Position>({
+        api: api,
+        owner,
+        path: 'query.loans.positions',
+        params: [token.toChainData(), address]
+      });
+    }),
+    totalPositions: memoize((token: Token) => {
+      return Storage.create<Position>({
+        api: api,
+        owner,
+        path: 'query.loans.totalPositions',
+        params: [token.toChainData()]
+      });
+    }),
+    debitExchangeRate: memoize((token: Token) => {
+      return Storage.create<Option<ExchangeRate>>({
+        api: api,
+        owner,
+        path: 'query.cdpEngine.debitExchangeRate',
+        params: [token.toChainData()]
+      });
+    }),
+    collateralParams: memoize((token: Token) => {
+      return Storage.create<RiskManagementParams>({
+        api: api,
+        owner,
+        path: 'query.cdpEngine.collateralParams',
+        params: [token.toChainData()]
+      });
+    })
+  };
+};
@@ -0,0 +1,17 @@
+export class InvalidVestingSchedule extends Error {
+  constructor(reason: string) {
+    super();
+
+    this.message = `invalid vesting schedule, ${reason}`;
+    this.name = 'InvalidVestingSchedule';
+  }
+}
+
+export class BelowMinVestedTransfer extends Error {
+  constructor(min: string) {
+    super();
+
+    this.message = `the total amount of vested transfer should not be less than ${min}`;
+    this.name = 'BelowMinVestedTransfer';
+  }
+}
@@ -0,0 +1,67 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { Wallet } from '../wallet';
+import { BelowMinVestedTransfer, InvalidVestingSchedule } from './error';
+import { Vesting } from '.';
+
+describe('vesting', () => {
+  const dest = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+
+  const createVesting = () => {
+    const api = {
+      type: 'rxjs',
+      consts: {
+        vesting: { getNativeCurrencyId: { Token: 'SETM' }, minVestedTransfer: { toString: () => '1000000000000' } }
+      },
+      tx: {
+        vesting: {
+          claim: jest.fn((...params: unknown[]) => params),
+          claimFor: jest.fn((...params: unknown[]) => params),
+          vestedTransfer: jest.fn((...params: unknown[]) => params)
+        }
+      }
+    };
+    const wallet = {
+      consts: { nativeCurrency: 'SETM' },
+      getToken: () => Promise.resolve(new Token('SETM', { decimals: 12 }))
+    };
+
+    return { api, vesting: new Vesting(api as unknown as ApiRx, wallet as unknown as Wallet) };
+  };
+
+  test('encode the amount of each period with the native token decimals', async () => {
+    const { api, vesting } = createVesting();
+
+    await vesting.createVestedTransfer(dest, { start: 100, period: 10, periodCount: 4, perPeriod: new FN(0.5) });
+
+    expect(api.tx.vesting.vestedTransfer).toHaveBeenCalledWith({ Token: 'SETM' }, dest, {
+      start: 100,
+      period: 10,
+      periodCount: 4,
+      perPeriod: '500000000000'
+    });
+  });
+
+  test('claim the native token vesting', () => {
+    const { api, vesting } = createVesting();
+
+    vesting.createClaim();
+    vesting.createClaim(dest);
+
+    expect(api.tx.vesting.claim).toHaveBeenCalledWith({ Token: 'SETM' });
+    expect(api.tx.vesting.claimFor).toHaveBeenCalledWith({ Token: 'SETM' }, dest);
+  });
+
+  test('validate the vesting schedule', async () => {
+    const { vesting } = createVesting();
+    const create = (periodCount: number, perPeriod: FN) => {
+      return vesting.createVestedTransfer(dest, { start: 100, period: 10, periodCount, perPeriod });
+    };
+
+    await expect(create(0, new FN(1))).rejects.toThrow(InvalidVestingSchedule);
+    await expect(create(4, FN.ZERO)).rejects.toThrow(InvalidVestingSchedule);
+    // the amount is zero in the native token decimals
+    await expect(create(4, new FN('0.0000000000001'))).rejects.toThrow(InvalidVestingSchedule);
+    await expect(create(4, new FN(0.2))).rejects.toThrow(BelowMinVestedTransfer);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * The vesting sdk lists the vesting schedules of an account and builds the vesting extrinsics
+ */
+
+import { AnyApi, FixedPointNumber as FN } from '@setheum.js/sdk-core';
+import { ApiPromise } from '@polkadot/api';
+import { ApiTypes, SubmittableExtrinsic } from '@polkadot/api/types';
+import { memoize } from '@polkadot/util';
+import { BehaviorSubject, combineLatest, firstValueFrom, Observable } from 'rxjs';
+import { filter, map, switchMap } from 'rxjs/operators';
+import { BaseSDK } from '../types';
+import { StorageManager } from '../utils/storage';
+import { Wallet } from '../wallet';
+import { BelowMinVestedTransfer, InvalidVestingSchedule } from './error';
+import { createStorages } from './storages';
+import { VestedTransferParams, VestingData, VestingScheduleData } from './type';
+import { decodeVestingSchedule, getUnlockTimeline, getVestingSummary } from './utils';
+
+export class Vesting implements BaseSDK {
+  private api: AnyApi;
+  private storages: ReturnType<typeof createStorages>;
+  private wallet: Wallet;
+
+  public isReady$: BehaviorSubject<boolean>;
+
+  constructor(api: AnyApi, wallet: Wallet) {
+    this.api = api;
+    this.storages = createStorages(this.api, this);
+    this.wallet = wallet;
+    this.isReady$ = new BehaviorSubject<boolean>(true);
+  }
+
+  public get isReady(): Promise<boolean> {
+    return firstValueFrom(this.isReady$.pipe(filter((i) => i)));
+  }
+
+  /**
+   * @name dispose
+   * @description release the storages created by the module, the storages shared with other sdk modules are kept
+   */
+  public dispose(): void {
+    StorageManager.get(this.api).release(this);
+  }
+
+  /**
+   * @name subscribeSchedules
+   * @description subscribe the vesting schedules of `address`
+   */
+  public subscribeSchedules = memoize((address: string): Observable<VestingScheduleData[]> => {
+    return this.wallet.subscribeToken(this.wallet.consts.nativeCurrency).pipe(
+      switchMap((token) => {
+        return this.storages
+          .vestingSchedules(address)
+          .observable.pipe(map((data) => data.map((item) => decodeVestingSchedule(item, token))));
+      })
+    );
+  });
+
+  public async getSchedules(address: string): Promise<VestingScheduleData[]> {
+    return firstValueFrom(this.subscribeSchedules(address));
+  }
+
+  /**
+   * @name subscribeVesting
+   * @description subscribe the vesting info of `address`, include the vested amount and the future unlock timeline
+   */
+  public subscribeVesting = memoize((address: string): Observable<VestingData> => {
+    return this.wallet.subscribeToken(this.wallet.consts.nativeCurrency).pipe(
+      switchMap((token) => {
+        return combineLatest({
+          schedules: this.subscribeSchedules(address),
+          locks: this.storages.locks(address).observable,
+          blockNumber: this.storages.blockNumber().observable
+        }).pipe(
+          map(({ schedules, locks, blockNumber }) => {
+            const block = blockNumber.toNumber();
+
+            return {
+              token,
+              schedules,
+              ...getVestingSummary(schedules, locks, block, token),
+              timeline: getUnlockTimeline(schedules, block)
+            };
+          })
+        );
+      })
+    );
+  });
+
+  public async getVesting(address: string): Promise<VestingData> {
+    return firstValueFrom(this.subscribeVesting(address));
+  }
+
+  private get tx() {
+    return (this.api as ApiPromise).tx.vesting;
+  }
+
+  // the vesting calls of the runtime take the currency id, only the native token is supported by the sdk
+  private get currencyId() {
+    return this.api.consts.vesting.getNativeCurrencyId;
+  }
+
+  /**
+   * @name createClaim
+   * @description claim the unlocked amount of the sender, or of `dest` if it is provided
+   */
+  public createClaim(dest?: string): SubmittableExtrinsic<ApiTypes> {
+    return dest ? this.tx.claimFor(this.currencyId, dest) : this.tx.claim(this.currencyId);
+  }
+
+  /**
+   * @name createVestedTransfer
+   * @description transfer native token to `dest` with a vesting schedule,
+   * the total amount of the schedule should not be less than `vesting.minVestedTransfer`
+   */
+  public async createVestedTransfer(
+    dest: string,
+    params: VestedTransferParams
+  ): Promise<SubmittableExtrinsic<ApiTypes>> {
+    const { start, period, periodCount, perPeriod } = params;
+    const token = await this.wallet.getToken(this.wallet.consts.nativeCurrency);
+
+    if (!Number.isInteger(periodCount) || periodCount <= 0) {
+      throw new InvalidVestingSchedule('the period count should be a positive integer');
+    }
+
+    if (!Number.isInteger(period) || period <= 0) {
+      throw new InvalidVestingSchedule('the period should be a positive integer');
+    }
+
+    // the amount may be in another precision, align it to the native token decimals before encoding
+    const aligned = perPeriod.clone();
+
+    aligned.setPrecision(token.decimals);
+
+    // drop the fraction of the smallest unit, which is dropped when encoding
+    const amount = FN.fromInner(aligned.toChainData(), token.decimals);
+
+    if (!amount.isFinaite() || amount.lte(FN.ZERO)) {
+      throw new InvalidVestingSchedule('the amount of each period should be positive');
+    }
+
+    const min = FN.fromInner(this.api.consts.vesting.minVestedTransfer.toString(), token.decimals);
+
+    if (amount.mul(new FN(periodCount)).lt(min)) throw new BelowMinVestedTransfer(min.toString());
+
+    return this.tx.vestedTransfer(this.currencyId, dest, {
+      start,
+      period,
+      periodCount,
+      perPeriod: amount.toChainData()
+    });
+  }
+}
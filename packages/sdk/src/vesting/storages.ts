@@ -0,0 +1,39 @@
+import { AnyApi } from '@setheum.js/sdk-core';
+import { Vec } from '@polkadot/types';
+import { BalanceLock, BlockNumber } from '@polkadot/types/interfaces';
+import { VestingScheduleOf } from '@open-web3/orml-types/interfaces';
+import { memoize } from '@polkadot/util';
+import { Storage } from '../utils/storage';
+import { StorageOwner } from '../utils/storage/types';
+
+// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+export const createStorages = (api: AnyApi, owner?: StorageOwner) => {
+  return {
+    vestingSchedules: memoize((address: string) => {
+      return Storage.create<Vec<VestingScheduleOf>>({
+        api: api,
+        owner,
+        path: 'query.vesting.nativeVestingSchedules',
+        params: [address],
+        batch: true
+      });
+    }),
+    locks: memoize((address: string) => {
+      return Storage.create<Vec<BalanceLock>>({
+        api: api,
+        owner,
+        path: 'query.balances.locks',
+        params: [address],
+        batch: true
+      });
+    }),
+    blockNumber: memoize(() => {
+      return Storage.create<BlockNumber>({
+        api: api,
+        owner,
+        path: 'query.system.number',
+        params: []
+      });
+    })
+  };
+};
@@ -0,0 +1,36 @@
+import { FixedPointNumber, Token } from '@setheum.js/sdk-core';
+
+export interface VestingScheduleData {
+  start: number; // the block when the schedule starts
+  period: number; // the blocks of each period
+  periodCount: number;
+  perPeriod: FixedPointNumber; // the amount unlocked in each period
+  total: FixedPointNumber; // perPeriod * periodCount
+  endBlock: number; // the block when all periods are unlocked
+}
+
+export interface VestingUnlockEntry {
+  block: number;
+  amount: FixedPointNumber; // the amount unlocked at the block
+}
+
+export interface VestingSummary {
+  total: FixedPointNumber; // the total amount of all schedules
+  vested: FixedPointNumber; // the amount unlocked by the schedules until the current block
+  claimable: FixedPointNumber; // the vested amount which is still locked and can be claimed now
+  locked: FixedPointNumber; // the amount which is locked by vesting
+  endBlock: number; // the block when all schedules are finished
+}
+
+export interface VestingData extends VestingSummary {
+  token: Token;
+  schedules: VestingScheduleData[];
+  timeline: VestingUnlockEntry[]; // the future unlocks after the current block, sorted by block
+}
+
+export interface VestedTransferParams {
+  start: number;
+  period: number;
+  periodCount: number;
+  perPeriod: FixedPointNumber;
+}
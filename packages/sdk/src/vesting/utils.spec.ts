@@ -0,0 +1,97 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { Vec } from '@polkadot/types';
+import { BalanceLock } from '@polkadot/types/interfaces';
+import { VestingScheduleOf } from '@open-web3/orml-types/interfaces';
+import { VestingScheduleData } from './type';
+import { decodeVestingSchedule, getScheduleLocked, getUnlockTimeline, getVestingSummary } from './utils';
+
+describe('vesting utils', () => {
+  const token = new Token('SETM', { decimals: 12 });
+
+  const createSchedule = (start: number, period: number, periodCount: number, perPeriod: number) => {
+    return decodeVestingSchedule(
+      {
+        start: { toNumber: () => start },
+        period: { toNumber: () => period },
+        periodCount: { toNumber: () => periodCount },
+        perPeriod: { toString: () => new FN(perPeriod, token.decimals).toChainData() }
+      } as unknown as VestingScheduleOf,
+      token
+    );
+  };
+
+  test('decode vesting schedule', () => {
+    const schedule = createSchedule(100, 10, 5, 2.5);
+
+    expect(schedule.start).toBe(100);
+    expect(schedule.period).toBe(10);
+    expect(schedule.periodCount).toBe(5);
+    expect(schedule.perPeriod.getPrecision()).toBe(12);
+    expect(schedule.perPeriod.toNumber()).toBe(2.5);
+    expect(schedule.total.toNumber()).toBe(12.5);
+    expect(schedule.endBlock).toBe(150);
+  });
+
+  test('get the locked amount of schedule', () => {
+    const schedule = createSchedule(100, 10, 5, 2);
+    const locked = (block: number) => getScheduleLocked(schedule, block).toNumber();
+
+    // all locked before the start
+    expect(locked(50)).toBe(10);
+    expect(locked(100)).toBe(10);
+    // unlock one period after each `period` blocks
+    expect(locked(109)).toBe(10);
+    expect(locked(110)).toBe(8);
+    expect(locked(135)).toBe(4);
+    // all unlocked after the end block
+    expect(locked(150)).toBe(0);
+    expect(locked(1000)).toBe(0);
+  });
+
+  test('zero period schedule is locked', () => {
+    const schedule: VestingScheduleData = { ...createSchedule(100, 10, 5, 2), period: 0 };
+
+    expect(getScheduleLocked(schedule, 1000).toNumber()).toBe(10);
+  });
+
+  test('get the unlock timeline', () => {
+    const schedules = [createSchedule(100, 10, 3, 1), createSchedule(110, 20, 2, 5)];
+    const timeline = getUnlockTimeline(schedules, 115);
+
+    expect(timeline.map((item) => [item.block, item.amount.toNumber()])).toEqual([
+      [120, 1],
+      // the unlocks at the same block are merged
+      [130, 6],
+      [150, 5]
+    ]);
+    expect(getUnlockTimeline(schedules, 150)).toEqual([]);
+  });
+
+  test('get the vesting summary with the vesting lock', () => {
+    const schedules = [createSchedule(100, 10, 5, 2), createSchedule(200, 50, 4, 5)];
+    const createLocks = (locks: [string, number][]) => {
+      return locks.map(([id, amount]) => ({
+        id: { toUtf8: () => id.padEnd(8, ' ') },
+        amount: { toString: () => new FN(amount, token.decimals).toChainData() }
+      })) as unknown as Vec<BalanceLock>;
+    };
+
+    const summary = getVestingSummary(
+      schedules,
+      createLocks([
+        ['staking', 50],
+        ['ormlvest', 30]
+      ]),
+      120,
+      token
+    );
+
+    expect(summary.total.toNumber()).toBe(30);
+    expect(summary.vested.toNumber()).toBe(4);
+    expect(summary.claimable.toNumber()).toBe(4);
+    expect(summary.locked.toNumber()).toBe(30);
+    expect(summary.endBlock).toBe(400);
+    // the vesting lock is removed after all schedules are claimed
+    expect(getVestingSummary(schedules, createLocks([['staking', 50]]), 120, token).claimable.isZero()).toBe(true);
+  });
+});
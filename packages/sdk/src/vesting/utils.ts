@@ -0,0 +1,90 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { Vec } from '@polkadot/types';
+import { BalanceLock } from '@polkadot/types/interfaces';
+import { VestingScheduleOf } from '@open-web3/orml-types/interfaces';
+import { VestingScheduleData, VestingSummary, VestingUnlockEntry } from './type';
+
+// the lock id of orml vesting module
+export const VESTING_LOCK_ID = 'ormlvest';
+
+/*
+the vesting rule of orml vesting module:
+
+- the total amount of a schedule = per_period * period_count
+- the locked amount of a schedule at block `now`:
+  1. if now < start, then locked = total
+  2. else locked = max(period_count - (now - start) / period, 0) * per_period
+- the vesting lock is only updated when claiming, so the claimable amount = vesting_lock - sum(locked)
+*/
+
+export const decodeVestingSchedule = (schedule: VestingScheduleOf, token: Token): VestingScheduleData => {
+  const start = schedule.start.toNumber();
+  const period = schedule.period.toNumber();
+  const periodCount = schedule.periodCount.toNumber();
+  const perPeriod = FN.fromInner(schedule.perPeriod.toString(), token.decimals);
+
+  return {
+    start,
+    period,
+    periodCount,
+    perPeriod,
+    total: perPeriod.mul(new FN(periodCount)),
+    endBlock: start + period * periodCount
+  };
+};
+
+// the count of periods which are passed at `block`
+const getPassedPeriods = (schedule: VestingScheduleData, block: number): number => {
+  if (block < schedule.start || schedule.period === 0) return 0;
+
+  return Math.min(Math.floor((block - schedule.start) / schedule.period), schedule.periodCount);
+};
+
+export const getScheduleLocked = (schedule: VestingScheduleData, block: number): FN => {
+  return schedule.perPeriod.mul(new FN(schedule.periodCount - getPassedPeriods(schedule, block)));
+};
+
+/**
+ * @name getVestingSummary
+ * @description get the vested and claimable amount of `schedules` at `block`, the vesting lock is found in `locks`
+ */
+export const getVestingSummary = (
+  schedules: VestingScheduleData[],
+  locks: Vec<BalanceLock>,
+  block: number,
+  token: Token
+): VestingSummary => {
+  // the lock id is 8 bytes, which is padded with spaces
+  const vestingLock = locks.find((item) => item.id.toUtf8().trim() === VESTING_LOCK_ID);
+  const locked = vestingLock ? FN.fromInner(vestingLock.amount.toString(), token.decimals) : FN.ZERO;
+  const total = schedules.reduce((acc, item) => acc.add(item.total), FN.ZERO);
+  const stillLocked = schedules.reduce((acc, item) => acc.add(getScheduleLocked(item, block)), FN.ZERO);
+
+  return {
+    total,
+    vested: total.sub(stillLocked).max(FN.ZERO),
+    claimable: locked.sub(stillLocked).max(FN.ZERO),
+    locked,
+    endBlock: schedules.reduce((acc, item) => Math.max(acc, item.endBlock), 0)
+  };
+};
+
+/**
+ * @name getUnlockTimeline
+ * @description get the future unlocks of `schedules` after `block`, the unlocks at the same block are merged
+ */
+export const getUnlockTimeline = (schedules: VestingScheduleData[], block: number): VestingUnlockEntry[] => {
+  const unlocks = new Map<number, FN>();
+
+  schedules.forEach((schedule) => {
+    for (let i = getPassedPeriods(schedule, block) + 1; i <= schedule.periodCount; i++) {
+      const unlockBlock = schedule.start + schedule.period * i;
+
+      unlocks.set(unlockBlock, (unlocks.get(unlockBlock) || FN.ZERO).add(schedule.perPeriod));
+    }
+  });
+
+  return Array.from(unlocks.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([block, amount]) => ({ block, amount }));
+};
@@ -0,0 +1,92 @@
+import { ApiRx } from '@polkadot/api';
+import { FixedPointNumber as FN, MaybeCurrency, forceToCurrencyName } from '@setheum.js/sdk-core';
+import { of } from 'rxjs';
+import { BelowExistentialDeposit } from '../errors';
+import { StorageManager } from '../utils/storage';
+import { Wallet } from '.';
+import { BalanceData } from './type';
+
+describe('wallet', () => {
+  const from = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+  const to = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+
+  const createApi = () => {
+    const createExtrinsic = jest.fn((...params: unknown[]) => ({
+      params,
+      paymentInfo: () => of({ partialFee: { toString: () => '10000000000' } })
+    }));
+
+    return {
+      type: 'rxjs',
+      runtimeChain: 'Setheum',
+      registry: { chainTokens: ['SETM', 'SETUSD'], chainDecimals: [12, 6] },
+      consts: {
+        balances: { existentialDeposit: { toString: () => '100000000000' } },
+        cdpEngine: { getSetUSDId: 'SETUSD' }
+      },
+      createType: (_: string, data: unknown) => data,
+      query: {
+        system: { events: () => of([]) },
+        assetRegistry: { assetMetadatas: { entries: () => of([]) } },
+        dex: { tradingPairStatuses: { entries: () => of([]) } }
+      },
+      tx: {
+        balances: { transfer: createExtrinsic, transferKeepAlive: createExtrinsic },
+        currencies: { transfer: createExtrinsic }
+      }
+    };
+  };
+
+  const createWallet = (balances: Record<string, number>) => {
+    const api = createApi();
+    const wallet = new Wallet(api as unknown as ApiRx);
+
+    jest.spyOn(wallet, 'getBalance').mockImplementation(async (currency: MaybeCurrency, address: string) => {
+      const token = await wallet.getToken(currency);
+      const free = new FN(balances[`${address}-${forceToCurrencyName(currency)}`] || 0, token.decimals);
+
+      return { token, free, locked: FN.ZERO, reserved: FN.ZERO, available: free } as BalanceData;
+    });
+
+    return { api, wallet };
+  };
+
+  test('create the native token transfer with the token decimals', async () => {
+    const { api, wallet } = createWallet({ [`${from}-SETM`]: 10 });
+    // the amount in the default precision 18 is aligned to the SETM decimals 12
+    const result = await wallet.createTransfer('SETM', to, new FN(1.5), { from });
+
+    expect(api.tx.balances.transferKeepAlive).toHaveBeenCalledWith(to, '1500000000000');
+    expect(result.fee.toNumber()).toBe(0.01);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('create the non native token transfer', async () => {
+    const { api, wallet } = createWallet({ [`${from}-SETM`]: 10, [`${from}-SETUSD`]: 10 });
+    const result = await wallet.createTransfer('SETUSD', to, new FN(2.5), { from, keepAlive: false });
+
+    expect(api.tx.currencies.transfer).toHaveBeenCalledWith(to, { Token: 'SETUSD' }, '2500000', false);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('return the warnings of the transfer', async () => {
+    const { wallet } = createWallet({ [`${from}-SETM`]: 1 });
+    const result = await wallet.createTransfer('SETM', to, new FN(0.05), { from });
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toBeInstanceOf(BelowExistentialDeposit);
+    expect((result.warnings[0] as BelowExistentialDeposit).account).toBe(to);
+  });
+
+  test('dispose the storages of the api', async () => {
+    const { api, wallet } = createWallet({});
+
+    await wallet.getToken('SETM');
+
+    expect(StorageManager.get(api as unknown as ApiRx).size).toBeGreaterThan(0);
+
+    wallet.dispose();
+
+    expect(StorageManager.get(api as unknown as ApiRx).size).toBe(0);
+  });
+});
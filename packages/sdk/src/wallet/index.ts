@@ -11,38 +11,52 @@ import {
   forceToCurrencyName,
   TokenType,
   unzipDexShareName,
-  isDexShareName
+  isDexShareName,
+  getExistentialDeposit
 } from '@setheum.js/sdk-core';
+import { ApiPromise } from '@polkadot/api';
 import { AccountInfo, Balance, RuntimeDispatchInfo } from '@polkadot/types/interfaces';
 import { OrmlAccountData } from '@open-web3/orml-types/interfaces';
-import { BehaviorSubject, combineLatest, Observable, of, firstValueFrom } from 'rxjs';
+import { BehaviorSubject, combineLatest, Observable, of, firstValueFrom, Subscription } from 'rxjs';
 import { map, switchMap, shareReplay, filter } from 'rxjs/operators';
-import { TokenRecord, WalletConsts, BalanceData, PresetTokens, TokenPriceFetchSource } from './type';
+import {
+  TokenRecord,
+  WalletConsts,
+  BalanceData,
+  PresetTokens,
+  TokenPriceFetchSource,
+  TransferOptions,
+  TransferResult,
+  NativeBalanceDetail
+} from './type';
 import { CurrencyNotFound, Liquidity, SDKNotReady } from '..';
 import { getMaxAvailableBalance } from './utils/get-max-available-balance';
+import { checkTransfer } from './utils/check-transfer';
+import { getNativeBalanceDetail } from './utils/get-native-balance-detail';
 import { MarketPriceProvider } from './price-provider/market-price-provider';
 import { OraclePriceProvider } from './price-provider/oracle-price-provider';
-import { PriceProvider, PriceProviderType } from './price-provider/types';
+import { DexPriceProvider } from './price-provider/dex-price-provider';
+import { PriceProvider, PriceProviderName, PriceProviderType } from './price-provider/types';
+import { PriceProviderRegistry } from './price-provider/registry';
 import { createTokenList } from './utils/create-token-list';
 import { BaseSDK } from '../types';
 import { createStorages } from './storages';
+import { StorageManager } from '../utils/storage';
 import tokenList from '../configs/token-list';
 import { TokenProvider } from '../base-provider';
 import { defaultTokenPriceFetchSource } from './price-provider/default-token-price-fetch-source-config';
 import { subscribeDexShareTokenPrice } from './utils/get-dex-share-token-price';
+import { subscribePriceWithFallback } from './utils/subscribe-price-with-fallback';
 import { getChainType } from '../utils/get-chain-type';
 
-type PriceProviders = Partial<{
-  [k in PriceProviderType]: PriceProvider;
-}>;
-
 export class Wallet implements BaseSDK, TokenProvider {
   private api: AnyApi;
-  private priceProviders: PriceProviders;
+  private priceProviders: PriceProviderRegistry;
   // readed from chain information
   private tokens$: BehaviorSubject<TokenRecord>;
   private storages: ReturnType<typeof createStorages>;
   private tokenPriceFetchSource: TokenPriceFetchSource;
+  private tokensSubscription?: Subscription;
 
   public isReady$: BehaviorSubject<boolean>;
   public consts!: WalletConsts;
@@ -50,7 +64,7 @@ export class Wallet implements BaseSDK, TokenProvider {
   public constructor(
     api: AnyApi,
     tokenPriceFetchSource = defaultTokenPriceFetchSource,
-    priceProviders?: Record<PriceProviderType, PriceProvider>
+    priceProviders?: Partial<Record<PriceProviderName, PriceProvider>>
   ) {
     this.api = api;
 
@@ -58,10 +72,7 @@ export class Wallet implements BaseSDK, TokenProvider {
     this.tokens$ = new BehaviorSubject<TokenRecord>({});
 
     this.tokenPriceFetchSource = tokenPriceFetchSource;
-    this.priceProviders = {
-      ...this.defaultPriceProviders,
-      ...priceProviders
-    };
+    this.priceProviders = this.createPriceProviders(priceProviders);
     this.storages = createStorages(this.api);
 
     this.init();
@@ -75,7 +86,17 @@ export class Wallet implements BaseSDK, TokenProvider {
     // 1. init constants
     this.initConsts();
     // 2. init tokens information
-    this.initTokens();
+    this.tokensSubscription = this.initTokens();
+  }
+
+  /**
+   * @name dispose
+   * @description close all storage subscriptions of the api, the wallet is the base of the other sdk modules,
+   * so it disposes the storages shared by all sdk modules of the same api
+   */
+  public dispose(): void {
+    this.tokensSubscription?.unsubscribe();
+    StorageManager.get(this.api).dispose();
   }
 
   private initConsts() {
@@ -85,11 +106,31 @@ export class Wallet implements BaseSDK, TokenProvider {
     };
   }
 
-  private get defaultPriceProviders(): PriceProviders {
-    return {
-      [PriceProviderType.MARKET]: new MarketPriceProvider(),
-      [PriceProviderType.ORACLE]: new OraclePriceProvider(this.api)
-    };
+  // create the default providers only when they are not provided
+  private createPriceProviders(priceProviders?: Partial<Record<PriceProviderName, PriceProvider>>) {
+    const registry = new PriceProviderRegistry(priceProviders);
+
+    if (!registry.has(PriceProviderType.MARKET)) {
+      registry.register(PriceProviderType.MARKET, new MarketPriceProvider());
+    }
+
+    if (!registry.has(PriceProviderType.ORACLE)) {
+      registry.register(PriceProviderType.ORACLE, new OraclePriceProvider(this.api));
+    }
+
+    if (!registry.has(PriceProviderType.DEX)) {
+      registry.register(PriceProviderType.DEX, new DexPriceProvider(this.api, this));
+    }
+
+    return registry;
+  }
+
+  /**
+   * @name registerPriceProvider
+   * @description register a price provider as `name`, which can be used in `subscribePrice` and `TokenPriceFetchSource`
+   */
+  public registerPriceProvider(name: PriceProviderName, provider: PriceProvider): void {
+    this.priceProviders.register(name, provider);
   }
 
   private initTokens() {
@@ -101,13 +142,15 @@ export class Wallet implements BaseSDK, TokenProvider {
     const basicTokens = Object.fromEntries(
       chainTokens.map((token, i) => {
         const config = tokenList.getToken(token, this.consts.runtimeChain);
+        const decimals = chainDecimals[i] ?? 18;
 
         return [
           token,
           new Token(token, {
             ...config,
             type: TokenType.BASIC,
-            decimals: chainDecimals[i] ?? 18
+            decimals,
+            ed: getExistentialDeposit(this.api, token, decimals) ?? config?.ed
           })
         ];
       })
@@ -118,7 +161,7 @@ export class Wallet implements BaseSDK, TokenProvider {
       assetMetadatas: assetMetadatas$
     }).subscribe({
       next: ({ tradingPairs, assetMetadatas }) => {
-        const list = createTokenList(basicTokens, tradingPairs);
+        const list = createTokenList(basicTokens, tradingPairs, assetMetadatas);
 
         this.tokens$.next(list);
         this.isReady$.next(true);
@@ -228,6 +271,32 @@ export class Wallet implements BaseSDK, TokenProvider {
     return firstValueFrom(this.subscribeBalance(token, address));
   }
 
+  /**
+   * @name subscribeNativeBalanceDetail
+   * @description subscribe `address` native token balance with the locks and the vesting info
+   * @param address
+   */
+  public subscribeNativeBalanceDetail = memoize((address: string): Observable<NativeBalanceDetail> => {
+    return this.subscribeToken(this.consts.nativeCurrency).pipe(
+      switchMap((token) => {
+        return combineLatest({
+          accountInfo: this.storages.nativeBalance(address).observable,
+          locks: this.storages.nativeLocks(address).observable,
+          schedules: this.storages.vestingSchedules(address).observable,
+          blockNumber: this.storages.blockNumber().observable
+        }).pipe(
+          map(({ accountInfo, locks, schedules, blockNumber }) =>
+            getNativeBalanceDetail(accountInfo, locks, schedules, blockNumber.toNumber(), token)
+          )
+        );
+      })
+    );
+  });
+
+  public async getNativeBalanceDetail(address: string): Promise<NativeBalanceDetail> {
+    return firstValueFrom(this.subscribeNativeBalanceDetail(address));
+  }
+
   /**
    * @name subscribeIssuance
    * @description subscribe `token` issuance amount
@@ -353,6 +422,76 @@ export class Wallet implements BaseSDK, TokenProvider {
     return firstValueFrom(this.subscribeSuggestInput(token, address, isAllowDeath, paymentInfo, feeFactor));
   }
 
+  /**
+   * @name createTransfer
+   * @description create the transfer extrinsic of `token`, `balances` is used for native token and `currencies` for the others,
+   * the fee is estimated by `paymentInfo` and the warnings list the reasons which may fail the transfer or reap the accounts
+   */
+  public async createTransfer(
+    token: MaybeCurrency,
+    to: string,
+    amount: FN,
+    options: TransferOptions
+  ): Promise<TransferResult> {
+    const { from, keepAlive = true } = options;
+    const [_token, nativeToken] = await Promise.all([this.getToken(token), this.getToken(this.consts.nativeCurrency)]);
+    const isNativeToken = _token.name === nativeToken.name;
+    const extrinsic = this.createTransferExtrinsic(_token, to, amount, isNativeToken, keepAlive);
+
+    const [paymentInfo, senderBalance, senderNativeBalance, receiverBalance] = await Promise.all([
+      this.getPaymentInfo(extrinsic, from),
+      this.getBalance(_token, from),
+      this.getBalance(nativeToken, from),
+      this.getBalance(_token, to)
+    ]);
+    const fee = FN.fromInner(paymentInfo.partialFee.toString(), nativeToken.decimals);
+
+    const warnings = checkTransfer({
+      isNativeToken,
+      keepAlive,
+      from,
+      to,
+      token: _token,
+      amount,
+      fee,
+      senderBalance,
+      senderNativeBalance,
+      receiverBalance
+    });
+
+    return { extrinsic, fee, warnings };
+  }
+
+  private createTransferExtrinsic(
+    token: Token,
+    to: string,
+    amount: FN,
+    isNativeToken: boolean,
+    keepAlive: boolean
+  ): TransferResult['extrinsic'] {
+    const tx = (this.api as ApiPromise).tx;
+    // the amount may be in another precision, align it to the token decimals before encoding
+    const chainAmount = amount.clone();
+
+    chainAmount.setPrecision(token.decimals);
+
+    if (isNativeToken) {
+      return keepAlive
+        ? tx.balances.transferKeepAlive(to, chainAmount.toChainData())
+        : tx.balances.transfer(to, chainAmount.toChainData());
+    }
+
+    return tx.currencies.transfer(to, token.toCurrencyId(this.api), chainAmount.toChainData(), false);
+  }
+
+  private getPaymentInfo(extrinsic: TransferResult['extrinsic'], address: string): Promise<RuntimeDispatchInfo> {
+    const result = extrinsic.paymentInfo(address) as unknown as
+      | Observable<RuntimeDispatchInfo>
+      | Promise<RuntimeDispatchInfo>;
+
+    return result instanceof Observable ? firstValueFrom(result) : result;
+  }
+
   public getPresetTokens(): PresetTokens {
     if (this.isReady$.value === false) {
       throw new SDKNotReady('wallet');
@@ -366,35 +505,35 @@ export class Wallet implements BaseSDK, TokenProvider {
     const data: PresetTokens = {
       nativeToken: tokens[forceToCurrencyName(this.consts.nativeCurrency)]
     };
-    
+
     /**
      * The Serp (SERP) currency id
      **/
     if (this.api.consts?.serpTreasury.getSerpCurrencyId) {
       data.stableToken = tokens[forceToCurrencyName(this.api.consts.serpTreasury.getSerpCurrencyId)];
     }
-    
+
     /**
      * The Dinar (DNAR) currency id
      **/
     if (this.api.consts?.serpTreasury.getDinarCurrencyId) {
       data.stableToken = tokens[forceToCurrencyName(this.api.consts.serpTreasury.getDinarCurrencyId)];
     }
-   
+
     /**
      * HighEnd LaunchPad (HELP) currency id. (LaunchPad Token)
      **/
     if (this.api.consts?.serpTreasury.getHelpCurrencyId) {
       data.stableToken = tokens[forceToCurrencyName(this.api.consts.serpTreasury.getHelpCurrencyId)];
     }
-    
+
     /**
      * Setter (SETR) currency id
      **/
     if (this.api.consts?.serpTreasury.setterCurrencyId) {
       data.stableToken = tokens[forceToCurrencyName(this.api.consts.serpTreasury.setterCurrencyId)];
     }
-    
+
     /**
      * The SetUSD currency id, it should be SETUSD in Setheum.
      **/
@@ -407,43 +546,41 @@ export class Wallet implements BaseSDK, TokenProvider {
 
   /**
    * @name subscribePrice
-   * @description subscirbe the price of `token`
+   * @description subscirbe the price of `token`, the `type` can be a fallback chain of price providers
    */
-  public subscribePrice = memoize((token: MaybeCurrency, type?: PriceProviderType): Observable<FN> => {
-    let priceProvider: PriceProvider | undefined;
-    const name = forceToCurrencyName(token);
-    const isDexShare = isDexShareName(name);
-
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-    const _type =
-      type || this.tokenPriceFetchSource?.[getChainType(this.consts.runtimeChain)]?.[name] || PriceProviderType.MARKET;
-
-    if (_type === PriceProviderType.MARKET) {
-      priceProvider = this.priceProviders?.[PriceProviderType.MARKET];
-    }
-
-    if (_type === PriceProviderType.ORACLE) {
-      priceProvider = this.priceProviders?.[PriceProviderType.ORACLE];
-    }
-
-    if (!priceProvider) return of(FN.ZERO);
-
-    // should calculate dexShare price
-    if (isDexShare) {
-      const [token0, token1] = unzipDexShareName(name);
+  public subscribePrice = memoize(
+    (token: MaybeCurrency, type?: PriceProviderName | PriceProviderName[]): Observable<FN> => {
+      const name = forceToCurrencyName(token);
+      const isDexShare = isDexShareName(name);
+
+      const source =
+        type ??
+        this.tokenPriceFetchSource?.[getChainType(this.consts.runtimeChain)]?.[name] ??
+        PriceProviderType.MARKET;
+      const priceProviders = (Array.isArray(source) ? source : [source])
+        .filter((item) => this.priceProviders.has(item))
+        .map((item) => this.priceProviders.get(item));
+
+      if (priceProviders.length === 0) return of(FN.ZERO);
+
+      // should calculate dexShare price
+      if (isDexShare) {
+        const [token0, token1] = unzipDexShareName(name);
+
+        return subscribeDexShareTokenPrice(
+          this.subscribePrice(token0),
+          this.subscribePrice(token1),
+          new Liquidity(this.api, this).subscribePoolDetail(name)
+        );
+      }
 
-      return subscribeDexShareTokenPrice(
-        this.subscribePrice(token0),
-        this.subscribePrice(token1),
-        new Liquidity(this.api, this).subscribePoolDetail(name)
+      return this.subscribeToken(token).pipe(
+        switchMap((token) => subscribePriceWithFallback(token.name, priceProviders))
       );
     }
+  );
 
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    return this.subscribeToken(token).pipe(switchMap((token) => priceProvider!.subscribe(token.name)));
-  });
-
-  public getPrice(token: MaybeCurrency, type?: PriceProviderType): Promise<FN> {
+  public getPrice(token: MaybeCurrency, type?: PriceProviderName | PriceProviderName[]): Promise<FN> {
     return firstValueFrom(this.subscribePrice(token, type));
   }
 }
@@ -0,0 +1,182 @@
+import { ApiRx } from '@polkadot/api';
+import { forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { TokenProvider } from '../../base-provider';
+import { DexPriceProvider } from './dex-price-provider';
+
+describe('dex price provider', () => {
+  const tokens: Record<string, Token> = {
+    SETM: new Token('SETM', { decimals: 12 }),
+    SETUSD: new Token('SETUSD', { decimals: 6 }),
+    DNAR: new Token('DNAR', { decimals: 12 })
+  };
+
+  type Pools = Record<string, [number, number]>;
+
+  const toPools = (pools: Pools, pairs: string[]) =>
+    pairs.map((pair) => {
+      const [amount0, amount1] = pools[pair] || [0, 0];
+
+      return Object.assign([amount0, amount1], {
+        eq: (other?: number[]) => !!other && other[0] === amount0 && other[1] === amount1
+      });
+    });
+
+  // the pools are keyed by the token names in the order of the dex share,
+  // the pools of the past blocks are the initial pools if they are not in `history`
+  const createApi = (initial: Pools, history: Record<number, Pools> = {}) => {
+    const block$ = new BehaviorSubject(1);
+    const pools$ = new BehaviorSubject(initial);
+    const active = { blocks: 0, pools: 0 };
+    const track = <T>(key: keyof typeof active, source: Observable<T>) =>
+      new Observable<T>((subscriber) => {
+        const subscription = source.subscribe(subscriber);
+
+        active[key] += 1;
+
+        return () => {
+          active[key] -= 1;
+          subscription.unsubscribe();
+        };
+      });
+
+    const api = {
+      type: 'rxjs',
+      registry: { chainTokens: ['SETM'] },
+      consts: { cdpEngine: { getSetUSDId: 'SETUSD' } },
+      createType: (_: string, data: { Token: string }[]) => data.map((item) => item.Token).join('-'),
+      query: {
+        system: { number: () => track('blocks', block$.pipe(map((block) => ({ toNumber: () => block })))) },
+        dex: { liquidityPool: {} }
+      },
+      queryMulti: (calls: [unknown, string][]) =>
+        track(
+          'pools',
+          pools$.pipe(
+            map((pools) =>
+              toPools(
+                pools,
+                calls.map(([, pair]) => pair)
+              )
+            )
+          )
+        ),
+      rpc: { chain: { getBlockHash: (at: number) => of(at) } },
+      at: (at: number) =>
+        Promise.resolve({
+          query: { dex: { liquidityPool: (pair: string) => of(toPools(history[at] || initial, [pair])[0]) } }
+        })
+    };
+
+    return { api: api as unknown as ApiRx, block$, pools$, active };
+  };
+
+  const tokenProvider = {
+    subscribeToken: (currency: MaybeCurrency) => of(tokens[forceToCurrencyName(currency)])
+  } as unknown as TokenProvider;
+
+  // the storage query functions are resolved asynchronously
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const watch = (provider: DexPriceProvider, currency: string) => {
+    const result: { price?: number } = {};
+    const subscription = provider.subscribe(currency).subscribe((price) => (result.price = price.toNumber()));
+
+    return { result, subscription };
+  };
+
+  test('get the price from the direct pool', async () => {
+    const { api } = createApi({ 'SETM-SETUSD': [100 * 1e12, 200 * 1e6] });
+    const provider = new DexPriceProvider(api, tokenProvider);
+    const { result, subscription } = watch(provider, 'SETM');
+
+    await flush();
+
+    expect(result.price).toBe(2);
+    expect((await provider.query('SETUSD')).toNumber()).toBe(1);
+
+    subscription.unsubscribe();
+  });
+
+  test('route the price through the native token when there is no direct pool', async () => {
+    const { api } = createApi({ 'SETM-SETUSD': [100 * 1e12, 200 * 1e6], 'SETM-DNAR': [50 * 1e12, 10 * 1e12] });
+    const provider = new DexPriceProvider(api, tokenProvider);
+    const { result, subscription } = watch(provider, 'DNAR');
+
+    await flush();
+
+    // 1 DNAR = 5 SETM = 10 SETUSD
+    expect(result.price).toBe(10);
+
+    subscription.unsubscribe();
+  });
+
+  test('smooth the price by the time-weighted average of the window', async () => {
+    const { api, block$, pools$ } = createApi({ 'SETM-SETUSD': [100 * 1e12, 200 * 1e6] });
+    const provider = new DexPriceProvider(api, tokenProvider, { window: 2 });
+    const { result, subscription } = watch(provider, 'SETM');
+
+    await flush();
+    block$.next(2);
+    pools$.next({ 'SETM-SETUSD': [100 * 1e12, 400 * 1e6] });
+    await flush();
+
+    // price 2 at block 1 and price 4 at block 2
+    expect(result.price).toBe(3);
+
+    block$.next(3);
+    await flush();
+
+    // the block 1 is out of the window
+    expect(result.price).toBe(4);
+
+    subscription.unsubscribe();
+  });
+
+  test('backfill the window with the prices of the past blocks', async () => {
+    const normal: Pools = { 'SETM-SETUSD': [100 * 1e12, 200 * 1e6] };
+    const history = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [i, normal]));
+    // the pool is spiked from price 2 to price 22 at block 20
+    const { api, block$ } = createApi({ 'SETM-SETUSD': [100 * 1e12, 2200 * 1e6] }, history);
+
+    block$.next(20);
+
+    const provider = new DexPriceProvider(api, tokenProvider, { window: 10 });
+    const { result, subscription } = watch(provider, 'SETM');
+
+    await flush();
+
+    // the spike of one block moves the price by at most 1/window of the spike
+    expect(result.price).toBe(2 + (22 - 2) / 10);
+    expect((await new DexPriceProvider(api, tokenProvider, { window: 10 }).query('SETM')).toNumber()).toBe(4);
+
+    subscription.unsubscribe();
+  });
+
+  test('close the pool and block subscriptions when the last observer leaves', async () => {
+    const { api, active } = createApi({ 'SETM-SETUSD': [100 * 1e12, 200 * 1e6] });
+    const provider = new DexPriceProvider(api, tokenProvider);
+    const first = watch(provider, 'SETM');
+    const second = watch(provider, 'SETM');
+
+    await flush();
+
+    expect(active).toEqual({ blocks: 1, pools: 1 });
+
+    first.subscription.unsubscribe();
+    second.subscription.unsubscribe();
+    await flush();
+
+    expect(active).toEqual({ blocks: 0, pools: 0 });
+
+    const third = watch(provider, 'SETM');
+
+    await flush();
+
+    expect(third.result.price).toBe(2);
+    expect(active).toEqual({ blocks: 1, pools: 1 });
+
+    third.subscription.unsubscribe();
+  });
+});
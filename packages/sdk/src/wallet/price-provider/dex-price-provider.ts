@@ -0,0 +1,186 @@
+import { Observable, combineLatest, defer, firstValueFrom, from, of } from 'rxjs';
+import { concatMap, map, shareReplay, switchMap } from 'rxjs/operators';
+import { memoize } from '@polkadot/util';
+import { AnyApi, FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency, Token } from '@setheum.js/sdk-core';
+import { TokenProvider } from '../../base-provider';
+import { createStorages } from '../storages';
+import { PriceProvider } from './types';
+
+export const DEFAULT_TWAP_WINDOW = 10;
+
+export interface DexPriceProviderConfigs {
+  // the currency which prices are quoted in, default is the SETUSD of cdp engine
+  stableCurrency?: MaybeCurrency;
+  // the intermediate currencies used when a token has no pool with the stable currency, default is the native currency
+  routeCurrencies?: MaybeCurrency[];
+  // the number of blocks which the time-weighted average price is calculated over
+  window?: number;
+}
+
+interface PriceSample {
+  block: number;
+  price: FN;
+}
+
+/**
+ * provide the prices derived from the dex liquidity pools, the price of each token is routed to the stable currency
+ * and smoothed by a time-weighted average over the latest `window` blocks
+ */
+export class DexPriceProvider implements PriceProvider {
+  private api: AnyApi;
+  private tokenProvider: TokenProvider;
+  private storages: ReturnType<typeof createStorages>;
+  private stableCurrency: string;
+  private routeCurrencies: string[];
+  private window: number;
+  // the block number stream shared by the prices of all tokens
+  private blockNumber$: Observable<number>;
+
+  constructor(api: AnyApi, tokenProvider: TokenProvider, configs: DexPriceProviderConfigs = {}) {
+    this.api = api;
+    this.tokenProvider = tokenProvider;
+    this.storages = createStorages(this.api);
+    this.stableCurrency = forceToCurrencyName(configs.stableCurrency || this.api.consts.cdpEngine.getSetUSDId);
+    this.routeCurrencies = (configs.routeCurrencies || [this.api.registry.chainTokens[0]]).map((item) =>
+      forceToCurrencyName(item)
+    );
+    this.window = Math.max(configs.window || DEFAULT_TWAP_WINDOW, 1);
+    // get the storage from the storage manager when subscribing, so it's created again after the manager is disposed
+    this.blockNumber$ = defer(() => this.storages.blockNumber().observable).pipe(
+      map((data) => data.toNumber()),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+  }
+
+  // the spot price of `path[0]` in `path[path.length - 1]`, return zero if any pool of the path is empty
+  private subscribePathPrice(path: Token[], at?: number): Observable<FN> {
+    const pools = path.slice(0, -1).map((token, i) => {
+      const target = path[i + 1];
+      const [token0] = Token.sort(token, target);
+
+      return this.storages.liquidityPool(Token.fromTokens(token, target), at).observable.pipe(
+        map((pool) => {
+          const isSorted = token0.isEqual(token);
+          const supplyAmount = FN.fromInner((isSorted ? pool[0] : pool[1]).toString(), token.decimals);
+          const targetAmount = FN.fromInner((isSorted ? pool[1] : pool[0]).toString(), target.decimals);
+
+          return targetAmount.div(supplyAmount);
+        })
+      );
+    });
+
+    return combineLatest(pools).pipe(
+      map((prices) => {
+        const price = prices.reduce((acc, cur) => acc.times(cur), FN.ONE);
+
+        return price.isFinaite() && !price.isNaN() ? price : FN.ZERO;
+      })
+    );
+  }
+
+  // the spot price of the first path which has liquidity, the direct pool is preferred
+  private subscribeSpotPrice(name: string, at?: number): Observable<FN> {
+    const routeTokens$ =
+      this.routeCurrencies.length === 0
+        ? of([] as Token[])
+        : combineLatest(this.routeCurrencies.map((item) => this.tokenProvider.subscribeToken(item)));
+
+    return combineLatest({
+      token: this.tokenProvider.subscribeToken(name),
+      stableToken: this.tokenProvider.subscribeToken(this.stableCurrency),
+      routeTokens: routeTokens$
+    }).pipe(
+      switchMap(({ token, stableToken, routeTokens }) => {
+        const paths = [
+          [token, stableToken],
+          ...routeTokens
+            .filter((item) => !item.isEqual(token) && !item.isEqual(stableToken))
+            .map((item) => [token, item, stableToken])
+        ];
+
+        return combineLatest(paths.map((path) => this.subscribePathPrice(path, at)));
+      }),
+      map((prices) => prices.find((item) => !item.isZero()) || FN.ZERO)
+    );
+  }
+
+  private getTimeWeightedAverage(samples: PriceSample[], current: number): FN {
+    const start = current - this.window + 1;
+    let total = FN.ZERO;
+    let duration = 0;
+
+    samples.forEach((item, i) => {
+      const end = i === samples.length - 1 ? current + 1 : samples[i + 1].block;
+      const blocks = end - Math.max(item.block, start);
+
+      if (blocks <= 0) return;
+
+      total = total.plus(item.price.times(new FN(blocks)));
+      duration += blocks;
+    });
+
+    return duration === 0 ? FN.ZERO : total.div(new FN(duration));
+  }
+
+  // the spot prices of the blocks before `block` in the window, the blocks which can't be queried are skipped
+  private async queryHistorySamples(name: string, block: number): Promise<PriceSample[]> {
+    const start = Math.max(block - this.window + 1, 0);
+    const samples = await Promise.all(
+      Array.from({ length: block - start }, (_, i) => start + i).map((at) =>
+        firstValueFrom(this.subscribeSpotPrice(name, at)).then(
+          (price) => ({ block: at, price }),
+          () => undefined
+        )
+      )
+    );
+
+    return samples.filter((item): item is PriceSample => !!item);
+  }
+
+  // the pool and block subscriptions are closed when the last observer leaves, the samples are collected again after that
+  private subscribeTimeWeightedPrice = memoize((name: string): Observable<FN> => {
+    return defer(() => {
+      const samples: PriceSample[] = [];
+      let backfilled = false;
+
+      return combineLatest([this.blockNumber$, this.subscribeSpotPrice(name)]).pipe(
+        // backfill the window before the first price, so the spot price of one block is not emitted as the average
+        concatMap((data) => {
+          if (backfilled) return of(data);
+
+          return from(this.queryHistorySamples(name, data[0])).pipe(
+            map((history) => {
+              samples.push(...history);
+              backfilled = true;
+
+              return data;
+            })
+          );
+        }),
+        map(([block, price]) => {
+          // keep the latest price of each block
+          if (samples.length !== 0 && samples[samples.length - 1].block === block) samples.pop();
+
+          samples.push({ block, price });
+
+          // remove the samples which are fully out of the window
+          while (samples.length > 1 && samples[1].block <= block - this.window + 1) samples.shift();
+
+          return this.getTimeWeightedAverage(samples, block);
+        })
+      );
+    }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
+  });
+
+  subscribe(currency: MaybeCurrency): Observable<FN> {
+    const name = forceToCurrencyName(currency);
+
+    if (name === this.stableCurrency) return of(FN.ONE);
+
+    return this.subscribeTimeWeightedPrice(name);
+  }
+
+  async query(currency: MaybeCurrency): Promise<FN> {
+    return firstValueFrom(this.subscribe(currency));
+  }
+}
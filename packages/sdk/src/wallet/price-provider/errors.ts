@@ -0,0 +1,8 @@
+export class PriceProviderNotFound extends Error {
+  constructor(name: string) {
+    super();
+
+    this.message = `can't find price provider ${name}`;
+    this.name = 'PriceProviderNotFound';
+  }
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './errors';
+export * from './registry';
+export * from './market-price-provider';
+export * from './oracle-price-provider';
+export * from './dex-price-provider';
+export * from './static-price-provider';
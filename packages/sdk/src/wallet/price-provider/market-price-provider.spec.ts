@@ -0,0 +1,33 @@
+import { DEFAULT_PRICE_API, MarketPriceProvider } from './market-price-provider';
+
+describe('market price provider', () => {
+  // don't fetch prices in the tests
+  beforeAll(() => jest.useFakeTimers());
+  afterAll(() => jest.useRealTimers());
+
+  const getConfigs = (provider: MarketPriceProvider) => {
+    return provider as unknown as { endpoint: string; interval: number; trackedCurrencies: string[] };
+  };
+
+  test('create the provider with the configs', () => {
+    const configs = getConfigs(
+      new MarketPriceProvider({ endpoint: 'https://example.com/', init: ['SETM'], interval: 1000 })
+    );
+
+    expect(configs.endpoint).toBe('https://example.com/');
+    expect(configs.interval).toBe(1000);
+    expect(configs.trackedCurrencies).toEqual(['SETM']);
+  });
+
+  test('create the provider with the deprecated parameters', () => {
+    const configs = getConfigs(new MarketPriceProvider(['SETM', 'SETUSD'], 1000));
+    const withoutInit = getConfigs(new MarketPriceProvider(undefined, 2000));
+
+    expect(configs.endpoint).toBe(DEFAULT_PRICE_API);
+    expect(configs.interval).toBe(1000);
+    expect(configs.trackedCurrencies).toEqual(['SETM', 'SETUSD']);
+    expect(withoutInit.interval).toBe(2000);
+    expect(withoutInit.trackedCurrencies).toEqual([]);
+    expect(getConfigs(new MarketPriceProvider()).interval).toBe(60 * 1000);
+  });
+});
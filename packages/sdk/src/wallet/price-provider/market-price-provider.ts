@@ -4,18 +4,38 @@ import fetch from 'axios';
 import { PriceProvider } from './types';
 import { FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency } from '@setheum.js/sdk-core';
 
-// TODO - FIXME: Change this to use the new price provider
-const PRICE_API = 'https://api.polkawallet.io/price-server/';
+export const DEFAULT_PRICE_API = 'https://api.polkawallet.io/price-server/';
+
+export interface MarketPriceProviderConfigs {
+  // the price server endpoint, the price is fetched from `${endpoint}?token=${currency}&from=market`
+  endpoint?: string;
+  // the currencies which are tracked at the begining
+  init?: string[];
+  // the interval of fetching prices in milliseconds
+  interval?: number;
+}
 
 export class MarketPriceProvider implements PriceProvider {
+  private endpoint: string;
   private interval: number;
   private trackedCurrencies: string[];
   private subject: BehaviorSubject<Record<string, FN>>;
   private forceUpdate: BehaviorSubject<number>;
 
-  constructor(init?: string[], interval = 60 * 1000) {
-    this.interval = interval;
-    this.trackedCurrencies = init?.slice() || [];
+  constructor(configs?: MarketPriceProviderConfigs);
+  /**
+   * @deprecated use `new MarketPriceProvider({ init, interval })` instead
+   */
+  constructor(init?: string[], interval?: number);
+  constructor(configs?: MarketPriceProviderConfigs | string[], interval?: number) {
+    const _configs: MarketPriceProviderConfigs =
+      Array.isArray(configs) || interval !== undefined
+        ? { init: configs as string[] | undefined, interval }
+        : configs || {};
+
+    this.endpoint = _configs.endpoint || DEFAULT_PRICE_API;
+    this.interval = _configs.interval || 60 * 1000;
+    this.trackedCurrencies = _configs.init?.slice() || [];
     this.subject = new BehaviorSubject({});
     this.forceUpdate = new BehaviorSubject(0);
 
@@ -45,11 +65,15 @@ export class MarketPriceProvider implements PriceProvider {
   };
 
   private updatePrice = async (currency: string) => {
-    const result = await fetch.get(`${PRICE_API}?token=${currency}&from=market`);
+    try {
+      const result = await fetch.get(`${this.endpoint}?token=${currency}&from=market`);
 
-    if (result.status === 200) {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-      return new FN((result?.data?.data?.price?.[0] as string) || 0);
+      if (result.status === 200) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        return new FN((result?.data?.data?.price?.[0] as string) || 0);
+      }
+    } catch (e) {
+      // return zero price if the price server is unreachable, so that the fallback provider can be used
     }
 
     return FN.ZERO;
@@ -0,0 +1,41 @@
+import { FixedPointNumber as FN } from '@setheum.js/sdk-core';
+import { PriceProviderNotFound } from './errors';
+import { PriceProviderRegistry } from './registry';
+import { StaticPriceProvider } from './static-price-provider';
+import { PriceProviderType } from './types';
+
+describe('price provider registry', () => {
+  const market = new StaticPriceProvider({ SETM: new FN(1) });
+  const custom = new StaticPriceProvider({ SETM: new FN(2) });
+
+  test('register the providers from the constructor', () => {
+    const registry = new PriceProviderRegistry({ [PriceProviderType.MARKET]: market, custom });
+
+    expect(registry.get(PriceProviderType.MARKET)).toBe(market);
+    expect(registry.get('custom')).toBe(custom);
+    expect(registry.names).toEqual(['MARKET', 'custom']);
+  });
+
+  test('the builtin type and its name are the same provider', () => {
+    const registry = new PriceProviderRegistry();
+
+    registry.register('ORACLE', market);
+
+    expect(registry.has(PriceProviderType.ORACLE)).toBe(true);
+    expect(registry.get(PriceProviderType.ORACLE)).toBe(market);
+
+    registry.register(PriceProviderType.ORACLE, custom);
+
+    expect(registry.get('ORACLE')).toBe(custom);
+  });
+
+  test('unregister the provider', () => {
+    const registry = new PriceProviderRegistry({ custom });
+
+    registry.unregister('custom');
+
+    expect(registry.has('custom')).toBe(false);
+    expect(() => registry.get('custom')).toThrow(PriceProviderNotFound);
+    expect(() => registry.get(PriceProviderType.DEX)).toThrow("can't find price provider DEX");
+  });
+});
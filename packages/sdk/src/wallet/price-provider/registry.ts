@@ -0,0 +1,50 @@
+import { PriceProvider, PriceProviderName, PriceProviderType } from './types';
+import { PriceProviderNotFound } from './errors';
+
+// the builtin providers are keyed by the name of `PriceProviderType`, so `PriceProviderType.MARKET` equals to 'MARKET'
+function getProviderKey(name: PriceProviderName): string {
+  const type = (PriceProviderType as unknown as Record<string, string | number>)[name];
+
+  return typeof type === 'string' ? type : name.toString();
+}
+
+export class PriceProviderRegistry {
+  private providers: Map<string, PriceProvider>;
+
+  constructor(providers?: Partial<Record<PriceProviderName, PriceProvider>>) {
+    this.providers = new Map<string, PriceProvider>();
+
+    Object.entries(providers || {}).forEach(([name, provider]) => {
+      if (provider) this.register(name, provider);
+    });
+  }
+
+  /**
+   * @name register
+   * @description register the `provider` as `name`, the provider registered before with the same name will be replaced
+   */
+  public register(name: PriceProviderName, provider: PriceProvider): void {
+    this.providers.set(getProviderKey(name), provider);
+  }
+
+  public unregister(name: PriceProviderName): void {
+    this.providers.delete(getProviderKey(name));
+  }
+
+  public has(name: PriceProviderName): boolean {
+    return this.providers.has(getProviderKey(name));
+  }
+
+  public get(name: PriceProviderName): PriceProvider {
+    const key = getProviderKey(name);
+    const provider = this.providers.get(key);
+
+    if (!provider) throw new PriceProviderNotFound(key);
+
+    return provider;
+  }
+
+  public get names(): PriceProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+}
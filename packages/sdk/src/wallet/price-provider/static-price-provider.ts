@@ -0,0 +1,29 @@
+import { Observable, BehaviorSubject, firstValueFrom } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { FixedPointNumber as FN, forceToCurrencyName, MaybeCurrency } from '@setheum.js/sdk-core';
+import { PriceProvider } from './types';
+
+/**
+ * provide prices from a static map, useful for tests or the tokens which have fixed price
+ */
+export class StaticPriceProvider implements PriceProvider {
+  private subject: BehaviorSubject<Record<string, FN>>;
+
+  constructor(prices: Record<string, FN> = {}) {
+    this.subject = new BehaviorSubject({ ...prices });
+  }
+
+  public setPrice(currency: MaybeCurrency, price: FN): void {
+    this.subject.next({ ...this.subject.value, [forceToCurrencyName(currency)]: price });
+  }
+
+  subscribe(currency: MaybeCurrency): Observable<FN> {
+    const name = forceToCurrencyName(currency);
+
+    return this.subject.pipe(map((data) => data[name]));
+  }
+
+  async query(currency: MaybeCurrency): Promise<FN> {
+    return firstValueFrom(this.subscribe(currency));
+  }
+}
@@ -8,5 +8,9 @@ export interface PriceProvider {
 
 export enum PriceProviderType {
   'MARKET', // query price form market
-  'ORACLE' // query oracle feed prices
+  'ORACLE', // query oracle feed prices
+  'DEX' // query the time-weighted average prices of dex pools
 }
+
+// the builtin provider types or the name of a custom provider which is registered in the registry
+export type PriceProviderName = PriceProviderType | string;
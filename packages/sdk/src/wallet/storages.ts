@@ -1,19 +1,25 @@
 import { AnyApi, Token, forceToCurrencyName } from '@setheum.js/sdk-core';
-import { SetheumAssetMetadata, TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
-import { Option, StorageKey, u16, U128 } from '@polkadot/types';
-import { AccountInfo, Balance } from '@polkadot/types/interfaces';
+import { TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
+import { StorageKey, U128, Vec } from '@polkadot/types';
+import { AccountInfo, Balance, BalanceLock, BlockNumber } from '@polkadot/types/interfaces';
 import { ITuple } from '@polkadot/types/types';
-import { OrmlAccountData } from '@open-web3/orml-types/interfaces';
+import { OrmlAccountData, VestingScheduleOf } from '@open-web3/orml-types/interfaces';
 import { Storage } from '../utils/storage';
+import { AssetMetadataEntry } from './utils/create-token-list';
 
 // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
 export const createStorages = (api: AnyApi) => {
   return {
     assetMetadatas: () =>
-      Storage.create<[StorageKey<u16[]>, Option<SetheumAssetMetadata>][]>({
+      Storage.create<AssetMetadataEntry[]>({
         api: api,
         path: 'query.assetRegistry.assetMetadatas.entries',
-        params: []
+        params: [],
+        // reload the metadatas when new assets are registered
+        triggleEvents: [
+          { section: 'assetRegistry', method: 'AssetRegistered' },
+          { section: 'assetRegistry', method: 'AssetUpdated' }
+        ]
       }),
     tradingPairs: () =>
       Storage.create<[StorageKey<[TradingPair]>, TradingPairStatus][]>({
@@ -25,13 +31,35 @@ export const createStorages = (api: AnyApi) => {
       Storage.create<AccountInfo>({
         api: api,
         path: 'query.system.account',
-        params: [address]
+        params: [address],
+        batch: true
+      }),
+    nativeLocks: (address: string) =>
+      Storage.create<Vec<BalanceLock>>({
+        api: api,
+        path: 'query.balances.locks',
+        params: [address],
+        batch: true
+      }),
+    vestingSchedules: (address: string) =>
+      Storage.create<Vec<VestingScheduleOf>>({
+        api: api,
+        path: 'query.vesting.nativeVestingSchedules',
+        params: [address],
+        batch: true
+      }),
+    blockNumber: () =>
+      Storage.create<BlockNumber>({
+        api: api,
+        path: 'query.system.number',
+        params: []
       }),
     nonNativeBalance: (token: Token, address: string) =>
       Storage.create<OrmlAccountData>({
         api: api,
         path: 'query.tokens.accounts',
-        params: [address, token.toChainData()]
+        params: [address, token.toChainData()],
+        batch: true
       }),
     issuance: (token: Token) => {
       const nativeTokenName = api.registry.chainTokens[0];
@@ -41,14 +69,17 @@ export const createStorages = (api: AnyApi) => {
       return Storage.create<Balance>({
         api: api,
         path: isNativeToken ? 'query.balances.totalIssuance' : 'query.tokens.totalIssuance',
-        params: isNativeToken ? [] : [token.toChainData()]
+        params: isNativeToken ? [] : [token.toChainData()],
+        batch: true
       });
     },
-    liquidityPool: (dexShareToken: Token) => {
+    liquidityPool: (dexShareToken: Token, at?: number) => {
       return Storage.create<ITuple<[U128, U128]>>({
         api: api,
         path: 'query.dex.liquidityPool',
-        params: [dexShareToken.toTradingPair(api)]
+        params: [dexShareToken.toTradingPair(api)],
+        at,
+        batch: true
       });
     }
   };
@@ -1,6 +1,9 @@
 import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
-import { PriceProviderType } from './price-provider/types';
+import { ApiTypes, SubmittableExtrinsic } from '@polkadot/api/types';
+import { BelowExistentialDeposit, MayFailedCausedByFee } from '../errors';
+import { PriceProviderName } from './price-provider/types';
 import { ChainType } from '../types';
+import { VestingSummary } from '../vesting/type';
 
 export type TokenRecord = Record<string, Token>;
 
@@ -17,10 +20,37 @@ export interface BalanceData {
   available: FN;
 }
 
+export interface BalanceLockDetail {
+  id: string; // the lock id, e.g. `ormlvest`, `staking`, `democrac`
+  type: string; // the readable lock type, e.g. `vesting`, `staking`, `democracy`
+  amount: FN;
+  reasons: string;
+}
+
+export type VestingDetail = VestingSummary;
+
+export interface NativeBalanceDetail extends BalanceData {
+  locks: BalanceLockDetail[];
+  vesting: VestingDetail;
+}
+
 export interface TransferConfig {
   ed: FN;
 }
 
+export interface TransferOptions {
+  from: string; // the sender, used to estimate the fee and check the balance
+  keepAlive?: boolean; // keep the sender alive, default is true
+}
+
+export type TransferWarning = BelowExistentialDeposit | MayFailedCausedByFee;
+
+export interface TransferResult {
+  extrinsic: SubmittableExtrinsic<ApiTypes>;
+  fee: FN; // the estimated fee in native token
+  warnings: TransferWarning[]; // the transfer may fail or reap the account if warnings exist
+}
+
 export interface PresetTokens {
   nativeToken: Token;
   stableToken?: Token;
@@ -28,8 +58,9 @@ export interface PresetTokens {
   stakingToken?: Token;
 }
 
+// the price provider of each token, use an array to declare the fallback chain
 export type TokenPriceFetchSource = {
   [c in ChainType]: {
-    [t in string]: PriceProviderType;
+    [t in string]: PriceProviderName | PriceProviderName[];
   };
 };
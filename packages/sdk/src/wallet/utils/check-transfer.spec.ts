@@ -0,0 +1,90 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { BelowExistentialDeposit, InsufficientBalance, MayFailedCausedByFee } from '../../errors';
+import { BalanceData } from '../type';
+import { checkTransfer } from './check-transfer';
+
+describe('check transfer', () => {
+  const from = 'alice';
+  const to = 'bob';
+  const setm = new Token('SETM', { decimals: 18, ed: new FN(1) });
+  const setusd = new Token('SETUSD', { decimals: 18, ed: new FN(0.1) });
+
+  const createBalance = (token: Token, free: number, locked = 0): BalanceData => ({
+    token,
+    free: new FN(free),
+    locked: new FN(locked),
+    reserved: FN.ZERO,
+    available: new FN(free - locked)
+  });
+
+  const check = (
+    token: Token,
+    amount: number,
+    balances: { sender: number; native: number; receiver: number; locked?: number },
+    keepAlive = true
+  ) => {
+    return checkTransfer({
+      isNativeToken: token === setm,
+      keepAlive,
+      from,
+      to,
+      token,
+      amount: new FN(amount),
+      fee: new FN(0.5),
+      senderBalance: createBalance(token, balances.sender, balances.locked),
+      senderNativeBalance: createBalance(setm, balances.native),
+      receiverBalance: createBalance(token, balances.receiver)
+    });
+  };
+
+  test('no warnings when the balances are enough', () => {
+    expect(check(setm, 5, { sender: 10, native: 10, receiver: 0 })).toEqual([]);
+    expect(check(setusd, 5, { sender: 10, native: 1, receiver: 0 })).toEqual([]);
+  });
+
+  test('warn when the native balance can not cover the fee', () => {
+    const nativeWarnings = check(setm, 9.8, { sender: 10, native: 10, receiver: 0 });
+    const warnings = check(setusd, 5, { sender: 10, native: 0.4, receiver: 0 });
+
+    expect(nativeWarnings[0]).toBeInstanceOf(MayFailedCausedByFee);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toBeInstanceOf(MayFailedCausedByFee);
+  });
+
+  test('warn when the sender will be below the ed', () => {
+    const warnings = check(setm, 9, { sender: 10, native: 10, receiver: 0 });
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toBeInstanceOf(BelowExistentialDeposit);
+    expect((warnings[0] as BelowExistentialDeposit).account).toBe(from);
+  });
+
+  test('allow the sender to be reaped when not keep alive', () => {
+    // transfer all, the rest balance is zero
+    expect(check(setusd, 10, { sender: 10, native: 1, receiver: 0 }, false)).toEqual([]);
+    expect(check(setusd, 10, { sender: 10, native: 1, receiver: 0 }, true)[0]).toBeInstanceOf(BelowExistentialDeposit);
+    // the rest balance which is below the ed will be lost
+    expect(check(setusd, 9.95, { sender: 10, native: 1, receiver: 0 }, false)[0]).toBeInstanceOf(
+      BelowExistentialDeposit
+    );
+  });
+
+  test('throw InsufficientBalance when the available balance can not cover the amount', () => {
+    expect(() => check(setusd, 11, { sender: 10, native: 1, receiver: 0 })).toThrow(InsufficientBalance);
+    // the locked balance is not transferable
+    expect(() => check(setusd, 5, { sender: 10, native: 1, receiver: 0, locked: 6 })).toThrow(
+      'the SETUSD available balance of alice is less than 5'
+    );
+    expect(check(setusd, 5, { sender: 10, native: 1, receiver: 0, locked: 4.95 })[0]).toBeInstanceOf(
+      BelowExistentialDeposit
+    );
+  });
+
+  test('warn when the receiver will be below the ed', () => {
+    const warnings = check(setusd, 0.05, { sender: 10, native: 1, receiver: 0 });
+
+    expect(warnings).toHaveLength(1);
+    expect((warnings[0] as BelowExistentialDeposit).account).toBe(to);
+    expect(check(setusd, 0.05, { sender: 10, native: 1, receiver: 0.05 })).toEqual([]);
+  });
+});
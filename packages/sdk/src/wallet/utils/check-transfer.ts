@@ -0,0 +1,68 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { BelowExistentialDeposit, InsufficientBalance, MayFailedCausedByFee } from '../../errors';
+import { BalanceData, TransferWarning } from '../type';
+
+/*
+the transfer check rule:
+
+- the sender:
+  0. the available balance should cover amount, the locked and reserved balances are not transferable
+  1. if is native token, the available balance should cover amount + fee, else the native available balance should cover fee
+  2. if keep alive, the available balance after transfer should not be below ed,
+     else the available balance after transfer should be zero or not below ed, the rest balance will be lost when the account is reaped
+- the receiver:
+  1. the free balance after transfer should not be below ed
+*/
+
+interface Config {
+  isNativeToken: boolean;
+  keepAlive: boolean;
+
+  from: string;
+  to: string;
+  token: Token;
+  amount: FN;
+  fee: FN;
+
+  senderBalance: BalanceData;
+  senderNativeBalance: BalanceData;
+  receiverBalance: BalanceData;
+}
+
+const ZERO = FN.ZERO;
+
+export const checkTransfer = (config: Config): TransferWarning[] => {
+  const {
+    isNativeToken,
+    keepAlive,
+    from,
+    to,
+    token,
+    amount,
+    fee,
+    senderBalance,
+    senderNativeBalance,
+    receiverBalance
+  } = config;
+  const warnings: TransferWarning[] = [];
+  const ed = token.ed;
+
+  const senderCost = isNativeToken ? amount.add(fee) : amount;
+  const nativeCost = isNativeToken ? senderCost : fee;
+
+  if (senderNativeBalance.available.lt(nativeCost)) warnings.push(new MayFailedCausedByFee());
+
+  if (senderBalance.available.lt(amount)) throw new InsufficientBalance(from, token.name, amount.toString());
+
+  const senderRest = senderBalance.available.sub(senderCost);
+
+  if (senderRest.gte(ZERO) && senderRest.lt(ed) && (keepAlive || senderRest.gt(ZERO))) {
+    warnings.push(new BelowExistentialDeposit(from, token.name));
+  }
+
+  if (receiverBalance.free.add(amount).lt(ed)) {
+    warnings.push(new BelowExistentialDeposit(to, token.name));
+  }
+
+  return warnings;
+};
@@ -0,0 +1,55 @@
+import { Token, TokenType } from '@setheum.js/sdk-core';
+import { AssetMetadataEntry, createAssetRegistryTokens, createTokenList } from './create-token-list';
+
+describe('create token list', () => {
+  const address = '0x0000000000000000000100000000000000000001';
+
+  const createEntry = (id: Record<string, unknown>, metadata?: { symbol: string; decimals: number; ed: string }) => {
+    return [
+      { args: [id] },
+      {
+        isSome: !!metadata,
+        unwrap: () => ({
+          symbol: { toUtf8: () => metadata?.symbol },
+          name: { toUtf8: () => `${metadata?.symbol || ''} token` },
+          decimals: { toNumber: () => metadata?.decimals },
+          minimalBalance: { toString: () => metadata?.ed }
+        })
+      }
+    ] as unknown as AssetMetadataEntry;
+  };
+
+  const erc20 = createEntry(
+    { isErc20: true, asErc20: { toString: () => address } },
+    {
+      symbol: 'USDC',
+      decimals: 6,
+      ed: '10000'
+    }
+  );
+
+  test('create the erc20 tokens from the asset registry', () => {
+    const tokens = createAssetRegistryTokens([
+      erc20,
+      createEntry({ isErc20: true, asErc20: { toString: () => '0x01' } }),
+      // the unknown asset ids are ignored
+      createEntry({ isErc20: false }, { symbol: 'UNKNOWN', decimals: 12, ed: '1' })
+    ]);
+    const token = tokens[`erc20://${address}`];
+
+    expect(Object.keys(tokens)).toEqual([`erc20://${address}`]);
+    expect(token.type).toBe(TokenType.ERC20);
+    expect(token.symbol).toBe('USDC');
+    expect(token.display).toBe('USDC token');
+    expect(token.decimals).toBe(6);
+    expect(token.ed.toNumber()).toBe(0.01);
+  });
+
+  test('the basic tokens are not overwritten by the asset registry', () => {
+    const setm = new Token('SETM', { decimals: 12 });
+    const tokens = createTokenList({ SETM: setm }, [], [erc20]);
+
+    expect(tokens.SETM).toBe(setm);
+    expect(tokens[`erc20://${address}`].decimals).toBe(6);
+  });
+});
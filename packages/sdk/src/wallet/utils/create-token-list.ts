@@ -1,20 +1,55 @@
 import {
+  FixedPointNumber as FN,
   Token,
-  forceToCurrencyName
+  forceToCurrencyName,
+  getAssetRegistryName,
+  getCurrencyTypeByName
 } from '@setheum.js/sdk-core';
-import { TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
-import { StorageKey } from '@polkadot/types';
-// import { hexToString } from '@polkadot/util';
+import { SetheumAssetMetadata, TradingPair, TradingPairStatus } from '@setheum.js/types/interfaces';
+import { Option, StorageKey } from '@polkadot/types';
+import { ModuleAssetRegistryModuleAssetIds } from '@polkadot/types/lookup';
 import { TokenRecord } from '../type';
 
+export type AssetMetadataEntry = [StorageKey<[ModuleAssetRegistryModuleAssetIds]>, Option<SetheumAssetMetadata>];
+
+/**
+ * @name createAssetRegistryTokens
+ * @description create tokens from the metadatas in asset registry, the minimal balance is used as the ed
+ */
+export function createAssetRegistryTokens(assetMetadatas: AssetMetadataEntry[]): TokenRecord {
+  return Object.fromEntries(
+    assetMetadatas
+      .filter(([, metadata]) => metadata.isSome)
+      .map(([key, metadata]): [string, Token] | undefined => {
+        const name = getAssetRegistryName(key.args[0]);
+
+        if (!name) return undefined;
+
+        const { symbol, name: display, decimals, minimalBalance } = metadata.unwrap();
+
+        return [
+          name,
+          new Token(name, {
+            type: getCurrencyTypeByName(name),
+            symbol: symbol.toUtf8(),
+            display: display.toUtf8(),
+            decimals: decimals.toNumber(),
+            ed: FN.fromInner(minimalBalance.toString(), decimals.toNumber())
+          })
+        ];
+      })
+      .filter((item): item is [string, Token] => !!item)
+  );
+}
+
 export function createTokenList(
   basicTokens: TokenRecord,
-  tradingPairs: [StorageKey<[TradingPair]>, TradingPairStatus][]
+  tradingPairs: [StorageKey<[TradingPair]>, TradingPairStatus][],
+  assetMetadatas: AssetMetadataEntry[] = []
 ): TokenRecord {
-  // tokens list temp
-  let temp: TokenRecord = { ...basicTokens };
+  // tokens list temp, the basic tokens can't be overwritten by asset registry
+  let temp: TokenRecord = { ...createAssetRegistryTokens(assetMetadatas), ...basicTokens };
 
-  // TODO: need support stable coin assets & erc20
   // handle dex share at latest
   const dexShareTokens = Object.fromEntries(
     tradingPairs
@@ -26,10 +61,14 @@ export function createTokenList(
         const token1 = temp[token1Name];
         const token2 = temp[token2Name];
 
+        // skip the pairs of the tokens which are not registered
+        if (!token1 || !token2) return undefined;
+
         const token = Token.fromTokens(token1, token2);
 
         return [token.name, token];
       })
+      .filter((item): item is [string, Token] => !!item)
   );
 
   // insert dex share tokens to temp
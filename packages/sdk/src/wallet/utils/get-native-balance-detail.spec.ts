@@ -0,0 +1,122 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { Vec } from '@polkadot/types';
+import { AccountInfo, BalanceLock } from '@polkadot/types/interfaces';
+import { VestingScheduleOf } from '@open-web3/orml-types/interfaces';
+import { getNativeBalanceDetail } from './get-native-balance-detail';
+
+describe('get native balance detail', () => {
+  const token = new Token('SETM', { decimals: 12 });
+
+  const toChain = (amount: number) => ({ toString: () => new FN(amount, token.decimals).toChainData() });
+
+  const createAccount = (free: number, miscFrozen: number, feeFrozen: number, reserved = 0) => {
+    return {
+      data: {
+        free: toChain(free),
+        miscFrozen: toChain(miscFrozen),
+        feeFrozen: toChain(feeFrozen),
+        reserved: toChain(reserved)
+      }
+    } as unknown as AccountInfo;
+  };
+
+  // the lock id is padded with spaces to 8 bytes
+  const createLocks = (locks: [string, number][]) => {
+    return locks.map(([id, amount]) => ({
+      id: { toUtf8: () => id.padEnd(8, ' ') },
+      amount: toChain(amount),
+      reasons: { toString: () => 'All' }
+    })) as unknown as Vec<BalanceLock>;
+  };
+
+  const createSchedules = (schedules: [number, number, number, number][]) => {
+    return schedules.map(([start, period, periodCount, perPeriod]) => ({
+      start: { toNumber: () => start },
+      period: { toNumber: () => period },
+      periodCount: { toNumber: () => periodCount },
+      perPeriod: toChain(perPeriod)
+    })) as unknown as Vec<VestingScheduleOf>;
+  };
+
+  test('the locked balance is the max of the frozen balances', () => {
+    const detail = getNativeBalanceDetail(
+      createAccount(100, 30, 20, 5),
+      createLocks([]),
+      createSchedules([]),
+      0,
+      token
+    );
+
+    expect(detail.token).toBe(token);
+    expect(detail.free.toNumber()).toBe(100);
+    expect(detail.locked.toNumber()).toBe(30);
+    expect(detail.reserved.toNumber()).toBe(5);
+    expect(detail.available.toNumber()).toBe(70);
+  });
+
+  test('the available balance is not negative', () => {
+    const detail = getNativeBalanceDetail(createAccount(10, 5, 20), createLocks([]), createSchedules([]), 0, token);
+
+    expect(detail.locked.toNumber()).toBe(20);
+    expect(detail.available.isZero()).toBe(true);
+  });
+
+  test('decode the lock types', () => {
+    const locks = createLocks([
+      ['ormlvest', 30],
+      ['staking', 10],
+      ['democrac', 5],
+      ['phrelect', 2],
+      ['custom', 1]
+    ]);
+    const detail = getNativeBalanceDetail(createAccount(100, 30, 0), locks, createSchedules([]), 0, token);
+
+    expect(detail.locks.map((item) => [item.id, item.type, item.amount.toNumber(), item.reasons])).toEqual([
+      ['ormlvest', 'vesting', 30, 'All'],
+      ['staking', 'staking', 10, 'All'],
+      ['democrac', 'democracy', 5, 'All'],
+      ['phrelect', 'election', 2, 'All'],
+      ['custom', 'custom', 1, 'All']
+    ]);
+  });
+
+  test('calculate the vested and claimable amount of the schedules', () => {
+    // 10 SETM from block 100 to 150, and 20 SETM from block 200 to 400
+    const schedules = createSchedules([
+      [100, 10, 5, 2],
+      [200, 50, 4, 5]
+    ]);
+    const detail = getNativeBalanceDetail(
+      createAccount(100, 30, 0),
+      createLocks([['ormlvest', 30]]),
+      schedules,
+      120,
+      token
+    );
+
+    // 6 SETM of the first schedule and 20 SETM of the second schedule are still locked at block 120
+    expect(detail.vesting.total.toNumber()).toBe(30);
+    expect(detail.vesting.vested.toNumber()).toBe(4);
+    expect(detail.vesting.claimable.toNumber()).toBe(4);
+    expect(detail.vesting.locked.toNumber()).toBe(30);
+    expect(detail.vesting.endBlock).toBe(400);
+  });
+
+  test('the claimable amount is zero when the vesting lock is claimed', () => {
+    const schedules = createSchedules([[100, 10, 5, 2]]);
+    const claimed = getNativeBalanceDetail(
+      createAccount(100, 6, 0),
+      createLocks([['ormlvest', 6]]),
+      schedules,
+      120,
+      token
+    );
+    const unlocked = getNativeBalanceDetail(createAccount(100, 0, 0), createLocks([]), schedules, 200, token);
+
+    expect(claimed.vesting.vested.toNumber()).toBe(4);
+    expect(claimed.vesting.claimable.isZero()).toBe(true);
+    expect(unlocked.vesting.vested.toNumber()).toBe(10);
+    expect(unlocked.vesting.locked.isZero()).toBe(true);
+    expect(unlocked.vesting.claimable.isZero()).toBe(true);
+  });
+});
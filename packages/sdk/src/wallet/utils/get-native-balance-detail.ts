@@ -0,0 +1,56 @@
+import { FixedPointNumber as FN, Token } from '@setheum.js/sdk-core';
+import { Vec } from '@polkadot/types';
+import { AccountInfo, BalanceLock } from '@polkadot/types/interfaces';
+import { VestingScheduleOf } from '@open-web3/orml-types/interfaces';
+import { decodeVestingSchedule, getVestingSummary, VESTING_LOCK_ID } from '../../vesting/utils';
+import { BalanceLockDetail, NativeBalanceDetail } from '../type';
+
+const LOCK_TYPES: Record<string, string> = {
+  [VESTING_LOCK_ID]: 'vesting',
+  staking: 'staking',
+  democrac: 'democracy',
+  phrelect: 'election'
+};
+
+const ZERO = FN.ZERO;
+
+const decodeLocks = (locks: Vec<BalanceLock>, token: Token): BalanceLockDetail[] => {
+  return locks.map((item) => {
+    // the lock id is 8 bytes, which is padded with spaces
+    const id = item.id.toUtf8().trim();
+
+    return {
+      id,
+      type: LOCK_TYPES[id] || id,
+      amount: FN.fromInner(item.amount.toString(), token.decimals),
+      reasons: item.reasons.toString()
+    };
+  });
+};
+
+export const getNativeBalanceDetail = (
+  accountInfo: AccountInfo,
+  locks: Vec<BalanceLock>,
+  schedules: Vec<VestingScheduleOf>,
+  currentBlock: number,
+  token: Token
+): NativeBalanceDetail => {
+  const free = FN.fromInner(accountInfo.data.free.toString(), token.decimals);
+  const locked = FN.fromInner(accountInfo.data.miscFrozen.toString(), token.decimals).max(
+    FN.fromInner(accountInfo.data.feeFrozen.toString(), token.decimals)
+  );
+  const reserved = FN.fromInner(accountInfo.data.reserved.toString(), token.decimals);
+  const available = free.sub(locked).max(ZERO);
+
+  const vestingSchedules = schedules.map((item) => decodeVestingSchedule(item, token));
+
+  return {
+    token,
+    free,
+    locked,
+    reserved,
+    available,
+    locks: decodeLocks(locks, token),
+    vesting: getVestingSummary(vestingSchedules, locks, currentBlock, token)
+  };
+};
@@ -0,0 +1,43 @@
+import { FixedPointNumber as FN } from '@setheum.js/sdk-core';
+import { firstValueFrom } from 'rxjs';
+import { StaticPriceProvider } from '../price-provider/static-price-provider';
+import { subscribePriceWithFallback } from './subscribe-price-with-fallback';
+
+describe('subscribe price with fallback', () => {
+  const get = (providers: StaticPriceProvider[]) => firstValueFrom(subscribePriceWithFallback('SETM', providers));
+
+  test('use the first provider which has the price', async () => {
+    const first = new StaticPriceProvider({ SETM: new FN(1) });
+    const second = new StaticPriceProvider({ SETM: new FN(2) });
+
+    expect((await get([first, second])).toNumber()).toBe(1);
+  });
+
+  test('fallback when the price is missing, zero or NaN', async () => {
+    const missing = new StaticPriceProvider();
+    const zero = new StaticPriceProvider({ SETM: FN.ZERO });
+    const nan = new StaticPriceProvider({ SETM: new FN(NaN) });
+    const last = new StaticPriceProvider({ SETM: new FN(3) });
+
+    expect((await get([missing, zero, nan, last])).toNumber()).toBe(3);
+  });
+
+  test('return zero if no provider has the price', async () => {
+    expect((await get([])).isZero()).toBe(true);
+    expect((await get([new StaticPriceProvider()])).isZero()).toBe(true);
+  });
+
+  test('switch back to the first provider when its price is updated', async () => {
+    const first = new StaticPriceProvider();
+    const second = new StaticPriceProvider({ SETM: new FN(2) });
+    const prices: number[] = [];
+    const subscription = subscribePriceWithFallback('SETM', [first, second]).subscribe((price) =>
+      prices.push(price.toNumber())
+    );
+
+    first.setPrice('SETM', new FN(1));
+    subscription.unsubscribe();
+
+    expect(prices).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,26 @@
+import { FixedPointNumber } from '@setheum.js/sdk-core';
+import { Observable, of } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { PriceProvider } from '../price-provider/types';
+
+function isEmptyPrice(price?: FixedPointNumber): boolean {
+  return !price || price.isNaN() || price.isZero();
+}
+
+/**
+ * @name subscribePriceWithFallback
+ * @description subscribe the price of `currency` from the first provider, use the next provider when it returns nothing
+ */
+export function subscribePriceWithFallback(currency: string, providers: PriceProvider[]): Observable<FixedPointNumber> {
+  const [provider, ...fallbacks] = providers;
+
+  if (!provider) return of(FixedPointNumber.ZERO);
+
+  return provider.subscribe(currency).pipe(
+    switchMap((price) => {
+      if (!isEmptyPrice(price)) return of(price);
+
+      return fallbacks.length ? subscribePriceWithFallback(currency, fallbacks) : of(price || FixedPointNumber.ZERO);
+    })
+  );
+}
@@ -835,11 +835,41 @@ declare module '@polkadot/api-base/types/storage' {
     };
     vesting: {
       /**
-       * Vesting schedules of an account.
+       * Vesting schedules of an account under DNAR currency.
        * 
-       * VestingSchedules: map AccountId => Vec<VestingSchedule>
+       * DinarVestingSchedules: map AccountId => Vec<VestingSchedule>
        **/
-      vestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      dinarVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      /**
+       * Vesting schedules of an account under HELP currency.
+       * 
+       * HelpVestingSchedules: map AccountId => Vec<VestingSchedule>
+       **/
+      helpVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      /**
+       * Vesting schedules of an account under SETM currency.
+       * 
+       * NativeVestingSchedules: map AccountId => Vec<VestingSchedule>
+       **/
+      nativeVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      /**
+       * Vesting schedules of an account under SERP currency.
+       * 
+       * SerpVestingSchedules: map AccountId => Vec<VestingSchedule>
+       **/
+      serpVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      /**
+       * Vesting schedules of an account under SETUSD currency.
+       * 
+       * SetUSDVestingSchedules: map AccountId => Vec<VestingSchedule>
+       **/
+      setUSDVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
+      /**
+       * Vesting schedules of an account under SETR currency.
+       * 
+       * SetterVestingSchedules: map AccountId => Vec<VestingSchedule>
+       **/
+      setterVestingSchedules: AugmentedQuery<ApiType, (arg: AccountId32 | string | Uint8Array) => Observable<Vec<OrmlVestingVestingSchedule>>, [AccountId32]> & QueryableStorageEntry<ApiType, [AccountId32]>;
       /**
        * Generic query
        **/